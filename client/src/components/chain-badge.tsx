@@ -11,6 +11,9 @@ const chainColors: Record<string, { bg: string; text: string }> = {
   bitcoin: { bg: "bg-orange-100 dark:bg-orange-900/40", text: "text-orange-700 dark:text-orange-300" },
   avalanche: { bg: "bg-red-100 dark:bg-red-900/40", text: "text-red-700 dark:text-red-300" },
   bsc: { bg: "bg-yellow-100 dark:bg-yellow-900/40", text: "text-yellow-700 dark:text-yellow-300" },
+  coinbase: { bg: "bg-sky-100 dark:bg-sky-900/40", text: "text-sky-700 dark:text-sky-300" },
+  kraken: { bg: "bg-violet-100 dark:bg-violet-900/40", text: "text-violet-700 dark:text-violet-300" },
+  binance: { bg: "bg-amber-100 dark:bg-amber-900/40", text: "text-amber-700 dark:text-amber-300" },
 };
 
 const chainLabels: Record<string, string> = {
@@ -23,6 +26,9 @@ const chainLabels: Record<string, string> = {
   bitcoin: "Bitcoin",
   avalanche: "Avalanche",
   bsc: "BSC",
+  coinbase: "Coinbase",
+  kraken: "Kraken",
+  binance: "Binance",
 };
 
 interface ChainBadgeProps {
@@ -15,10 +15,11 @@ import {
   ArrowRight,
   HelpCircle,
   Lock,
-  Unlock
+  Unlock,
+  FileCode
 } from "lucide-react";
 
-const classificationConfig: Record<string, { 
+const classificationConfig: Record<ClassificationType, { 
   label: string; 
   icon: React.ElementType;
   color: string;
@@ -42,6 +43,8 @@ const classificationConfig: Record<string, {
   unwrap: { label: "Unwrap", icon: Package, color: "bg-slate-100 dark:bg-slate-900/40 text-slate-700 dark:text-slate-300" },
   migration: { label: "Migration", icon: ArrowRight, color: "bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300" },
   self_transfer: { label: "Self Transfer", icon: ArrowRight, color: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300" },
+  transfer: { label: "Transfer", icon: ArrowRight, color: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300" },
+  contract_interaction: { label: "Contract Call", icon: FileCode, color: "bg-slate-100 dark:bg-slate-900/40 text-slate-700 dark:text-slate-300" },
   income: { label: "Income", icon: DollarSign, color: "bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300" },
   expense: { label: "Expense", icon: TrendingDown, color: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300" },
   unknown: { label: "Unknown", icon: HelpCircle, color: "bg-yellow-100 dark:bg-yellow-900/40 text-yellow-700 dark:text-yellow-300" },
@@ -60,7 +63,7 @@ export function ClassificationBadge({
   showConfidence = false,
   className 
 }: ClassificationBadgeProps) {
-  const config = classificationConfig[classification] || classificationConfig.unknown;
+  const config = classificationConfig[classification as ClassificationType] || classificationConfig.unknown;
   const Icon = config.icon;
   const confidenceValue = confidence ? parseFloat(confidence) : null;
 
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -34,9 +34,10 @@ import {
   Coins,
   Gift,
   ImageIcon,
-  Pickaxe
+  Pickaxe,
+  Scale
 } from "lucide-react";
-import type { Disposal } from "@shared/schema";
+import type { Disposal, LotMethod, LotMethodComparison, Settings as UserSettings } from "@shared/schema";
 import { format } from "date-fns";
 
 function formatCurrency(value: string | number | null): string {
@@ -104,10 +105,169 @@ type ReportSummary = {
   longTermLosses: string;
   netGainLoss: string;
   totalIncome: string;
+  totalFeesUsd: string;
+  deductibleFeesUsd: string;
   needsReviewCount: number;
   disposals: Disposal[];
 };
 
+const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  hifo: "HIFO",
+  specific_id: "Specific ID",
+};
+
+function LotMethodComparisonCard({ taxYear }: { taxYear: number }) {
+  const { toast } = useToast();
+
+  const { data: comparison, isLoading } = useQuery<LotMethodComparison>({
+    queryKey: [`/api/reports/lot-methods?year=${taxYear}`],
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (lotMethod: LotMethod) => {
+      await apiRequest("PATCH", "/api/settings", { lotMethod });
+    },
+    onSuccess: (_data, lotMethod) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/summary?year=${taxYear}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reports/lot-methods?year=${taxYear}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Lot method updated",
+        description: `Cost basis is now calculated using ${LOT_METHOD_LABELS[lotMethod]}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Update failed",
+        description: "Unable to change the lot method. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const netClass = (value: string) => parseFloat(value) >= 0 ? "text-gain" : "text-loss";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Lot Method Comparison
+        </CardTitle>
+        <CardDescription>
+          How {taxYear} gains would change under each cost basis method. Nothing is saved until you apply a method.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="space-y-2 p-6">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Method</TableHead>
+                <TableHead className="text-right">Short-Term Net</TableHead>
+                <TableHead className="text-right">Long-Term Net</TableHead>
+                <TableHead className="text-right">Net Gain/Loss</TableHead>
+                <TableHead className="text-right">Disposals</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison?.methods.map((m) => {
+                const shortNet = (parseFloat(m.shortTermGains) - parseFloat(m.shortTermLosses)).toFixed(2);
+                const longNet = (parseFloat(m.longTermGains) - parseFloat(m.longTermLosses)).toFixed(2);
+                const isCurrent = m.lotMethod === comparison.currentMethod;
+                return (
+                  <TableRow key={m.lotMethod} data-testid={`row-lot-method-${m.lotMethod}`}>
+                    <TableCell className="font-medium">
+                      {LOT_METHOD_LABELS[m.lotMethod]}
+                      {isCurrent && (
+                        <Badge variant="secondary" className="ml-2">Current</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right ${netClass(shortNet)}`}>{formatCurrency(shortNet)}</TableCell>
+                    <TableCell className={`text-right ${netClass(longNet)}`}>{formatCurrency(longNet)}</TableCell>
+                    <TableCell className={`text-right font-medium ${netClass(m.netGainLoss)}`}>
+                      {formatCurrency(m.netGainLoss)}
+                    </TableCell>
+                    <TableCell className="text-right">{m.totalDisposals}</TableCell>
+                    <TableCell className="text-right">
+                      {!isCurrent && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => applyMutation.mutate(m.lotMethod)}
+                          disabled={applyMutation.isPending}
+                          data-testid={`button-apply-lot-method-${m.lotMethod}`}
+                        >
+                          Apply
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {comparison && comparison.disposals.length > 0 && (
+        <CardContent className="p-0 border-t">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Asset</TableHead>
+                {comparison.methods.map((m) => (
+                  <TableHead key={m.lotMethod} className="text-right">
+                    {LOT_METHOD_LABELS[m.lotMethod]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.disposals.slice(0, 10).map((d) => (
+                <TableRow key={d.transactionId}>
+                  <TableCell>{format(new Date(d.disposedAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    <span className="font-medium">{d.tokenSymbol}</span>
+                    <span className="text-muted-foreground ml-1 text-xs">
+                      {parseFloat(d.amount).toFixed(4)}
+                    </span>
+                  </TableCell>
+                  {comparison.methods.map((m) => {
+                    const delta = parseFloat(d.deltaByMethod[m.lotMethod]);
+                    return (
+                      <TableCell key={m.lotMethod} className="text-right">
+                        <div className={netClass(d.gainLossByMethod[m.lotMethod])}>
+                          {formatCurrency(d.gainLossByMethod[m.lotMethod])}
+                        </div>
+                        {delta !== 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {delta > 0 ? "+" : ""}{formatCurrency(delta)}
+                          </div>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
 function ReportCard({ 
   report, 
   taxYear,
@@ -149,9 +309,20 @@ function ReportCard({
 }
 
 export default function Reports() {
-  const [taxYear, setTaxYear] = useState(2024);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
   const { toast } = useToast();
 
+  const { data: userSettings } = useQuery<Partial<UserSettings>>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Opens on the tax year from settings until another year is picked
+  const taxYear = selectedYear ?? userSettings?.taxYear ?? 2024;
+  const currentYear = new Date().getFullYear();
+  const yearOptions = Array.from(
+    new Set([...Array.from({ length: 6 }, (_, i) => currentYear - i), taxYear])
+  ).sort((a, b) => b - a);
+
   const { data: summary, isLoading } = useQuery<ReportSummary>({
     queryKey: [`/api/reports/summary?year=${taxYear}`],
   });
@@ -205,15 +376,15 @@ export default function Reports() {
             Generate and download your tax reports
           </p>
         </div>
-        <Select value={taxYear.toString()} onValueChange={(v) => setTaxYear(parseInt(v))}>
+        <Select value={taxYear.toString()} onValueChange={(v) => setSelectedYear(parseInt(v))}>
           <SelectTrigger className="w-[140px]" data-testid="select-tax-year">
             <Calendar className="h-4 w-4 mr-2" />
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="2024">2024</SelectItem>
-            <SelectItem value="2023">2023</SelectItem>
-            <SelectItem value="2022">2022</SelectItem>
+            {yearOptions.map((year) => (
+              <SelectItem key={year} value={year.toString()}>{year}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -325,6 +496,11 @@ export default function Reports() {
               </div>
             )}
             <p className="text-xs text-muted-foreground mt-1">Taxable events</p>
+            {summary && parseFloat(summary.totalFeesUsd) > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-fees">
+                {formatCurrency(summary.totalFeesUsd)} in fees, {formatCurrency(summary.deductibleFeesUsd)} deductible
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -343,6 +519,8 @@ export default function Reports() {
         </div>
       </div>
 
+      <LotMethodComparisonCard taxYear={taxYear} />
+
       {summary?.disposals && summary.disposals.length > 0 && (
         <Card>
           <CardHeader>
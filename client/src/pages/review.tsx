@@ -35,6 +35,8 @@ const classificationOptions: { value: ClassificationType; label: string; descrip
   { value: "nft_mint", label: "NFT Mint", description: "Created or purchased an NFT" },
   { value: "nft_sale", label: "NFT Sale", description: "Sold an NFT" },
   { value: "self_transfer", label: "Self Transfer", description: "Moved between your own wallets" },
+  { value: "transfer", label: "Transfer", description: "Sent to or received from someone else" },
+  { value: "contract_interaction", label: "Contract Call", description: "Approval or call that moved nothing" },
 ];
 
 function formatAmount(value: string | number | null, decimals: number = 6): string {
@@ -72,6 +74,11 @@ function ReviewCard({ tx, onClassify }: { tx: Transaction; onClassify: (classifi
               <CardDescription className="flex items-center gap-2 mt-1">
                 <ChainBadge chain={tx.chain} />
                 <span>{format(new Date(tx.timestamp), "MMM d, yyyy HH:mm")}</span>
+                {tx.previousClassification && (
+                  <span data-testid={`text-previous-classification-${tx.id}`}>
+                    · previously "{tx.previousClassification}"
+                  </span>
+                )}
               </CardDescription>
             </div>
           </div>
@@ -127,12 +134,24 @@ function ReviewCard({ tx, onClassify }: { tx: Transaction; onClassify: (classifi
               )}
             </div>
           </div>
-          {tx.methodName && (
+          {(tx.methodName || tx.methodSelector) && (
             <div className="mt-3 pt-3 border-t">
               <span className="text-muted-foreground text-sm">Method: </span>
               <code className="text-sm font-mono bg-muted px-1.5 py-0.5 rounded">
-                {tx.methodName}
+                {tx.methodName || tx.methodSelector}
               </code>
+              {tx.methodArgs && tx.methodArgs.length > 0 && (
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs" data-testid={`method-args-${tx.id}`}>
+                  {tx.methodArgs.map((arg, i) => (
+                    <div key={i} className="contents">
+                      <dt className="text-muted-foreground">{arg.name} <span className="opacity-60">{arg.type}</span></dt>
+                      <dd className="font-mono break-all">
+                        {Array.isArray(arg.value) ? `[${arg.value.join(", ")}]` : arg.value}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
             </div>
           )}
         </div>
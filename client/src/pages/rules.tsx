@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
@@ -40,6 +42,8 @@ import { AddressDisplay } from "@/components/address-display";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -59,10 +63,20 @@ import {
   MoreVertical,
   Trash2,
   Zap,
-  CheckCircle2
+  CheckCircle2,
+  Play,
+  ArrowRight,
+  FileCode
 } from "lucide-react";
-import type { ClassificationRule } from "@shared/schema";
-import { SUPPORTED_CHAINS, CLASSIFICATION_TYPES } from "@shared/schema";
+import { format, formatDistanceToNow } from "date-fns";
+import type { ClassificationRule, ClassificationRuleWithStats, ContractAbi } from "@shared/schema";
+import { SUPPORTED_CHAINS, CLASSIFICATION_TYPES, RULE_DIRECTIONS } from "@shared/schema";
+
+const DIRECTION_LABELS: Record<string, string> = {
+  in: "Incoming only",
+  out: "Outgoing only",
+  both: "Incoming & outgoing",
+};
 
 const addRuleSchema = z.object({
   name: z.string().min(1, "Rule name is required"),
@@ -78,8 +92,180 @@ const addRuleSchema = z.object({
 
 type AddRuleFormValues = z.infer<typeof addRuleSchema>;
 
-function RuleRow({ rule }: { rule: ClassificationRule }) {
+const addAbiSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  chain: z.string().optional(),
+  contractAddress: z.string()
+    .regex(/^(0x[0-9a-fA-F]{40})?$/, "Must be a 0x address")
+    .optional(),
+  abi: z.string().min(1, "Paste the contract ABI").refine(value => {
+    try {
+      return Array.isArray(JSON.parse(value));
+    } catch {
+      return false;
+    }
+  }, "ABI must be a JSON array"),
+});
+
+type AddAbiFormValues = z.infer<typeof addAbiSchema>;
+
+type RuleChange = {
+  transactionId: string;
+  txHash: string;
+  chain: string;
+  timestamp: string;
+  userClassified: boolean;
+  fromClassification: string | null;
+  toClassification: string;
+  ruleId: string;
+  ruleName: string;
+};
+
+type ApplyRulesResult = {
+  dryRun: boolean;
+  affected: number;
+  matched: number;
+  changes: RuleChange[];
+};
+
+function ApplyRulesDialog({
+  rule,
+  open,
+  onOpenChange,
+}: {
+  rule?: ClassificationRule;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [includeUserClassified, setIncludeUserClassified] = useState(false);
+  const url = rule ? `/api/rules/${rule.id}/apply` : "/api/rules/apply-all";
+
+  const { data: preview, isLoading } = useQuery<ApplyRulesResult>({
+    queryKey: [url, "dry-run", includeUserClassified],
+    queryFn: async () => {
+      const response = await apiRequest("POST", url, { dryRun: true, includeUserClassified });
+      return response.json();
+    },
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", url, { dryRun: false, includeUserClassified });
+      return response.json() as Promise<ApplyRulesResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      onOpenChange(false);
+      toast({
+        title: "Rules applied",
+        description: `${result.affected} transaction${result.affected === 1 ? "" : "s"} reclassified, ${result.matched} already matching.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to apply rules. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{rule ? `Apply "${rule.name}"` : "Apply All Rules"}</DialogTitle>
+          <DialogDescription>
+            Preview how existing transactions would be reclassified before committing.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="include-user-classified"
+            checked={includeUserClassified}
+            onCheckedChange={(checked) => setIncludeUserClassified(checked === true)}
+            data-testid="checkbox-include-user-classified"
+          />
+          <Label htmlFor="include-user-classified" className="text-sm font-normal">
+            Also overwrite transactions I classified manually
+          </Label>
+        </div>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-5 w-48" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : preview ? (
+          <div className="space-y-3">
+            <p className="font-medium" data-testid="text-affected-count">
+              {preview.affected} transaction{preview.affected === 1 ? "" : "s"} would be affected
+            </p>
+            {preview.matched > 0 && (
+              <p className="text-sm text-muted-foreground" data-testid="text-matched-count">
+                {preview.matched} more already {preview.matched === 1 ? "has" : "have"} the rule's classification and will be counted as matches
+              </p>
+            )}
+            {preview.changes.length > 0 && (
+              <div className="max-h-72 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Transaction</TableHead>
+                      <TableHead>Change</TableHead>
+                      {!rule && <TableHead>Rule</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.changes.map((change) => (
+                      <TableRow key={change.transactionId}>
+                        <TableCell className="text-xs">
+                          {format(new Date(change.timestamp), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          <AddressDisplay address={change.txHash} />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <ClassificationBadge classification={change.fromClassification || "unknown"} />
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            <ClassificationBadge classification={change.toClassification} />
+                          </div>
+                        </TableCell>
+                        {!rule && <TableCell className="text-xs">{change.ruleName}</TableCell>}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        ) : null}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!preview || (preview.affected === 0 && preview.matched === 0) || applyMutation.isPending}
+            data-testid="button-confirm-apply-rules"
+          >
+            {applyMutation.isPending ? "Applying..." : "Apply Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RuleRow({ rule }: { rule: ClassificationRuleWithStats }) {
   const { toast } = useToast();
+  const [isApplyDialogOpen, setIsApplyDialogOpen] = useState(false);
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -159,7 +345,13 @@ function RuleRow({ rule }: { rule: ClassificationRule }) {
               <code className="font-mono bg-muted px-1 rounded">{rule.tokenPattern}</code>
             </div>
           )}
-          {!rule.contractAddress && !rule.methodSignature && !rule.tokenPattern && (
+          {rule.direction && (
+            <div>
+              <span className="text-muted-foreground">Direction: </span>
+              <span>{DIRECTION_LABELS[rule.direction] ?? rule.direction}</span>
+            </div>
+          )}
+          {!rule.contractAddress && !rule.methodSignature && !rule.tokenPattern && !rule.direction && (
             <span className="text-muted-foreground">No conditions</span>
           )}
         </div>
@@ -170,6 +362,25 @@ function RuleRow({ rule }: { rule: ClassificationRule }) {
       <TableCell>
         <Badge variant="outline">{rule.priority ?? 0}</Badge>
       </TableCell>
+      <TableCell>
+        {rule.hitCount > 0 ? (
+          <Link
+            href={`/transactions?ruleId=${rule.id}`}
+            className="text-sm hover:underline"
+            data-testid={`link-rule-matches-${rule.id}`}
+          >
+            <span className="font-medium">{rule.hitCount}</span>
+            <span className="text-muted-foreground"> transaction{rule.hitCount === 1 ? "" : "s"}</span>
+          </Link>
+        ) : (
+          <span className="text-sm text-muted-foreground">No matches</span>
+        )}
+        {rule.lastMatchedAt && (
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Last {formatDistanceToNow(new Date(rule.lastMatchedAt), { addSuffix: true })}
+          </p>
+        )}
+      </TableCell>
       <TableCell>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -178,6 +389,14 @@ function RuleRow({ rule }: { rule: ClassificationRule }) {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={() => setIsApplyDialogOpen(true)}
+              disabled={!rule.isActive}
+              data-testid={`button-apply-rule-${rule.id}`}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Apply to Existing
+            </DropdownMenuItem>
             <DropdownMenuItem 
               onClick={() => deleteMutation.mutate()}
               className="text-destructive"
@@ -188,16 +407,255 @@ function RuleRow({ rule }: { rule: ClassificationRule }) {
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <ApplyRulesDialog rule={rule} open={isApplyDialogOpen} onOpenChange={setIsApplyDialogOpen} />
       </TableCell>
     </TableRow>
   );
 }
 
+function AddAbiDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+
+  const form = useForm<AddAbiFormValues>({
+    resolver: zodResolver(addAbiSchema),
+    defaultValues: { name: "", chain: "", contractAddress: "", abi: "" },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (data: AddAbiFormValues) => {
+      const response = await apiRequest("POST", "/api/contract-abis", {
+        ...data,
+        chain: data.chain || null,
+        contractAddress: data.contractAddress || null,
+        abi: JSON.parse(data.abi),
+      });
+      return (await response.json()) as ContractAbi & { redecoded: number };
+    },
+    onSuccess: (abi) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-abis"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      onOpenChange(false);
+      form.reset();
+      toast({
+        title: "ABI added",
+        description: abi.redecoded > 0
+          ? `${abi.redecoded} existing transactions were decoded with it.`
+          : "New transactions calling it will be decoded on sync.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add ABI. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Contract ABI</DialogTitle>
+          <DialogDescription>
+            Decode method names and arguments for calls to contracts the built-in list does not know.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(data => addMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., My Vault" data-testid="input-abi-name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="chain"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chain (optional)</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-abi-chain">
+                          <SelectValue placeholder="Any chain" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SUPPORTED_CHAINS.map((chain) => (
+                          <SelectItem key={chain} value={chain}>
+                            {chain.charAt(0).toUpperCase() + chain.slice(1)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="contractAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contract (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0x..." className="font-mono" data-testid="input-abi-contract" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="abi"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>ABI JSON</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder='[{"type":"function","name":"deposit","inputs":[...]}]'
+                      className="font-mono text-xs min-h-[160px]"
+                      data-testid="input-abi-json"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>Without a contract address, the ABI decodes calls to any contract</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={addMutation.isPending} data-testid="button-submit-abi">
+                {addMutation.isPending ? "Adding..." : "Add ABI"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ContractAbisCard() {
+  const { toast } = useToast();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const { data: abis, isLoading } = useQuery<ContractAbi[]>({
+    queryKey: ["/api/contract-abis"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/contract-abis/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-abis"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "ABI removed",
+        description: "Transactions that used it have been decoded again.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove ABI. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Contract ABIs</CardTitle>
+          <CardDescription>
+            Common methods are decoded automatically; add ABIs for custom contracts so rules can match their method names
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={() => setIsAddOpen(true)} data-testid="button-add-abi">
+          <FileCode className="h-4 w-4 mr-2" />
+          Add ABI
+        </Button>
+        <AddAbiDialog open={isAddOpen} onOpenChange={setIsAddOpen} />
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-6">
+            <Skeleton className="h-4 w-full" />
+          </div>
+        ) : abis && abis.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="w-[100px]">Chain</TableHead>
+                <TableHead>Contract</TableHead>
+                <TableHead className="w-[100px]">Functions</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {abis.map((abi) => (
+                <TableRow key={abi.id} data-testid={`row-abi-${abi.id}`}>
+                  <TableCell className="font-medium">{abi.name}</TableCell>
+                  <TableCell>
+                    {abi.chain ? <ChainBadge chain={abi.chain} /> : <span className="text-muted-foreground">Any</span>}
+                  </TableCell>
+                  <TableCell>
+                    {abi.contractAddress
+                      ? <AddressDisplay address={abi.contractAddress} />
+                      : <span className="text-muted-foreground">Any contract</span>}
+                  </TableCell>
+                  <TableCell>
+                    {abi.abi.filter(entry => (entry.type ?? "function") === "function").length}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(abi.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-abi-${abi.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">No custom ABIs yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Rules() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isApplyAllOpen, setIsApplyAllOpen] = useState(false);
   const { toast } = useToast();
 
-  const { data: rules, isLoading } = useQuery<ClassificationRule[]>({
+  const { data: rules, isLoading } = useQuery<ClassificationRuleWithStats[]>({
     queryKey: ["/api/rules"],
   });
 
@@ -251,97 +709,188 @@ export default function Rules() {
             Create custom rules to automatically classify transactions
           </p>
         </div>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-rule">
-              <PlusCircle className="h-4 w-4 mr-2" />
-              Add Rule
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-lg">
-            <DialogHeader>
-              <DialogTitle>Create Classification Rule</DialogTitle>
-              <DialogDescription>
-                Define conditions to automatically classify matching transactions.
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Rule Name</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., Uniswap Swaps" 
-                          data-testid="input-rule-name"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description (optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="What this rule matches" 
-                          data-testid="input-rule-description"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div className="grid grid-cols-2 gap-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsApplyAllOpen(true)}
+            disabled={!rules || rules.length === 0}
+            data-testid="button-apply-all-rules"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Apply All Rules
+          </Button>
+          <ApplyRulesDialog open={isApplyAllOpen} onOpenChange={setIsApplyAllOpen} />
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-rule">
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Create Classification Rule</DialogTitle>
+                <DialogDescription>
+                  Define conditions to automatically classify matching transactions.
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                   <FormField
                     control={form.control}
-                    name="chain"
+                    name="name"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Chain (optional)</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-rule-chain">
-                              <SelectValue placeholder="Any chain" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {SUPPORTED_CHAINS.map((chain) => (
-                              <SelectItem key={chain} value={chain}>
-                                {chain.charAt(0).toUpperCase() + chain.slice(1)}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                        <FormLabel>Rule Name</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="e.g., Uniswap Swaps" 
+                            data-testid="input-rule-name"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="description"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Description (optional)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="What this rule matches" 
+                            data-testid="input-rule-description"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="chain"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Chain (optional)</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-rule-chain">
+                                <SelectValue placeholder="Any chain" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {SUPPORTED_CHAINS.map((chain) => (
+                                <SelectItem key={chain} value={chain}>
+                                  {chain.charAt(0).toUpperCase() + chain.slice(1)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="classification"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Classification</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-rule-classification">
+                                <SelectValue placeholder="Select type" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {CLASSIFICATION_TYPES.map((type) => (
+                                <SelectItem key={type} value={type}>
+                                  {type.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase())}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="contractAddress"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contract Address (optional)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="0x..." 
+                            className="font-mono"
+                            data-testid="input-rule-contract"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormDescription>Match transactions to this contract</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                   <FormField
                     control={form.control}
-                    name="classification"
+                    name="methodSignature"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Classification</FormLabel>
+                        <FormLabel>Method Signature (optional)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="e.g., swap, addLiquidity" 
+                            className="font-mono"
+                            data-testid="input-rule-method"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormDescription>Part of a method name, or a 4-byte selector like 0xa9059cbb</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="tokenPattern"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Token Pattern (optional)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="e.g., WETH, USDC" 
+                            data-testid="input-rule-token"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="direction"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Direction (optional)</FormLabel>
                         <Select onValueChange={field.onChange} defaultValue={field.value}>
                           <FormControl>
-                            <SelectTrigger data-testid="select-rule-classification">
-                              <SelectValue placeholder="Select type" />
+                            <SelectTrigger data-testid="select-rule-direction">
+                              <SelectValue placeholder="Any direction" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {CLASSIFICATION_TYPES.map((type) => (
-                              <SelectItem key={type} value={type}>
-                                {type.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase())}
+                            {RULE_DIRECTIONS.map((direction) => (
+                              <SelectItem key={direction} value={direction}>
+                                {DIRECTION_LABELS[direction]}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -350,92 +899,38 @@ export default function Rules() {
                       </FormItem>
                     )}
                   />
-                </div>
-                <FormField
-                  control={form.control}
-                  name="contractAddress"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Contract Address (optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="0x..." 
-                          className="font-mono"
-                          data-testid="input-rule-contract"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormDescription>Match transactions to this contract</FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="methodSignature"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Method Signature (optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., swap, addLiquidity" 
-                          className="font-mono"
-                          data-testid="input-rule-method"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="tokenPattern"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Token Pattern (optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="e.g., WETH, USDC" 
-                          data-testid="input-rule-token"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="priority"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Priority</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="number" 
-                          data-testid="input-rule-priority"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormDescription>Higher priority rules are applied first</FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <DialogFooter>
-                  <Button 
-                    type="submit" 
-                    disabled={addMutation.isPending}
-                    data-testid="button-submit-rule"
-                  >
-                    {addMutation.isPending ? "Creating..." : "Create Rule"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  <FormField
+                    control={form.control}
+                    name="priority"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Priority</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number" 
+                            data-testid="input-rule-priority"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormDescription>Higher priority rules are applied first</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <DialogFooter>
+                    <Button 
+                      type="submit" 
+                      disabled={addMutation.isPending}
+                      data-testid="button-submit-rule"
+                    >
+                      {addMutation.isPending ? "Creating..." : "Create Rule"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
@@ -460,6 +955,7 @@ export default function Rules() {
                   <TableHead className="w-[200px]">Conditions</TableHead>
                   <TableHead className="w-[140px]">Classification</TableHead>
                   <TableHead className="w-[80px]">Priority</TableHead>
+                  <TableHead className="w-[140px]">Matches</TableHead>
                   <TableHead className="w-[50px]"></TableHead>
                 </TableRow>
               </TableHeader>
@@ -486,6 +982,8 @@ export default function Rules() {
           )}
         </CardContent>
       </Card>
+
+      <ContractAbisCard />
     </div>
   );
 }
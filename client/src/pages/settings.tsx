@@ -4,6 +4,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { 
   MessageCircle, 
@@ -13,9 +25,26 @@ import {
   AlertCircle,
   Copy,
   ExternalLink,
-  Bell
+  Bell,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+  Calculator
 } from "lucide-react";
 import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatDistanceToNow } from "date-fns";
+import type { Settings as UserSettings, SyncRunSummary, TokenListEntry, TokenListType, UpdateSettingsResult } from "@shared/schema";
+import { SUPPORTED_CHAINS, LOT_METHODS, DEFAULT_DUST_THRESHOLD, updateSettingsSchema } from "@shared/schema";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 
 interface TelegramStatus {
   configured: boolean;
@@ -29,6 +58,507 @@ interface LinkResponse {
   instructions: string;
 }
 
+const LOT_METHOD_OPTIONS: { value: typeof LOT_METHODS[number]; label: string; description: string }[] = [
+  { value: "fifo", label: "FIFO", description: "First in, first out" },
+  { value: "lifo", label: "LIFO", description: "Last in, first out" },
+  { value: "hifo", label: "HIFO", description: "Highest cost first" },
+  { value: "specific_id", label: "Specific ID", description: "Choose lots per disposal" },
+];
+
+const TAX_YEARS = Array.from({ length: 6 }, (_, i) => String(new Date().getFullYear() - i));
+
+// The fields this card saves, validated as PATCH /api/settings will.
+// Base currency and country are shown but not editable, and the API does
+// not accept them: reports are in USD under US holding-period rules.
+const taxSettingsSchema = updateSettingsSchema
+  .pick({ taxYear: true, lotMethod: true, showSpam: true, showDust: true, dustThreshold: true })
+  .required();
+
+type TaxSettingsFormValues = z.input<typeof taxSettingsSchema>;
+type TaxSettingsChanges = z.output<typeof taxSettingsSchema>;
+
+const AUTO_SYNC_OPTIONS = [
+  { value: "off", label: "Off" },
+  { value: "60", label: "Every hour" },
+  { value: "360", label: "Every 6 hours" },
+  { value: "720", label: "Every 12 hours" },
+  { value: "1440", label: "Every day" },
+];
+
+function TaxSettingsCard() {
+  const { toast } = useToast();
+
+  const { data: userSettings, isLoading } = useQuery<Partial<UserSettings>>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Defaults match the settings table for users who never saved any
+  const form = useForm<TaxSettingsFormValues, unknown, TaxSettingsChanges>({
+    resolver: zodResolver(taxSettingsSchema),
+    values: {
+      taxYear: userSettings?.taxYear ?? 2024,
+      lotMethod: (userSettings?.lotMethod as TaxSettingsFormValues["lotMethod"]) ?? "fifo",
+      showSpam: userSettings?.showSpam ?? false,
+      showDust: userSettings?.showDust ?? true,
+      dustThreshold: userSettings?.dustThreshold ?? DEFAULT_DUST_THRESHOLD,
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TaxSettingsChanges): Promise<UpdateSettingsResult> => {
+      const response = await apiRequest("PATCH", "/api/settings", data);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      // Lots, reports and which transactions are listed may all have changed
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/reports"),
+      });
+      const updates = [
+        result.recalculated ? "cost basis and reports were recalculated" : null,
+        result.dustFlagsChanged !== null
+          ? `${result.dustFlagsChanged} transaction${result.dustFlagsChanged === 1 ? "" : "s"} changed dust status`
+          : null,
+      ].filter(Boolean).join("; ");
+      toast({
+        title: "Settings saved",
+        description: updates ? updates.charAt(0).toUpperCase() + updates.slice(1) + "." : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-tax-settings">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+            <Calculator className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Tax & Display</CardTitle>
+            <CardDescription>
+              How cost basis is calculated and which transactions are shown
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => saveMutation.mutate(data))} className="space-y-6">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="taxYear"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax year</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(parseInt(value, 10))} value={String(field.value)}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-settings-tax-year">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Array.from(new Set([...TAX_YEARS, String(field.value)])).sort().reverse().map((year) => (
+                            <SelectItem key={year} value={year}>{year}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Reports open on this year</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="lotMethod"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cost basis method</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-settings-lot-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LOT_METHOD_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label} - {option.description}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Changing it recalculates all lots and gains</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="space-y-2">
+                  <Label htmlFor="settings-base-currency">Base currency</Label>
+                  <Input
+                    id="settings-base-currency"
+                    value="USD"
+                    disabled
+                    data-testid="input-settings-base-currency"
+                  />
+                  <p className="text-sm text-muted-foreground">Reports are in USD for now</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settings-country">Country</Label>
+                  <Input
+                    id="settings-country"
+                    value="US"
+                    disabled
+                    data-testid="input-settings-country"
+                  />
+                  <p className="text-sm text-muted-foreground">Holding periods follow US rules for now</p>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="showSpam"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          data-testid="switch-show-spam"
+                        />
+                      </FormControl>
+                      <FormLabel>Show spam transactions</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="showDust"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-3 space-y-0">
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          data-testid="switch-show-dust"
+                        />
+                      </FormControl>
+                      <FormLabel>Show dust transactions</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dustThreshold"
+                  render={({ field }) => (
+                    <FormItem className="max-w-xs">
+                      <FormLabel>Dust threshold (USD)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" data-testid="input-settings-dust-threshold" {...field} />
+                      </FormControl>
+                      <FormDescription>Priced transactions worth less than this are dust</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <Button
+                type="submit"
+                disabled={saveMutation.isPending || !form.formState.isDirty}
+                data-testid="button-save-settings"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save Settings"}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AutoSyncCard() {
+  const { toast } = useToast();
+
+  const { data: userSettings, isLoading } = useQuery<Partial<UserSettings>>({
+    queryKey: ["/api/settings"],
+  });
+
+  const { data: runs } = useQuery<SyncRunSummary[]>({
+    queryKey: ["/api/sync-runs"],
+  });
+
+  const intervalMutation = useMutation({
+    mutationFn: async (minutes: number | null) => {
+      const response = await apiRequest("PATCH", "/api/settings", { autoSyncIntervalMinutes: minutes });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Auto-sync updated",
+        description: "Your active wallets will be synced on the new schedule.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update auto-sync. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = userSettings?.autoSyncIntervalMinutes
+    ? String(userSettings.autoSyncIntervalMinutes)
+    : "off";
+
+  return (
+    <Card data-testid="card-auto-sync-settings">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-primary/10">
+            <RefreshCw className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle>Automatic Sync</CardTitle>
+            <CardDescription>
+              Periodically sync all active wallets and get notified about new transactions
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-10 w-48" />
+        ) : (
+          <Select
+            value={AUTO_SYNC_OPTIONS.some(o => o.value === current) ? current : undefined}
+            onValueChange={(value) => intervalMutation.mutate(value === "off" ? null : parseInt(value, 10))}
+            disabled={intervalMutation.isPending}
+          >
+            <SelectTrigger className="w-48" data-testid="select-auto-sync-interval">
+              <SelectValue placeholder={`Every ${current} minutes`} />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_SYNC_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-medium text-sm">Recent runs</h4>
+          {!runs || runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scheduled syncs have run yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border text-sm">
+              {runs.slice(0, 5).map((run) => (
+                <li
+                  key={run.id}
+                  className="flex items-center justify-between gap-2 px-3 py-2"
+                  data-testid={`row-sync-run-${run.id}`}
+                >
+                  <span className="text-muted-foreground">
+                    {run.createdAt ? formatDistanceToNow(new Date(run.createdAt), { addSuffix: true }) : "N/A"}
+                    {" · "}
+                    {run.walletCount} wallet{run.walletCount === 1 ? "" : "s"}
+                  </span>
+                  <span className="flex items-center gap-2">
+                    {run.status === "completed" && (
+                      <span>{run.imported} imported, {run.needsReview} to review</span>
+                    )}
+                    <Badge
+                      variant={run.status === "failed" ? "destructive" : "outline"}
+                      className="capitalize"
+                    >
+                      {run.status === "failed" ? `${run.failed} failed` : run.status}
+                    </Badge>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SpamFilterCard() {
+  const { toast } = useToast();
+  const [list, setList] = useState<TokenListType>("deny");
+  const [token, setToken] = useState("");
+  const [chain, setChain] = useState("any");
+
+  const { data: entries } = useQuery<TokenListEntry[]>({
+    queryKey: ["/api/token-lists"],
+  });
+
+  const invalidateTransactions = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/token-lists", {
+        list,
+        token,
+        chain: chain === "any" ? null : chain,
+      });
+      return response.json() as Promise<TokenListEntry & { updated: number }>;
+    },
+    onSuccess: (data) => {
+      setToken("");
+      queryClient.invalidateQueries({ queryKey: ["/api/token-lists"] });
+      invalidateTransactions();
+      toast({
+        title: data.list === "allow" ? "Token allowed" : "Token denied",
+        description: `${data.updated} transaction${data.updated === 1 ? "" : "s"} updated.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add token. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/token-lists/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/token-lists"] });
+      invalidateTransactions();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove token. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-spam-settings">
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-md bg-red-500/10">
+            <ShieldAlert className="h-5 w-5 text-red-500" />
+          </div>
+          <div>
+            <CardTitle>Spam Filter</CardTitle>
+            <CardDescription>
+              Scam airdrops and address poisoning are hidden and left out of tax calculations
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Allowed tokens are never flagged; denied tokens always are. Enter a contract address, mint or symbol.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Select value={list} onValueChange={(value) => setList(value as TokenListType)}>
+              <SelectTrigger className="w-28" data-testid="select-token-list">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="deny">Deny</SelectItem>
+                <SelectItem value="allow">Allow</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="0x... or symbol"
+              className="flex-1 min-w-48 font-mono"
+              data-testid="input-token-list-token"
+            />
+            <Select value={chain} onValueChange={setChain}>
+              <SelectTrigger className="w-36" data-testid="select-token-list-chain">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any chain</SelectItem>
+                {SUPPORTED_CHAINS.map((c) => (
+                  <SelectItem key={c} value={c} className="capitalize">
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => addMutation.mutate()}
+              disabled={!token.trim() || addMutation.isPending}
+              data-testid="button-add-token-list-entry"
+            >
+              {addMutation.isPending ? "Adding..." : "Add"}
+            </Button>
+          </div>
+
+          {entries && entries.length > 0 && (
+            <ul className="space-y-2">
+              {entries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-center justify-between gap-2 text-sm"
+                  data-testid={`token-list-entry-${entry.id}`}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant={entry.list === "deny" ? "destructive" : "secondary"}>
+                      {entry.list === "deny" ? "Deny" : "Allow"}
+                    </Badge>
+                    <span className="font-mono truncate">{entry.token}</span>
+                    <span className="text-muted-foreground capitalize">{entry.chain ?? "any chain"}</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-token-list-entry-${entry.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Settings() {
   const { toast } = useToast();
   const [verificationCode, setVerificationCode] = useState<string | null>(null);
@@ -102,6 +632,8 @@ export default function Settings() {
         </p>
       </div>
 
+      <TaxSettingsCard />
+
       <Card data-testid="card-telegram-settings">
         <CardHeader>
           <div className="flex items-center gap-3">
@@ -235,6 +767,10 @@ export default function Settings() {
           )}
         </CardContent>
       </Card>
+
+      <AutoSyncCard />
+
+      <SpamFilterCard />
     </div>
   );
 }
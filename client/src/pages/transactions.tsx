@@ -1,8 +1,27 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Link, useSearch } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import {
   Select,
   SelectContent,
@@ -23,16 +42,26 @@ import { ClassificationBadge } from "@/components/classification-badge";
 import { AddressDisplay } from "@/components/address-display";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
 import { 
   Search,
   Filter,
   ArrowLeftRight,
   ExternalLink,
-  AlertCircle
+  AlertCircle,
+  X,
+  PlusCircle,
+  Upload,
+  Download,
+  ShieldAlert
 } from "lucide-react";
-import type { Transaction } from "@shared/schema";
-import { SUPPORTED_CHAINS, CLASSIFICATION_TYPES } from "@shared/schema";
+import type { Transaction, ClassificationRule, Wallet as WalletType, ManualImportResult, SpamReason } from "@shared/schema";
+import { isConfirmedSpam } from "@shared/schema";
+import { SUPPORTED_CHAINS, CLASSIFICATION_TYPES, MANUAL_IMPORT_COLUMNS } from "@shared/schema";
 import { format } from "date-fns";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 
 function formatCurrency(value: string | number | null): string {
   if (!value) return "-";
@@ -65,6 +94,14 @@ const explorerTxUrls: Record<string, string> = {
   bsc: "https://bscscan.com/tx/",
 };
 
+const spamReasonLabels: Record<SpamReason, string> = {
+  deny_list: "Token is on your deny list",
+  phishing_symbol: "Token name advertises a website",
+  address_poisoning: "Sent from a lookalike of an address you use",
+  zero_value_transfer: "Zero-value transfer you did not send",
+  unsolicited_no_liquidity: "Unsolicited token with no market price",
+};
+
 function TransactionRow({ tx }: { tx: Transaction }) {
   const explorerUrl = explorerTxUrls[tx.chain];
 
@@ -95,6 +132,25 @@ function TransactionRow({ tx }: { tx: Transaction }) {
             Review
           </Badge>
         )}
+        {tx.isSpam && (
+          <Badge
+            variant="outline"
+            className="ml-2 text-red-600 dark:text-red-400 border-red-500/30"
+            title={[
+              tx.spamReason ? spamReasonLabels[tx.spamReason] : null,
+              isConfirmedSpam(tx) ? null : "Still counted in tax reports until you add the token to your deny list",
+            ].filter(Boolean).join(". ")}
+            data-testid={`badge-spam-${tx.id}`}
+          >
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            Spam
+          </Badge>
+        )}
+        {tx.isDust && !tx.isSpam && (
+          <Badge variant="outline" className="ml-2 text-muted-foreground" data-testid={`badge-dust-${tx.id}`}>
+            Dust
+          </Badge>
+        )}
       </TableCell>
       <TableCell>
         <div className="space-y-1">
@@ -143,14 +199,407 @@ function TransactionRow({ tx }: { tx: Transaction }) {
   );
 }
 
+const manualEntrySchema = z.object({
+  walletId: z.string().min(1, "Please select a wallet"),
+  timestamp: z.string().min(1, "Date is required"),
+  classification: z.string().min(1, "Please select a type"),
+  tokenInAmount: z.string().optional(),
+  tokenInSymbol: z.string().optional(),
+  tokenOutAmount: z.string().optional(),
+  tokenOutSymbol: z.string().optional(),
+  valueUsd: z.string().optional(),
+  gasFeeUsd: z.string().optional(),
+  txHash: z.string().optional(),
+  methodName: z.string().optional(),
+}).refine((data) => !!data.tokenInAmount || !!data.tokenOutAmount, {
+  message: "Enter an amount received or sent",
+  path: ["tokenInAmount"],
+});
+
+type ManualEntryFormValues = z.infer<typeof manualEntrySchema>;
+
+// apiRequest errors read "<status>: <body>"; surface the server's message
+function requestErrorMessage(error: Error, fallback: string): string {
+  try {
+    const data = JSON.parse(error.message.replace(/^\d+: /, ""));
+    return data.details?.[0]?.message || data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function invalidateTransactionQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+}
+
+function ManualEntryDialog({
+  open,
+  onOpenChange,
+  wallets,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wallets: WalletType[];
+}) {
+  const { toast } = useToast();
+
+  const form = useForm<ManualEntryFormValues>({
+    resolver: zodResolver(manualEntrySchema),
+    defaultValues: {
+      walletId: "",
+      timestamp: "",
+      classification: "",
+      tokenInAmount: "",
+      tokenInSymbol: "",
+      tokenOutAmount: "",
+      tokenOutSymbol: "",
+      valueUsd: "",
+      gasFeeUsd: "",
+      txHash: "",
+      methodName: "",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ManualEntryFormValues) => {
+      // datetime-local has no zone; send the instant the user meant locally
+      return await apiRequest("POST", "/api/transactions", {
+        ...data,
+        timestamp: new Date(data.timestamp).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      invalidateTransactionQueries();
+      onOpenChange(false);
+      form.reset();
+      toast({
+        title: "Transaction added",
+        description: "The transaction has been added and cost basis updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: requestErrorMessage(error, "Failed to add transaction. Please check the details."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textField = (
+    name: keyof ManualEntryFormValues,
+    label: string,
+    placeholder: string,
+    className?: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              placeholder={placeholder}
+              className={className}
+              data-testid={`input-manual-${name}`}
+              {...field}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Transaction</DialogTitle>
+          <DialogDescription>
+            Record a transaction your wallets did not pick up, such as an OTC trade or an off-chain payment.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="walletId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Wallet</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-manual-wallet">
+                        <SelectValue placeholder="Select a wallet" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {wallets.map((wallet) => (
+                        <SelectItem key={wallet.id} value={wallet.id}>
+                          {wallet.label || wallet.address} ({wallet.chain})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="timestamp"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" data-testid="input-manual-timestamp" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="classification"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-manual-classification">
+                          <SelectValue placeholder="Select a type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CLASSIFICATION_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {type.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase())}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              {textField("tokenInAmount", "Amount received", "0.5", "font-mono")}
+              {textField("tokenInSymbol", "Token received", "ETH")}
+              {textField("tokenOutAmount", "Amount sent", "1500", "font-mono")}
+              {textField("tokenOutSymbol", "Token sent", "USDC")}
+              {textField("valueUsd", "Value (USD, optional)", "1500.00", "font-mono")}
+              {textField("gasFeeUsd", "Fee (USD, optional)", "2.50", "font-mono")}
+            </div>
+            {textField("txHash", "Reference / tx hash (optional)", "Generated when left blank", "font-mono")}
+            {textField("methodName", "Note (optional)", "OTC trade with ...")}
+            <DialogFooter>
+              <Button
+                type="submit"
+                disabled={createMutation.isPending}
+                data-testid="button-submit-manual-transaction"
+              >
+                {createMutation.isPending ? "Adding..." : "Add Transaction"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const PER_ROW_WALLET = "per_row";
+
+function BulkImportDialog({
+  open,
+  onOpenChange,
+  wallets,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wallets: WalletType[];
+}) {
+  const { toast } = useToast();
+  const [walletId, setWalletId] = useState<string>(PER_ROW_WALLET);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ManualImportResult | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setWalletId(PER_ROW_WALLET);
+    setFile(null);
+    setResult(null);
+  }, [open]);
+
+  const templateMutation = useMutation({
+    mutationFn: async (format: "csv" | "json") => {
+      const response = await apiRequest("GET", `/api/transactions/import-template?format=${format}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `transactions-template.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("No file selected");
+      const text = await file.text();
+      const isJson = file.name.toLowerCase().endsWith(".json");
+      let data: unknown = text;
+      if (isJson) {
+        try {
+          data = JSON.parse(text);
+        } catch {
+          throw new Error("The file is not valid JSON");
+        }
+      }
+      const response = await apiRequest("POST", "/api/transactions/import", {
+        data,
+        walletId: walletId === PER_ROW_WALLET ? undefined : walletId,
+      });
+      return response.json() as Promise<ManualImportResult>;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.imported > 0) invalidateTransactionQueries();
+      toast({
+        title: "Import complete",
+        description: `Imported ${data.imported} transactions.` +
+          (data.skipped > 0 ? ` ${data.skipped} already existed.` : "") +
+          (data.errors.length > 0 ? ` ${data.errors.length} rows had errors.` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: requestErrorMessage(error, error.message || "Failed to import transactions."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON file in the template format. Rows with a transaction hash you already have are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Template:</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => templateMutation.mutate("csv")}
+              data-testid="button-template-csv"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => templateMutation.mutate("json")}
+              data-testid="button-template-json"
+            >
+              <Download className="h-3 w-3 mr-1" />
+              JSON
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Columns: {MANUAL_IMPORT_COLUMNS.join(", ")}. A timestamp and an amount with its symbol are required;
+            rows without a classification are queued for review.
+          </p>
+          <div className="space-y-2">
+            <Label>Wallet</Label>
+            <Select value={walletId} onValueChange={setWalletId}>
+              <SelectTrigger data-testid="select-import-wallet">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PER_ROW_WALLET}>Use the walletId column</SelectItem>
+                {wallets.map((wallet) => (
+                  <SelectItem key={wallet.id} value={wallet.id}>
+                    {wallet.label || wallet.address} ({wallet.chain})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transactions-file">File</Label>
+            <Input
+              id="transactions-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setResult(null);
+              }}
+              data-testid="input-transactions-file"
+            />
+          </div>
+          {result && result.errors.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Rows not imported</h4>
+              <ul className="max-h-40 overflow-y-auto text-xs text-destructive space-y-1" data-testid="list-import-errors">
+                {result.errors.map((error, i) => (
+                  <li key={i}>Row {error.row}: {error.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!file || importMutation.isPending}
+            data-testid="button-submit-import"
+          >
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function Transactions() {
   const [searchQuery, setSearchQuery] = useState("");
   const [chainFilter, setChainFilter] = useState<string>("all");
   const [classificationFilter, setClassificationFilter] = useState<string>("all");
+  const [isManualDialogOpen, setIsManualDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+
+  const { data: wallets } = useQuery<WalletType[]>({
+    queryKey: ["/api/wallets"],
+  });
+
+  const ruleId = new URLSearchParams(useSearch()).get("ruleId");
+
+  const { data: rule } = useQuery<ClassificationRule>({
+    queryKey: [`/api/rules/${ruleId}`],
+    enabled: !!ruleId,
+  });
 
   const queryParams = new URLSearchParams();
   if (chainFilter !== "all") queryParams.set("chain", chainFilter);
   if (classificationFilter !== "all") queryParams.set("classification", classificationFilter);
+  if (ruleId) queryParams.set("ruleId", ruleId);
   const queryString = queryParams.toString();
   
   const { data: transactions, isLoading } = useQuery<Transaction[]>({
@@ -178,8 +627,46 @@ export default function Transactions() {
             View and manage all your cryptocurrency transactions
           </p>
         </div>
+        <div className="flex items-center gap-2">
+          {ruleId && (
+            <Badge variant="secondary" className="gap-1" data-testid="badge-rule-filter">
+              Classified by rule: {rule?.name ?? "..."}
+              <Link href="/transactions" aria-label="Clear rule filter">
+                <X className="h-3 w-3" />
+              </Link>
+            </Badge>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setIsImportDialogOpen(true)}
+            disabled={!wallets?.length}
+            data-testid="button-import-transactions"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button
+            onClick={() => setIsManualDialogOpen(true)}
+            disabled={!wallets?.length}
+            data-testid="button-add-transaction"
+          >
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Transaction
+          </Button>
+        </div>
       </div>
 
+      <ManualEntryDialog
+        open={isManualDialogOpen}
+        onOpenChange={setIsManualDialogOpen}
+        wallets={wallets ?? []}
+      />
+      <BulkImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        wallets={wallets ?? []}
+      />
+
       <Card>
         <CardHeader className="pb-4">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -265,9 +752,9 @@ export default function Transactions() {
               </div>
               <h3 className="text-lg font-semibold mb-1">No transactions found</h3>
               <p className="text-muted-foreground text-center max-w-sm">
-                {searchQuery || chainFilter !== "all" || classificationFilter !== "all"
+                {searchQuery || chainFilter !== "all" || classificationFilter !== "all" || ruleId
                   ? "Try adjusting your filters to see more results."
-                  : "Add a wallet to start importing transaction history."}
+                  : "Add a wallet to start importing transaction history, or add transactions manually."}
               </p>
             </div>
           )}
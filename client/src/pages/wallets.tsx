@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -31,6 +31,15 @@ import { ChainBadge } from "@/components/chain-badge";
 import { AddressDisplay } from "@/components/address-display";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { 
   PlusCircle, 
@@ -39,11 +48,13 @@ import {
   Trash2,
   RefreshCw,
   ArrowLeftRight,
-  CheckCircle2
+  CheckCircle2,
+  History,
+  Upload
 } from "lucide-react";
-import type { Wallet as WalletType } from "@shared/schema";
-import { SUPPORTED_CHAINS } from "@shared/schema";
-import { format } from "date-fns";
+import type { Wallet as WalletType, SyncJob, ExchangeImportPreview, ImportRowError } from "@shared/schema";
+import { SUPPORTED_CHAINS, SUPPORTED_EXCHANGES } from "@shared/schema";
+import { format, formatDistanceToNow } from "date-fns";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -65,7 +76,15 @@ const addWalletSchema = z.object({
 
 type AddWalletFormValues = z.infer<typeof addWalletSchema>;
 
-function WalletCard({ wallet }: { wallet: WalletType }) {
+const SYNC_STAGE_LABELS: Record<string, string> = {
+  fetching: "Fetching transfers",
+  importing: "Importing transactions",
+  pricing: "Pricing transactions",
+  cost_basis: "Updating cost basis",
+  done: "Done",
+};
+
+function WalletCard({ wallet, onImport }: { wallet: WalletType; onImport: () => void }) {
   const { toast } = useToast();
 
   const deleteMutation = useMutation({
@@ -88,23 +107,58 @@ function WalletCard({ wallet }: { wallet: WalletType }) {
     },
   });
 
-  const syncMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", `/api/wallets/${wallet.id}/sync`);
-      return response.json();
+  const [syncJobId, setSyncJobId] = useState<string | null>(null);
+
+  const { data: syncJob } = useQuery<SyncJob>({
+    queryKey: [`/api/sync-jobs/${syncJobId}`],
+    enabled: !!syncJobId,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 1000;
     },
-    onSuccess: (data: { status: string; imported: number; skipped: number; total: number }) => {
+  });
+
+  const isSyncing = !!syncJobId && syncJob?.status !== "completed" && syncJob?.status !== "failed";
+
+  useEffect(() => {
+    if (!syncJob || syncJob.id !== syncJobId) return;
+
+    if (syncJob.status === "completed" && syncJob.result) {
+      const data = syncJob.result;
+      setSyncJobId(null);
       queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      const fetched = `Fetched ${data.transfers} transfers across ${data.pages} page${data.pages === 1 ? "" : "s"}.`;
       toast({
-        title: "Sync complete",
-        description: data.imported > 0 
+        title: data.truncated ? "Sync incomplete" : "Sync complete",
+        description: (data.imported > 0 
           ? `Imported ${data.imported} new transactions.${data.skipped > 0 ? ` (${data.skipped} already existed)` : ''}`
           : data.total === 0 
             ? "No transactions found for this wallet."
-            : `All ${data.skipped} transactions already synced.`,
+            : `All ${data.skipped} transactions already synced.`) +
+          ` ${fetched}` +
+          (data.truncated ? " The page limit was reached, so some history may be missing. Sync again to continue." : ""),
       });
+    } else if (syncJob.status === "failed") {
+      setSyncJobId(null);
+      toast({
+        title: "Sync failed",
+        description: syncJob.error || "Failed to sync wallet. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [syncJob, syncJobId, toast]);
+
+  const syncMutation = useMutation({
+    mutationFn: async (options: { full?: boolean } = {}) => {
+      const response = await apiRequest("POST", `/api/wallets/${wallet.id}/sync`, options);
+      return response.json();
+    },
+    onSuccess: (job: SyncJob) => {
+      // Progress is reported by the job; the request only queues it
+      setSyncJobId(job.id);
     },
     onError: async (error: Error & { response?: Response }) => {
       let message = "Failed to sync wallet. Please try again.";
@@ -122,6 +176,9 @@ function WalletCard({ wallet }: { wallet: WalletType }) {
     },
   });
 
+  const syncDisabled = syncMutation.isPending || isSyncing;
+  const isExchange = wallet.walletType === "exchange";
+
   return (
     <Card className="hover-elevate">
       <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-3">
@@ -148,13 +205,33 @@ function WalletCard({ wallet }: { wallet: WalletType }) {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            <DropdownMenuItem 
-              onClick={() => syncMutation.mutate()}
-              disabled={syncMutation.isPending}
-            >
-              <RefreshCw className="h-4 w-4 mr-2" />
-              Sync Transactions
-            </DropdownMenuItem>
+            {isExchange ? (
+              <DropdownMenuItem 
+                onClick={onImport}
+                data-testid={`button-import-csv-${wallet.id}`}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </DropdownMenuItem>
+            ) : (
+              <>
+                <DropdownMenuItem 
+                  onClick={() => syncMutation.mutate({})}
+                  disabled={syncDisabled}
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Sync Transactions
+                </DropdownMenuItem>
+                <DropdownMenuItem 
+                  onClick={() => syncMutation.mutate({ full: true })}
+                  disabled={syncDisabled}
+                  data-testid={`button-full-resync-${wallet.id}`}
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  Full Resync
+                </DropdownMenuItem>
+              </>
+            )}
             <DropdownMenuItem 
               onClick={() => deleteMutation.mutate()}
               className="text-destructive"
@@ -168,11 +245,37 @@ function WalletCard({ wallet }: { wallet: WalletType }) {
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
-          <AddressDisplay address={wallet.address} chain={wallet.chain} />
+          {isExchange ? (
+            <p className="text-sm text-muted-foreground">Exchange account, updated from CSV exports</p>
+          ) : (
+            <AddressDisplay address={wallet.address} chain={wallet.chain} />
+          )}
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Added</span>
             <span>{wallet.createdAt ? format(new Date(wallet.createdAt), "MMM d, yyyy") : "N/A"}</span>
           </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">{isExchange ? "Last imported" : "Last synced"}</span>
+            <span className="text-right" data-testid={`text-last-synced-${wallet.id}`}>
+              {wallet.lastSyncedAt 
+                ? formatDistanceToNow(new Date(wallet.lastSyncedAt), { addSuffix: true })
+                : "Never"}
+              {wallet.lastSyncedBlock != null && (
+                <span className="block text-xs text-muted-foreground">
+                  Block {wallet.lastSyncedBlock.toLocaleString()}
+                </span>
+              )}
+            </span>
+          </div>
+          {isSyncing && (
+            <div className="space-y-1" data-testid={`sync-progress-${wallet.id}`}>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>{SYNC_STAGE_LABELS[syncJob?.stage ?? ""] ?? "Queued"}</span>
+                <span>{syncJob?.progress ?? 0}%</span>
+              </div>
+              <Progress value={syncJob?.progress ?? 0} className="h-1.5" />
+            </div>
+          )}
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">Status</span>
             <span className="flex items-center gap-1 text-green-600 dark:text-green-400">
@@ -186,8 +289,319 @@ function WalletCard({ wallet }: { wallet: WalletType }) {
   );
 }
 
+const EXCHANGE_LABELS: Record<string, string> = {
+  coinbase: "Coinbase",
+  kraken: "Kraken",
+  binance: "Binance",
+};
+
+const NEW_EXCHANGE_ACCOUNT = "new";
+
+// apiRequest errors read "<status>: <body>"; surface the server's message
+function importErrorMessage(error: Error, fallback: string): string {
+  try {
+    const data = JSON.parse(error.message.replace(/^\d+: /, ""));
+    return data.message || data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function ExchangeImportDialog({
+  open,
+  onOpenChange,
+  wallets,
+  walletId,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  wallets: WalletType[];
+  walletId: string | null;
+}) {
+  const { toast } = useToast();
+  const [exchange, setExchange] = useState<string>("auto");
+  const [accountId, setAccountId] = useState<string>(NEW_EXCHANGE_ACCOUNT);
+  const [label, setLabel] = useState("");
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ExchangeImportPreview | null>(null);
+
+  const exchangeWallets = wallets.filter(w => w.walletType === "exchange");
+
+  useEffect(() => {
+    if (!open) return;
+    const wallet = exchangeWallets.find(w => w.id === walletId);
+    setExchange(wallet ? wallet.chain : "auto");
+    setAccountId(wallet ? wallet.id : NEW_EXCHANGE_ACCOUNT);
+    setLabel("");
+    setCsv(null);
+    setFileName(null);
+    setPreview(null);
+  }, [open, walletId]);
+
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    if (!file) {
+      setCsv(null);
+      setFileName(null);
+      return;
+    }
+    setCsv(await file.text());
+    setFileName(file.name);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/exchange-imports/preview", { exchange, csv });
+      return response.json() as Promise<ExchangeImportPreview>;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error: Error) => {
+      toast({
+        title: "Preview failed",
+        description: importErrorMessage(error, "Could not read this export. Please check the file."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/exchange-imports", {
+        exchange: preview?.exchange ?? exchange,
+        csv,
+        walletId: accountId === NEW_EXCHANGE_ACCOUNT ? undefined : accountId,
+        label: accountId === NEW_EXCHANGE_ACCOUNT && label ? label : undefined,
+      });
+      return response.json() as Promise<{ imported: number; skipped: number; errors: ImportRowError[] }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wallets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      onOpenChange(false);
+      toast({
+        title: "Import complete",
+        description: `Imported ${data.imported} transactions.` +
+          (data.skipped > 0 ? ` ${data.skipped} were already imported.` : "") +
+          (data.errors.length > 0 ? ` ${data.errors.length} rows could not be read.` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: importErrorMessage(error, "Failed to import the export. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // An existing account fixes the exchange; otherwise offer accounts for the detected one
+  const selectedWallet = exchangeWallets.find(w => w.id === accountId);
+  const accountOptions = exchangeWallets.filter(w =>
+    preview ? w.chain === preview.exchange : exchange === "auto" || w.chain === exchange
+  );
+  const accountMismatch = !!selectedWallet && !!preview && selectedWallet.chain !== preview.exchange;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Exchange CSV</DialogTitle>
+          <DialogDescription>
+            Upload a transaction history export from Coinbase, Kraken or Binance. Rows already imported are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Exchange</Label>
+              <Select
+                value={exchange}
+                onValueChange={(value) => {
+                  setExchange(value);
+                  setPreview(null);
+                }}
+                disabled={!!selectedWallet}
+              >
+                <SelectTrigger data-testid="select-import-exchange">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect automatically</SelectItem>
+                  {SUPPORTED_EXCHANGES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {EXCHANGE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Account</Label>
+              <Select
+                value={accountId}
+                onValueChange={(value) => {
+                  setAccountId(value);
+                  const wallet = exchangeWallets.find(w => w.id === value);
+                  if (wallet) setExchange(wallet.chain);
+                }}
+              >
+                <SelectTrigger data-testid="select-import-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_EXCHANGE_ACCOUNT}>New exchange account</SelectItem>
+                  {accountOptions.map((wallet) => (
+                    <SelectItem key={wallet.id} value={wallet.id}>
+                      {wallet.label || wallet.address}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {accountId === NEW_EXCHANGE_ACCOUNT && (
+            <div className="space-y-2">
+              <Label htmlFor="import-label">Account label (optional)</Label>
+              <Input
+                id="import-label"
+                placeholder="Coinbase main"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                data-testid="input-import-label"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV export</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+            {fileName && <p className="text-xs text-muted-foreground">{fileName}</p>}
+          </div>
+
+          {preview && (
+            <div className="space-y-4" data-testid="import-preview">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <ChainBadge chain={preview.exchange} />
+                <Badge variant="outline">{preview.totalRows} rows</Badge>
+                <Badge variant="outline">{preview.validRows} transactions</Badge>
+                {preview.skippedRows > 0 && <Badge variant="outline">{preview.skippedRows} skipped</Badge>}
+                {preview.errors.length > 0 && (
+                  <Badge variant="destructive">{preview.errors.length} errors</Badge>
+                )}
+              </div>
+              {accountMismatch && (
+                <p className="text-sm text-destructive">
+                  This looks like a {EXCHANGE_LABELS[preview.exchange]} export, but the selected account is on {EXCHANGE_LABELS[selectedWallet!.chain]}.
+                </p>
+              )}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Column mapping</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>CSV column</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.columns.map((column) => (
+                      <TableRow key={column.field}>
+                        <TableCell className="font-mono text-xs">
+                          {column.field}{column.required && " *"}
+                        </TableCell>
+                        <TableCell className={column.column ? "text-xs" : "text-xs text-muted-foreground"}>
+                          {column.column ?? "Not found"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.rows.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">
+                    Sample rows{preview.validRows > preview.rows.length && ` (first ${preview.rows.length})`}
+                  </h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>In</TableHead>
+                        <TableHead>Out</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => (
+                        <TableRow key={row.txHash} data-testid={`import-row-${row.row}`}>
+                          <TableCell className="text-xs text-muted-foreground">{row.row}</TableCell>
+                          <TableCell className="text-xs">{format(new Date(row.timestamp), "MMM d, yyyy HH:mm")}</TableCell>
+                          <TableCell className="text-xs">{row.classification}</TableCell>
+                          <TableCell className="text-xs font-mono">
+                            {row.tokenInAmount ? `${row.tokenInAmount} ${row.tokenInSymbol}` : "-"}
+                          </TableCell>
+                          <TableCell className="text-xs font-mono">
+                            {row.tokenOutAmount ? `${row.tokenOutAmount} ${row.tokenOutSymbol}` : "-"}
+                          </TableCell>
+                          <TableCell className="text-xs text-right">
+                            {row.valueUsd ? `$${parseFloat(row.valueUsd).toLocaleString()}` : "-"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              {preview.errors.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">Rows that will not be imported</h4>
+                  <ul className="max-h-40 overflow-y-auto text-xs text-destructive space-y-1" data-testid="import-errors">
+                    {preview.errors.map((error, i) => (
+                      <li key={i}>
+                        {error.row > 0 ? `Row ${error.row}: ` : ""}{error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate()}
+            disabled={!csv || previewMutation.isPending}
+            data-testid="button-preview-import"
+          >
+            {previewMutation.isPending ? "Reading..." : "Preview"}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!preview || preview.validRows === 0 || accountMismatch || importMutation.isPending}
+            data-testid="button-submit-import"
+          >
+            {importMutation.isPending ? "Importing..." : `Import ${preview?.validRows ?? ""} Transactions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function Wallets() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [importWalletId, setImportWalletId] = useState<string | null>(null);
   const { toast } = useToast();
 
   const { data: wallets, isLoading } = useQuery<WalletType[]>({
@@ -230,6 +644,11 @@ export default function Wallets() {
     addMutation.mutate(data);
   };
 
+  const openImportDialog = (walletId: string | null) => {
+    setImportWalletId(walletId);
+    setIsImportDialogOpen(true);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -239,119 +658,132 @@ export default function Wallets() {
             Manage your connected wallet addresses
           </p>
         </div>
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-add-wallet">
-              <PlusCircle className="h-4 w-4 mr-2" />
-              Add Wallet
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Add Wallet</DialogTitle>
-              <DialogDescription>
-                Enter your wallet address to import transaction history. We use read-only connections only.
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="chain"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Blockchain</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => openImportDialog(null)} data-testid="button-import-exchange">
+            <Upload className="h-4 w-4 mr-2" />
+            Import Exchange CSV
+          </Button>
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-add-wallet">
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Add Wallet
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Add Wallet</DialogTitle>
+                <DialogDescription>
+                  Enter your wallet address to import transaction history. We use read-only connections only.
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="chain"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Blockchain</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-chain">
+                              <SelectValue placeholder="Select a blockchain" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {SUPPORTED_CHAINS.map((chain) => (
+                              <SelectItem key={chain} value={chain}>
+                                {chain.charAt(0).toUpperCase() + chain.slice(1)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Wallet Address</FormLabel>
                         <FormControl>
-                          <SelectTrigger data-testid="select-chain">
-                            <SelectValue placeholder="Select a blockchain" />
-                          </SelectTrigger>
+                          <Input 
+                            placeholder={form.watch("chain") === "bitcoin" ? "bc1... or xpub/ypub/zpub" : "0x..."} 
+                            className="font-mono"
+                            data-testid="input-wallet-address"
+                            {...field} 
+                          />
                         </FormControl>
-                        <SelectContent>
-                          {SUPPORTED_CHAINS.map((chain) => (
-                            <SelectItem key={chain} value={chain}>
-                              {chain.charAt(0).toUpperCase() + chain.slice(1)}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="address"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Wallet Address</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="0x..." 
-                          className="font-mono"
-                          data-testid="input-wallet-address"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="label"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Label (optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="My Main Wallet" 
-                          data-testid="input-wallet-label"
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="entityType"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Entity Type</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="label"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Label (optional)</FormLabel>
                         <FormControl>
-                          <SelectTrigger data-testid="select-entity-type">
-                            <SelectValue />
-                          </SelectTrigger>
+                          <Input 
+                            placeholder="My Main Wallet" 
+                            data-testid="input-wallet-label"
+                            {...field} 
+                          />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="personal">Personal</SelectItem>
-                          <SelectItem value="llc">LLC</SelectItem>
-                          <SelectItem value="dao">DAO</SelectItem>
-                          <SelectItem value="trust">Trust</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <DialogFooter>
-                  <Button 
-                    type="submit" 
-                    disabled={addMutation.isPending}
-                    data-testid="button-submit-wallet"
-                  >
-                    {addMutation.isPending ? "Adding..." : "Add Wallet"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="entityType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Entity Type</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-entity-type">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="personal">Personal</SelectItem>
+                            <SelectItem value="llc">LLC</SelectItem>
+                            <SelectItem value="dao">DAO</SelectItem>
+                            <SelectItem value="trust">Trust</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <DialogFooter>
+                    <Button 
+                      type="submit" 
+                      disabled={addMutation.isPending}
+                      data-testid="button-submit-wallet"
+                    >
+                      {addMutation.isPending ? "Adding..." : "Add Wallet"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <ExchangeImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        wallets={wallets ?? []}
+        walletId={importWalletId}
+      />
+
       {isLoading ? (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {[...Array(3)].map((_, i) => (
@@ -373,7 +805,7 @@ export default function Wallets() {
       ) : wallets && wallets.length > 0 ? (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {wallets.map((wallet) => (
-            <WalletCard key={wallet.id} wallet={wallet} />
+            <WalletCard key={wallet.id} wallet={wallet} onImport={() => openImportDialog(wallet.id)} />
           ))}
         </div>
       ) : (
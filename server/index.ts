@@ -42,6 +42,8 @@ app.use(cors({
 
 app.use(
   express.json({
+    // Exchange CSV exports are posted as JSON and can run to several MB
+    limit: "10mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -91,6 +93,23 @@ app.use((req, res, next) => {
   // Note: Seeding is disabled because data now requires userId
   // Users will create their own wallets after logging in
   
+  // Rows written under an older classification taxonomy are renamed or
+  // sent back to review before anything reads them, and cost basis is
+  // rebuilt for every user whose classifications changed
+  const { storage } = await import("./storage");
+  const { CLASSIFICATION_TAXONOMY_VERSION } = await import("../shared/schema");
+  try {
+    const migrated = await storage.migrateClassifications();
+    if (migrated.transactions > 0 || migrated.rules > 0) {
+      log(`migrated ${migrated.transactions} transactions and ${migrated.rules} rules to classification taxonomy v${CLASSIFICATION_TAXONOMY_VERSION}`);
+    }
+    for (const userId of migrated.userIds) {
+      await storage.recalculateCostBasis(userId);
+    }
+  } catch (error) {
+    console.error("Error migrating classifications:", error);
+  }
+
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
@@ -131,4 +150,8 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  const { startSyncWorker, startSyncScheduler } = await import("./services/sync");
+  await startSyncWorker((message) => log(message, "sync"));
+  startSyncScheduler((message) => log(message, "scheduler"));
 })();
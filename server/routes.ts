@@ -1,7 +1,20 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertWalletSchema, insertRuleSchema } from "../shared/schema";
+import { storage, type TransactionVisibility } from "./storage";
+import {
+  insertWalletSchema,
+  insertRuleSchema,
+  insertContractAbiSchema,
+  insertTokenListEntrySchema,
+  manualTransactionSchema,
+  classificationSchema,
+  normalizeClassification,
+  updateSettingsSchema,
+  CLASSIFICATION_TYPES,
+  DEFAULT_DUST_THRESHOLD,
+  SUPPORTED_EXCHANGES,
+  type UpdateSettingsResult,
+} from "../shared/schema";
 import { z } from "zod";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./auth";
 
@@ -22,11 +35,35 @@ export async function registerRoutes(
   // Helper to get userId from request
   const getUserId = (req: any): string => req.user?.claims?.sub;
 
+  // Spam stays out of transaction lists and counts unless the user opted
+  // in; dust is shown unless they opted out
+  const getVisibility = async (userId: string): Promise<TransactionVisibility> => {
+    const userSettings = await storage.getSettings(userId);
+    return {
+      includeSpam: userSettings?.showSpam ?? false,
+      includeDust: userSettings?.showDust ?? true,
+    };
+  };
+
+  // Only self-transfers and bridges stay linked to their other side
+  const keepsTransferLink = (classification: string) =>
+    classification === "self_transfer" || classification === "bridge";
+
+  // After reclassifying: new self-transfers and bridges are linked to their
+  // other side before cost basis is rebuilt, so their lots move with them
+  const linkAndRecalculate = async (userId: string, classifications: string[]) => {
+    if (classifications.some(keepsTransferLink)) {
+      const { linkSelfTransfers } = await import("./services/selfTransfers");
+      await linkSelfTransfers(userId);
+    }
+    await storage.recalculateCostBasis(userId);
+  };
+
   // Dashboard stats
   app.get("/api/dashboard/stats", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const stats = await storage.getDashboardStats(userId);
+      const stats = await storage.getDashboardStats(userId, await getVisibility(userId));
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -96,82 +133,147 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Wallet not found" });
       }
 
-      const { fetchTransactions, isAlchemyConfigured, ALCHEMY_SUPPORTED_CHAINS } = await import("./services/alchemy");
-      
-      if (!isAlchemyConfigured()) {
-        return res.status(400).json({ 
-          error: "Blockchain API not configured",
-          message: "Add ALCHEMY_API_KEY to your secrets to sync real transaction data."
-        });
+      const { getSyncUnavailableReason, enqueueWalletSync } = await import("./services/sync");
+
+      const unavailable = getSyncUnavailableReason(wallet);
+      if (unavailable) {
+        return res.status(400).json(unavailable);
       }
 
-      if (!ALCHEMY_SUPPORTED_CHAINS.includes(wallet.chain)) {
-        return res.status(400).json({ 
-          error: "Chain not supported",
-          message: `${wallet.chain} is not yet supported for automatic sync. Supported chains: ${ALCHEMY_SUPPORTED_CHAINS.join(", ")}`
-        });
+      const options = z.object({
+        maxPages: z.coerce.number().int().positive().optional(),
+        full: z.boolean().optional(),
+      }).parse(req.body ?? {});
+
+      // The worker picks the job up; clients poll /api/sync-jobs/:id
+      const job = await enqueueWalletSync(wallet, options);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error syncing wallet:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sync options", details: error.errors });
       }
+      res.status(500).json({ error: "Failed to sync wallet" });
+    }
+  });
 
-      const result = await fetchTransactions(wallet.address, wallet.chain, walletId);
-      
-      if (result.error) {
-        return res.status(400).json({ error: result.error });
+  // Exchange CSV imports
+  const exchangeImportSchema = z.object({
+    exchange: z.enum([...SUPPORTED_EXCHANGES, "auto"]).default("auto"),
+    csv: z.string().min(1),
+  });
+
+  async function parseExchangeImport(body: unknown) {
+    const { exchange, csv } = exchangeImportSchema.parse(body);
+    const { detectExchange, parseExchangeCsv } = await import("./services/exchangeCsv");
+    const detected = exchange === "auto" ? detectExchange(csv) : exchange;
+    return detected ? parseExchangeCsv(csv, detected) : null;
+  }
+
+  app.post("/api/exchange-imports/preview", isAuthenticated, async (req, res) => {
+    try {
+      const result = await parseExchangeImport(req.body);
+      if (!result) {
+        return res.status(400).json({ error: "Unrecognized export", message: `Supported exchanges: ${SUPPORTED_EXCHANGES.join(", ")}` });
+      }
+      const { toImportPreview } = await import("./services/exchangeCsv");
+      res.json(toImportPreview(result));
+    } catch (error) {
+      console.error("Error previewing exchange import:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import data", details: error.errors });
       }
+      res.status(500).json({ error: "Failed to preview exchange import" });
+    }
+  });
 
-      let imported = 0;
-      let skipped = 0;
-      const needsReviewTxs: any[] = [];
-      
-      for (const tx of result.transactions) {
-        const existing = await storage.getTransactionByHash(tx.txHash, userId);
-        if (!existing) {
-          const created = await storage.createTransaction(tx);
-          imported++;
-          if (created.needsReview) {
-            needsReviewTxs.push(created);
-          }
-        } else {
-          skipped++;
-        }
+  app.post("/api/exchange-imports", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { walletId, label } = z.object({
+        walletId: z.string().optional(),
+        label: z.string().trim().max(100).optional(),
+      }).parse(req.body);
+
+      const result = await parseExchangeImport(req.body);
+      if (!result) {
+        return res.status(400).json({ error: "Unrecognized export", message: `Supported exchanges: ${SUPPORTED_EXCHANGES.join(", ")}` });
+      }
+      if (result.transactions.length === 0) {
+        return res.status(400).json({ error: "Nothing to import", errors: result.errors });
       }
 
-      // Send Telegram notifications for new transactions needing review
-      if (needsReviewTxs.length > 0) {
-        try {
-          const { sendTransactionReviewNotification, isTelegramConfigured } = await import("./services/telegram");
-          if (isTelegramConfigured()) {
-            const telegramLink = await storage.getTelegramLink(userId);
-            if (telegramLink && telegramLink.isVerified && telegramLink.notifyOnReview) {
-              // Send notifications for up to 3 transactions to avoid spam
-              const toNotify = needsReviewTxs.slice(0, 3);
-              for (const tx of toNotify) {
-                await sendTransactionReviewNotification(telegramLink.telegramChatId, tx);
-              }
-              if (needsReviewTxs.length > 3) {
-                const { sendMessage } = await import("./services/telegram");
-                await sendMessage(
-                  telegramLink.telegramChatId, 
-                  `...and ${needsReviewTxs.length - 3} more transactions need review. Check the app for the full list.`
-                );
-              }
-            }
-          }
-        } catch (err) {
-          console.error("Error sending Telegram notifications:", err);
-        }
+      let wallet = walletId ? await storage.getWallet(walletId, userId) : undefined;
+      if (walletId && !wallet) {
+        return res.status(404).json({ error: "Wallet not found" });
+      }
+      if (wallet && (wallet.walletType !== "exchange" || wallet.chain !== result.exchange)) {
+        return res.status(400).json({ error: `Wallet is not a ${result.exchange} account` });
+      }
+      if (!wallet) {
+        const name = result.exchange.charAt(0).toUpperCase() + result.exchange.slice(1);
+        wallet = await storage.createWallet({
+          userId,
+          address: `${result.exchange}:${(label || "account").toLowerCase()}`,
+          chain: result.exchange,
+          walletType: "exchange",
+          label: label || `${name} account`,
+          entityType: "personal",
+        });
       }
 
-      res.json({ 
-        status: "sync_complete", 
-        walletId,
-        imported,
-        skipped,
-        total: result.transactions.length,
-        needsReview: needsReviewTxs.length
-      });
+      const { importExchangeTransactions } = await import("./services/exchangeImport");
+      const { imported, skipped } = await importExchangeTransactions(
+        wallet,
+        result.transactions.map(t => t.transaction)
+      );
+      await storage.updateWalletSyncState(wallet.id, { lastSyncedAt: new Date() });
+
+      res.json({ wallet, imported, skipped, errors: result.errors });
     } catch (error) {
-      console.error("Error syncing wallet:", error);
-      res.status(500).json({ error: "Failed to sync wallet" });
+      console.error("Error importing exchange export:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to import exchange export" });
+    }
+  });
+
+  // Sync jobs
+  app.get("/api/sync-jobs", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const walletId = req.query.walletId as string | undefined;
+      const jobs = await storage.getSyncJobs(userId, walletId);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching sync jobs:", error);
+      res.status(500).json({ error: "Failed to fetch sync jobs" });
+    }
+  });
+
+  app.get("/api/sync-runs", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const runs = await storage.getSyncRuns(userId);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching sync runs:", error);
+      res.status(500).json({ error: "Failed to fetch sync runs" });
+    }
+  });
+
+  app.get("/api/sync-jobs/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const job = await storage.getSyncJob(req.params.id as string, userId);
+      if (!job) {
+        return res.status(404).json({ error: "Sync job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching sync job:", error);
+      res.status(500).json({ error: "Failed to fetch sync job" });
     }
   });
 
@@ -184,7 +286,10 @@ export async function registerRoutes(
         chain?: string;
         classification?: string;
         needsReview?: boolean;
-      } = { userId };
+        ruleId?: string;
+        includeSpam?: boolean;
+        includeDust?: boolean;
+      } = { userId, ...(await getVisibility(userId)) };
 
       if (req.query.chain && req.query.chain !== "all") {
         filters.chain = req.query.chain as string;
@@ -195,6 +300,9 @@ export async function registerRoutes(
       if (req.query.needsReview === "true") {
         filters.needsReview = true;
       }
+      if (req.query.ruleId) {
+        filters.ruleId = req.query.ruleId as string;
+      }
 
       const transactions = await storage.getTransactions(filters);
       res.json(transactions);
@@ -204,6 +312,71 @@ export async function registerRoutes(
     }
   });
 
+  // Manual entry; txHash dedupe applies as for synced transactions
+  app.post("/api/transactions", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const transaction = manualTransactionSchema.parse(req.body);
+      if (!(await storage.getWallet(transaction.walletId, userId))) {
+        return res.status(404).json({ error: "Wallet not found" });
+      }
+
+      const { createManualTransactions } = await import("./services/manualImport");
+      const { created } = await createManualTransactions(userId, [{ row: 1, transaction }]);
+      if (created.length === 0) {
+        return res.status(409).json({ error: "A transaction with this hash already exists" });
+      }
+      // Re-read so prices filled in after creation are included
+      res.status(201).json(await storage.getTransaction(created[0].id, userId) ?? created[0]);
+    } catch (error) {
+      console.error("Error creating transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid transaction data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create transaction" });
+    }
+  });
+
+  app.get("/api/transactions/import-template", isAuthenticated, async (req, res) => {
+    try {
+      const format = req.query.format === "json" ? "json" : "csv";
+      const { getImportTemplate } = await import("./services/manualImport");
+      res.setHeader("Content-Type", format === "json" ? "application/json" : "text/csv");
+      res.setHeader("Content-Disposition", `attachment; filename="transactions-template.${format}"`);
+      res.send(getImportTemplate(format));
+    } catch (error) {
+      console.error("Error generating import template:", error);
+      res.status(500).json({ error: "Failed to generate import template" });
+    }
+  });
+
+  app.post("/api/transactions/import", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { data, walletId } = z.object({
+        // CSV text, or an array of objects for JSON
+        data: z.union([z.string().min(1), z.array(z.record(z.unknown())).min(1)]),
+        walletId: z.string().optional(),
+      }).parse(req.body);
+
+      const { parseManualImport, createManualTransactions } = await import("./services/manualImport");
+      const { rows, errors } = parseManualImport(data, walletId);
+      const result = await createManualTransactions(userId, rows);
+
+      res.json({
+        imported: result.imported,
+        skipped: result.skipped,
+        errors: [...errors, ...result.errors].sort((a, b) => a.row - b.row),
+      });
+    } catch (error) {
+      console.error("Error importing transactions:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to import transactions" });
+    }
+  });
+
   app.get("/api/transactions/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -211,7 +384,8 @@ export async function registerRoutes(
       if (!transaction) {
         return res.status(404).json({ error: "Transaction not found" });
       }
-      res.json(transaction);
+      const movements = await storage.getTransactionMovements(userId, [transaction.id]);
+      res.json({ ...transaction, movements });
     } catch (error) {
       console.error("Error fetching transaction:", error);
       res.status(500).json({ error: "Failed to fetch transaction" });
@@ -221,26 +395,101 @@ export async function registerRoutes(
   app.patch("/api/transactions/:id/classify", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const { classification } = req.body;
-      if (!classification) {
-        return res.status(400).json({ error: "Classification is required" });
-      }
+      const { classification } = z.object({ classification: classificationSchema }).parse(req.body);
       const transaction = await storage.classifyTransaction(req.params.id as string, classification, userId);
       if (!transaction) {
         return res.status(404).json({ error: "Transaction not found" });
       }
+      await linkAndRecalculate(userId, [classification]);
       res.json(transaction);
     } catch (error) {
       console.error("Error classifying transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid classification", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to classify transaction" });
     }
   });
 
+  // Specific ID lot selection
+  app.get("/api/tax-lots", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const lots = await storage.getUserTaxLots(userId, req.query.token as string | undefined);
+      res.json(lots);
+    } catch (error) {
+      console.error("Error fetching tax lots:", error);
+      res.status(500).json({ error: "Failed to fetch tax lots" });
+    }
+  });
+
+  app.get("/api/transactions/:id/lot-designations", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const transaction = await storage.getTransaction(req.params.id as string, userId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      const designations = await storage.getLotDesignations(transaction.id, userId);
+      res.json(designations);
+    } catch (error) {
+      console.error("Error fetching lot designations:", error);
+      res.status(500).json({ error: "Failed to fetch lot designations" });
+    }
+  });
+
+  app.put("/api/transactions/:id/lot-designations", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const transaction = await storage.getTransaction(req.params.id as string, userId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      const { designations } = z.object({
+        designations: z.array(z.object({
+          taxLotId: z.string(),
+          amount: z.coerce.number().positive(),
+        })),
+      }).parse(req.body);
+
+      const disposedToken = (transaction.tokenOut || transaction.tokenOutSymbol || "").toLowerCase();
+      const resolved = [];
+      for (const d of designations) {
+        const lot = await storage.getTaxLot(d.taxLotId, userId);
+        if (!lot || !lot.transactionId) {
+          return res.status(400).json({ error: `Tax lot ${d.taxLotId} not found` });
+        }
+        // Lots are relieved from the disposing wallet's own pool
+        if (lot.walletId !== transaction.walletId) {
+          return res.status(400).json({ error: `Tax lot ${d.taxLotId} is held in a different wallet` });
+        }
+        if (lot.token !== disposedToken) {
+          return res.status(400).json({ error: `Tax lot ${d.taxLotId} is not for ${transaction.tokenOutSymbol || disposedToken}` });
+        }
+        if (new Date(lot.acquiredAt) > new Date(transaction.timestamp)) {
+          return res.status(400).json({ error: `Tax lot ${d.taxLotId} was acquired after this disposal` });
+        }
+        resolved.push({ lotTransactionId: lot.transactionId, amount: d.amount.toString() });
+      }
+
+      const saved = await storage.replaceLotDesignations(transaction.id, userId, resolved);
+      await storage.recalculateCostBasis(userId);
+      res.json(saved);
+    } catch (error) {
+      console.error("Error saving lot designations:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid lot designations", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save lot designations" });
+    }
+  });
+
   // Classification Rules
   app.get("/api/rules", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const rules = await storage.getRules(userId);
+      const rules = await storage.getRulesWithStats(userId);
       res.json(rules);
     } catch (error) {
       console.error("Error fetching rules:", error);
@@ -248,6 +497,99 @@ export async function registerRoutes(
     }
   });
 
+  const applyRulesSchema = z.object({
+    dryRun: z.boolean().optional().default(false),
+    includeUserClassified: z.boolean().optional().default(false),
+  });
+
+  // Shared by apply and apply-all: preview or commit rule reclassification
+  // Runs all of the user's rules, or with ruleId only where that rule is
+  // the highest-priority match
+  const runRuleApplication = async (
+    userId: string,
+    options: z.infer<typeof applyRulesSchema>,
+    ruleId?: string
+  ) => {
+    const { planRuleApplication } = await import("./services/rules");
+    const rules = await storage.getRules(userId);
+    const userTransactions = await storage.getTransactions({ userId });
+    const { changes, matches } = planRuleApplication(rules, userTransactions, { ...options, ruleId });
+
+    if (!options.dryRun) {
+      // Classification is unchanged, so cost basis is too
+      for (const match of matches) {
+        await storage.updateTransaction(match.transactionId, {
+          classificationRuleId: match.ruleId,
+          ruleMatchedAt: new Date(),
+        });
+      }
+    }
+
+    if (!options.dryRun && changes.length > 0) {
+      const byId = new Map(userTransactions.map(tx => [tx.id, tx] as const));
+      for (const change of changes) {
+        // Anything but a self-transfer or bridge breaks the link on both sides
+        const linkedId = byId.get(change.transactionId)?.linkedTransactionId;
+        const breaksLink = !!linkedId && !keepsTransferLink(change.toClassification);
+        if (breaksLink) {
+          await storage.updateTransaction(linkedId, { linkedTransactionId: null });
+        }
+        await storage.updateTransaction(change.transactionId, {
+          classification: change.toClassification,
+          classificationConfidence: "1.0",
+          classificationRuleId: change.ruleId,
+          ruleMatchedAt: new Date(),
+          needsReview: false,
+          userClassified: false,
+          ...(breaksLink ? { linkedTransactionId: null } : {}),
+        });
+      }
+      await linkAndRecalculate(userId, changes.map(change => change.toClassification));
+    }
+
+    return {
+      dryRun: options.dryRun,
+      affected: changes.length,
+      matched: matches.length,
+      changes,
+    };
+  };
+
+  app.post("/api/rules/apply-all", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const options = applyRulesSchema.parse(req.body ?? {});
+      res.json(await runRuleApplication(userId, options));
+    } catch (error) {
+      console.error("Error applying rules:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to apply rules" });
+    }
+  });
+
+  app.post("/api/rules/:id/apply", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const options = applyRulesSchema.parse(req.body ?? {});
+      const rule = await storage.getRule(req.params.id as string, userId);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      if (rule.isActive === false) {
+        return res.status(400).json({ error: "Rule is inactive", message: "Enable the rule before applying it." });
+      }
+      res.json(await runRuleApplication(userId, options, rule.id));
+    } catch (error) {
+      console.error("Error applying rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to apply rule" });
+    }
+  });
+
   app.get("/api/rules/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -280,13 +622,17 @@ export async function registerRoutes(
   app.patch("/api/rules/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const rule = await storage.updateRule(req.params.id as string, req.body, userId);
+      const data = insertRuleSchema.omit({ userId: true }).partial().parse(req.body);
+      const rule = await storage.updateRule(req.params.id as string, data, userId);
       if (!rule) {
         return res.status(404).json({ error: "Rule not found" });
       }
       res.json(rule);
     } catch (error) {
       console.error("Error updating rule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid rule data", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update rule" });
     }
   });
@@ -302,6 +648,139 @@ export async function registerRoutes(
     }
   });
 
+  // Contract ABIs - decode calls to custom contracts
+  app.get("/api/contract-abis", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const abis = await storage.getContractAbis(userId);
+      res.json(abis);
+    } catch (error) {
+      console.error("Error fetching contract ABIs:", error);
+      res.status(500).json({ error: "Failed to fetch contract ABIs" });
+    }
+  });
+
+  app.post("/api/contract-abis", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = insertContractAbiSchema.omit({ userId: true }).parse(req.body);
+      const abi = await storage.createContractAbi({ ...parsed, userId });
+
+      // Transactions already imported may now decode
+      const { redecodeTransactionMethods } = await import("./services/methods");
+      const redecoded = await redecodeTransactionMethods(userId);
+      res.status(201).json({ ...abi, redecoded });
+    } catch (error) {
+      console.error("Error creating contract ABI:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid ABI", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create contract ABI" });
+    }
+  });
+
+  app.delete("/api/contract-abis/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const deleted = await storage.deleteContractAbi(req.params.id as string, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Contract ABI not found" });
+      }
+
+      const { redecodeTransactionMethods } = await import("./services/methods");
+      await redecodeTransactionMethods(userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting contract ABI:", error);
+      res.status(500).json({ error: "Failed to delete contract ABI" });
+    }
+  });
+
+  // Token allow/deny lists for spam detection
+  app.get("/api/token-lists", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const entries = await storage.getTokenListEntries(userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching token lists:", error);
+      res.status(500).json({ error: "Failed to fetch token lists" });
+    }
+  });
+
+  app.post("/api/token-lists", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = insertTokenListEntrySchema.omit({ userId: true }).parse(req.body);
+      const entry = await storage.createTokenListEntry({ ...parsed, userId });
+
+      const { refreshSpamFlags } = await import("./services/spam");
+      const updated = await refreshSpamFlags(userId);
+      if (updated > 0) {
+        await storage.recalculateCostBasis(userId);
+      }
+      res.status(201).json({ ...entry, updated });
+    } catch (error) {
+      console.error("Error creating token list entry:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid token list entry", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create token list entry" });
+    }
+  });
+
+  app.delete("/api/token-lists/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const deleted = await storage.deleteTokenListEntry(req.params.id as string, userId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Token list entry not found" });
+      }
+
+      // Transactions the entry was deciding for are judged again
+      const { refreshSpamFlags } = await import("./services/spam");
+      const updated = await refreshSpamFlags(userId);
+      if (updated > 0) {
+        await storage.recalculateCostBasis(userId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting token list entry:", error);
+      res.status(500).json({ error: "Failed to delete token list entry" });
+    }
+  });
+
+  // Prices
+  app.post("/api/prices/backfill", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const { walletId, force } = z.object({
+        walletId: z.string().optional(),
+        force: z.boolean().optional(),
+      }).parse(req.body ?? {});
+
+      if (walletId && !(await storage.getWallet(walletId, userId))) {
+        return res.status(404).json({ error: "Wallet not found" });
+      }
+
+      const { backfillPrices } = await import("./services/pricing");
+      const { refreshSpamFlags } = await import("./services/spam");
+      const result = await backfillPrices(userId, { walletId, force });
+      // Whether an unsolicited token has a market decides if it is spam
+      const spam = await refreshSpamFlags(userId);
+      if (result.priced > 0 || spam > 0) {
+        await storage.recalculateCostBasis(userId);
+      }
+      res.json({ ...result, spam });
+    } catch (error) {
+      console.error("Error backfilling prices:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid backfill request", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to backfill prices" });
+    }
+  });
+
   // Reports
   app.get("/api/reports/summary", isAuthenticated, async (req, res) => {
     try {
@@ -315,6 +794,29 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/reports/lot-methods", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      const comparison = await storage.compareLotMethods(year, userId);
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error comparing lot methods:", error);
+      res.status(500).json({ error: "Failed to compare lot methods" });
+    }
+  });
+
+  app.post("/api/reports/recalculate", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const result = await storage.recalculateCostBasis(userId);
+      res.json(result);
+    } catch (error) {
+      console.error("Error recalculating cost basis:", error);
+      res.status(500).json({ error: "Failed to recalculate cost basis" });
+    }
+  });
+
   app.get("/api/reports/:reportId", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -331,7 +833,7 @@ export async function registerRoutes(
         case "form8949":
           csvContent = "Description,Date Acquired,Date Sold,Proceeds,Cost Basis,Gain or Loss\n";
           for (const d of summary.disposals) {
-            csvContent += `"${d.tokenSymbol}",` +
+            csvContent += `"${d.tokenSymbol}${d.isFee ? " (fee)" : ""}",` +
               `"${new Date(d.disposedAt).toISOString().split('T')[0]}",` +
               `"${new Date(d.disposedAt).toISOString().split('T')[0]}",` +
               `${d.proceedsUsd},` +
@@ -348,8 +850,11 @@ export async function registerRoutes(
           break;
 
         case "income":
-          csvContent = "Type,Amount USD\n";
-          csvContent += `"Total Income",${summary.totalIncome}\n`;
+          csvContent = "Type,Token,Amount,Amount USD\n";
+          for (const row of summary.incomeByToken) {
+            csvContent += `"${row.classification}","${row.tokenSymbol}",${row.amount},${row.valueUsd}\n`;
+          }
+          csvContent += `"Total Income",,,${summary.totalIncome}\n`;
           filename = `income-report-${year}.csv`;
           break;
 
@@ -383,10 +888,28 @@ export async function registerRoutes(
   app.patch("/api/settings", isAuthenticated, async (req, res) => {
     try {
       const userId = getUserId(req);
-      const settings = await storage.updateSettings(userId, req.body);
-      res.json(settings);
+      const changes = updateSettingsSchema.parse(req.body);
+      const before = await storage.getSettings(userId);
+      const settings = await storage.updateSettings(userId, changes);
+
+      // Rebuild only what the change affects: lots and disposals follow the
+      // lot method, dust flags follow the threshold
+      const recalculated = changes.lotMethod !== undefined && changes.lotMethod !== (before?.lotMethod ?? "fifo");
+      if (recalculated) {
+        await storage.recalculateCostBasis(userId);
+      }
+      let dustFlagsChanged: number | null = null;
+      if (changes.dustThreshold !== undefined &&
+          parseFloat(changes.dustThreshold) !== parseFloat(before?.dustThreshold ?? DEFAULT_DUST_THRESHOLD)) {
+        dustFlagsChanged = await storage.refreshDustFlags(userId);
+      }
+      const result: UpdateSettingsResult = { ...settings, recalculated, dustFlagsChanged };
+      res.json(result);
     } catch (error) {
       console.error("Error updating settings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid settings", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to update settings" });
     }
   });
@@ -503,13 +1026,17 @@ export async function registerRoutes(
       if (parsed.type === "classification" && parsed.classification) {
         const link = await storage.getTelegramLinkByChatId(parsed.chatId);
         if (link && link.isVerified) {
-          if (parsed.transactionId) {
-            const tx = await storage.classifyTransaction(parsed.transactionId, parsed.classification, link.userId);
+          const classification = normalizeClassification(parsed.classification);
+          if (!classification) {
+            await sendMessage(parsed.chatId, `Unknown classification "${parsed.classification}". Try one of: ${CLASSIFICATION_TYPES.join(", ")}`);
+          } else if (parsed.transactionId) {
+            const tx = await storage.classifyTransaction(parsed.transactionId, classification, link.userId);
             if (tx) {
+              await linkAndRecalculate(link.userId, [classification]);
               if (parsed.callbackQueryId) {
-                await answerCallbackQuery(parsed.callbackQueryId, `Classified as ${parsed.classification}`);
+                await answerCallbackQuery(parsed.callbackQueryId, `Classified as ${classification}`);
               }
-              await sendMessage(parsed.chatId, `Transaction classified as <b>${parsed.classification}</b>`, { parseMode: "HTML" });
+              await sendMessage(parsed.chatId, `Transaction classified as <b>${classification}</b>`, { parseMode: "HTML" });
             } else {
               await sendMessage(parsed.chatId, "Transaction not found or you don't have permission to classify it.");
             }
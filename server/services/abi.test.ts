@@ -0,0 +1,166 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeArguments, keccak256, parseSignature, signaturesFromAbi } from "./abi";
+
+const word = (hex: string) => hex.replace(/^0x/, "").padStart(64, "0");
+const rightPadded = (hex: string) => hex.replace(/^0x/, "").padEnd(64, "0");
+
+const WETH = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const RECIPIENT = "0x00000000000000000000000000000000000a11ce";
+
+describe("keccak256", () => {
+  // Ethereum Keccak-256 (original padding, not NIST SHA3-256)
+  test("known digests", () => {
+    assert.equal(keccak256("").toString("hex"), "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470");
+    assert.equal(keccak256("abc").toString("hex"), "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45");
+    assert.equal(
+      keccak256("The quick brown fox jumps over the lazy dog").toString("hex"),
+      "4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15"
+    );
+  });
+
+  // The rate is 136 bytes, so these straddle the first block boundary
+  test("inputs around the block size", () => {
+    assert.equal(keccak256("a".repeat(135)).toString("hex"), "34367dc248bbd832f4e3e69dfaac2f92638bd0bbd18f2912ba4ef454919cf446");
+    assert.equal(keccak256("a".repeat(136)).toString("hex"), "a6c4d403279fe3e0af03729caada8374b5ca54d8065329a3ebcaeb4b60aa386e");
+    assert.equal(keccak256("a".repeat(137)).toString("hex"), "d869f639c7046b4929fc92a4d988a8b22c55fbadb802c0c66ebcd484f1915f39");
+  });
+
+  test("hashes buffers and strings alike", () => {
+    assert.deepEqual(keccak256(Buffer.from("abc")), keccak256("abc"));
+  });
+});
+
+describe("parseSignature", () => {
+  test("well-known selectors", () => {
+    const selectors: Record<string, string> = {
+      "transfer(address,uint256)": "0xa9059cbb",
+      "approve(address,uint256)": "0x095ea7b3",
+      "transferFrom(address,address,uint256)": "0x23b872dd",
+      "balanceOf(address)": "0x70a08231",
+      "multicall(bytes[])": "0xac9650d8",
+      "swapExactETHForTokens(uint256,address[],address,uint256)": "0x7ff36ab5",
+      "exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))": "0x414bf389",
+      "removeLiquidityETHWithPermitSupportingFeeOnTransferTokens(address,uint256,uint256,uint256,address,uint256,bool,uint8,bytes32,bytes32)": "0x5b0d5984",
+    };
+    for (const signature of Object.keys(selectors)) {
+      assert.equal(parseSignature(signature).selector, selectors[signature], signature);
+    }
+  });
+
+  test("event topic", () => {
+    assert.equal(
+      keccak256("Transfer(address,address,uint256)").toString("hex"),
+      "ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef"
+    );
+  });
+
+  test("keeps parameter names out of the canonical signature", () => {
+    const parsed = parseSignature("transfer(address to, uint256 amount)");
+    assert.equal(parsed.name, "transfer");
+    assert.equal(parsed.signature, "transfer(address,uint256)");
+    assert.equal(parsed.selector, "0xa9059cbb");
+    assert.deepEqual(parsed.params, [
+      { name: "to", type: "address" },
+      { name: "amount", type: "uint256" },
+    ]);
+  });
+
+  test("rejects text that is not a signature", () => {
+    assert.throws(() => parseSignature("function transfer(address) returns (bool)"), /Invalid function signature/);
+  });
+});
+
+describe("signaturesFromAbi", () => {
+  test("expands tuples and skips non-functions", () => {
+    const parsed = signaturesFromAbi([
+      {
+        type: "function",
+        name: "exactInputSingle",
+        inputs: [{
+          name: "params",
+          type: "tuple",
+          components: [
+            { name: "tokenIn", type: "address" },
+            { name: "tokenOut", type: "address" },
+            { name: "fee", type: "uint24" },
+            { name: "recipient", type: "address" },
+            { name: "deadline", type: "uint256" },
+            { name: "amountIn", type: "uint256" },
+            { name: "amountOutMinimum", type: "uint256" },
+            { name: "sqrtPriceLimitX96", type: "uint160" },
+          ],
+        }],
+      },
+      { type: "event", name: "Transfer", inputs: [] },
+      { name: "approve", inputs: [{ name: "spender", type: "address" }, { name: "amount", type: "uint256" }] },
+      {
+        type: "function",
+        name: "batch",
+        inputs: [{ name: "orders", type: "tuple[]", components: [{ name: "a", type: "address" }, { name: "b", type: "uint256" }] }],
+      },
+    ]);
+    assert.deepEqual(parsed.map(s => s.signature), [
+      "exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))",
+      "approve(address,uint256)",
+      "batch((address,uint256)[])",
+    ]);
+    assert.equal(parsed[0].selector, "0x414bf389");
+    assert.deepEqual(parsed[2].params, [{ name: "orders", type: "(address,uint256)[]" }]);
+  });
+});
+
+describe("decodeArguments", () => {
+  test("static arguments", () => {
+    const input = "0xa9059cbb" + word("b0b0") + word((1000000).toString(16));
+    assert.deepEqual(decodeArguments(parseSignature("transfer(address to, uint256 amount)"), input), [
+      { name: "to", type: "address", value: "0x000000000000000000000000000000000000b0b0" },
+      { name: "amount", type: "uint256", value: "1000000" },
+    ]);
+  });
+
+  test("dynamic address array", () => {
+    const input = "0x7ff36ab5" + word("64") + word("80") + word(RECIPIENT) + word("65a5b000")
+      + word("2") + word(WETH) + word(USDC);
+    const args = decodeArguments(
+      parseSignature("swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)"),
+      input
+    );
+    assert.deepEqual(args.map(a => a.value), ["100", [WETH, USDC], RECIPIENT, "1705357312"]);
+  });
+
+  test("static tuple", () => {
+    const input = "0x414bf389" + word(WETH) + word(USDC) + word("1f4") + word(RECIPIENT) + word("65a5b000")
+      + word("de0b6b3a7640000") + word("0") + word("0");
+    const [params] = decodeArguments(
+      parseSignature("exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160) params)"),
+      input
+    );
+    assert.equal(params.value, `(${WETH}, ${USDC}, 500, ${RECIPIENT}, 1705357312, 1000000000000000000, 0, 0)`);
+  });
+
+  test("bytes array", () => {
+    const signature = parseSignature("multicall(bytes[] data)");
+    const input = signature.selector + word("20") + word("2") + word("40") + word("80")
+      + word("4") + rightPadded("d0e30db0") + word("4") + rightPadded("12210e8a");
+    assert.deepEqual(decodeArguments(signature, input)[0].value, ["0xd0e30db0", "0x12210e8a"]);
+  });
+
+  test("signed ints, bools, fixed bytes and strings", () => {
+    const signature = parseSignature("f(int24 tick, bool flag, bytes4 id, string label)");
+    const input = signature.selector + "f".repeat(59) + "27626" + word("1") + rightPadded("12345678")
+      + word("80") + word("5") + rightPadded(Buffer.from("hello").toString("hex"));
+    assert.deepEqual(decodeArguments(signature, input).map(a => a.value), ["-887258", "true", "0x12345678", "hello"]);
+  });
+
+  test("rejects truncated call data", () => {
+    const input = "0xa9059cbb" + word("b0b0") + word("1");
+    assert.throws(() => decodeArguments(parseSignature("transfer(address,uint256)"), input.slice(0, 80)), /too short/);
+  });
+
+  test("rejects offsets past the end of the data", () => {
+    const signature = parseSignature("multicall(bytes[] data)");
+    assert.throws(() => decodeArguments(signature, signature.selector + word("ffffffff")), /out of range/);
+  });
+});
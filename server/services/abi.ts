@@ -0,0 +1,283 @@
+import type { AbiFragment, AbiParameter, MethodArgument } from "../../shared/schema";
+
+// Just enough Keccak-256 and ABI decoding to turn call data into a method
+// name and arguments. Only function calls are handled; events, errors and
+// packed encodings never reach us.
+
+const MASK64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+const RATE_BYTES = 136;
+
+const ROUND_CONSTANTS = [
+  "0x0000000000000001", "0x0000000000008082", "0x800000000000808a", "0x8000000080008000",
+  "0x000000000000808b", "0x0000000080000001", "0x8000000080008081", "0x8000000000008009",
+  "0x000000000000008a", "0x0000000000000088", "0x0000000080008009", "0x000000008000000a",
+  "0x000000008000808b", "0x800000000000008b", "0x8000000000008089", "0x8000000000008003",
+  "0x8000000000008002", "0x8000000000000080", "0x000000000000800a", "0x800000008000000a",
+  "0x8000000080008081", "0x8000000000008080", "0x0000000080000001", "0x8000000080008008",
+].map(c => BigInt(c));
+
+// Rotation offset for lane x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+function rotl(value: bigint, shift: number): bigint {
+  if (shift === 0) return value;
+  return ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK64;
+}
+
+function keccakF(state: bigint[]): void {
+  for (const constant of ROUND_CONSTANTS) {
+    const c: bigint[] = [];
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+
+    const b: bigint[] = new Array(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y] ^ ((b[(x + 1) % 5 + y] ^ MASK64) & b[(x + 2) % 5 + y]);
+      }
+    }
+    state[0] ^= constant;
+  }
+}
+
+/**
+ * Keccak-256 as Ethereum uses it (the original padding, not NIST SHA3).
+ */
+export function keccak256(input: Buffer | string): Buffer {
+  const data = typeof input === "string" ? Buffer.from(input, "utf8") : input;
+  const padded = Buffer.alloc((Math.floor(data.length / RATE_BYTES) + 1) * RATE_BYTES);
+  data.copy(padded);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(BigInt(0));
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakF(state);
+  }
+
+  const out = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) out.writeBigUInt64LE(state[lane], lane * 8);
+  return out;
+}
+
+type AbiType =
+  | { kind: "basic"; name: string }
+  | { kind: "array"; item: AbiType; length: number | null }
+  | { kind: "tuple"; components: AbiType[] };
+
+export interface ParsedSignature {
+  name: string;
+  // Canonical form used for the selector, e.g. "transfer(address,uint256)"
+  signature: string;
+  selector: string;
+  params: { name: string; type: string }[];
+}
+
+// Splits on commas that are not inside parentheses
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of list) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+function parseType(type: string): AbiType {
+  const array = type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    return { kind: "array", item: parseType(array[1]), length: array[2] ? parseInt(array[2], 10) : null };
+  }
+  if (type.startsWith("(") && type.endsWith(")")) {
+    return { kind: "tuple", components: splitTopLevel(type.slice(1, -1)).map(parseType) };
+  }
+  if (!/^(address|bool|string|bytes\d*|u?int\d*)$/.test(type)) {
+    throw new Error(`Unsupported ABI type: ${type}`);
+  }
+  return { kind: "basic", name: type };
+}
+
+/**
+ * Parses a human-readable signature such as
+ * "transfer(address to, uint256 amount)". Parameter names are optional.
+ */
+export function parseSignature(text: string): ParsedSignature {
+  const match = text.trim().match(/^([A-Za-z_$][\w$]*)\s*\((.*)\)$/);
+  if (!match) throw new Error(`Invalid function signature: ${text}`);
+
+  const params = splitTopLevel(match[2]).map((param, i) => {
+    // The type is everything up to the last space outside a tuple
+    const closing = param.lastIndexOf(")");
+    const space = param.indexOf(" ", closing + 1);
+    const type = (space >= 0 ? param.slice(0, space) : param).replace(/\s+/g, "");
+    const name = space >= 0 ? param.slice(space + 1).trim() : "";
+    parseType(type);
+    return { name: name || `arg${i}`, type };
+  });
+
+  const signature = `${match[1]}(${params.map(p => p.type).join(",")})`;
+  return {
+    name: match[1],
+    signature,
+    selector: `0x${keccak256(signature).subarray(0, 4).toString("hex")}`,
+    params,
+  };
+}
+
+// "tuple[]" with components becomes "(address,uint256)[]"
+function canonicalType(param: AbiParameter): string {
+  if (!param.type.startsWith("tuple")) return param.type;
+  const components = (param.components || []).map(canonicalType).join(",");
+  return `(${components})${param.type.slice("tuple".length)}`;
+}
+
+/**
+ * Function signatures from ABI JSON. Entries without a type are functions
+ * per the ABI spec; everything else that is not a function is skipped.
+ */
+export function signaturesFromAbi(abi: AbiFragment[]): ParsedSignature[] {
+  const signatures: ParsedSignature[] = [];
+  for (const fragment of abi) {
+    if ((fragment.type ?? "function") !== "function" || !fragment.name) continue;
+    const inputs = fragment.inputs || [];
+    try {
+      signatures.push(parseSignature(
+        `${fragment.name}(${inputs.map(input => `${canonicalType(input)} ${input.name || ""}`.trim()).join(",")})`
+      ));
+    } catch (error) {
+      // One exotic entry should not stop the rest of the ABI from decoding
+      console.error(`Skipping ABI entry ${fragment.name}:`, error);
+    }
+  }
+  return signatures;
+}
+
+function isDynamic(type: AbiType): boolean {
+  if (type.kind === "basic") return type.name === "bytes" || type.name === "string";
+  if (type.kind === "array") return type.length === null || isDynamic(type.item);
+  return type.components.some(isDynamic);
+}
+
+function headSize(type: AbiType): number {
+  if (isDynamic(type)) return 32;
+  if (type.kind === "array") return (type.length as number) * headSize(type.item);
+  if (type.kind === "tuple") return type.components.reduce((sum, c) => sum + headSize(c), 0);
+  return 32;
+}
+
+type Decoded = string | Decoded[];
+
+function readWord(data: Buffer, offset: number): Buffer {
+  if (offset < 0 || offset + 32 > data.length) {
+    throw new Error("Call data too short");
+  }
+  return data.subarray(offset, offset + 32);
+}
+
+function readSize(data: Buffer, offset: number): number {
+  const value = BigInt(`0x${readWord(data, offset).toString("hex")}`);
+  // Anything larger cannot point inside the call data
+  if (value > BigInt(data.length)) throw new Error("Offset out of range");
+  return Number(value);
+}
+
+function decodeBasic(name: string, word: Buffer): string {
+  const hex = word.toString("hex");
+  if (name === "address") return `0x${hex.slice(24)}`;
+  if (name === "bool") return BigInt(`0x${hex}`) === BigInt(0) ? "false" : "true";
+  if (name.startsWith("bytes")) return `0x${hex.slice(0, parseInt(name.slice(5), 10) * 2)}`;
+
+  const value = BigInt(`0x${hex}`);
+  if (name.startsWith("int") && word[0] >= 0x80) {
+    return (value - (BigInt(1) << BigInt(256))).toString();
+  }
+  return value.toString();
+}
+
+function decodeTuple(types: AbiType[], data: Buffer, base: number): Decoded[] {
+  let cursor = base;
+  return types.map(type => {
+    const at = isDynamic(type) ? base + readSize(data, cursor) : cursor;
+    cursor += headSize(type);
+    return decodeValue(type, data, at);
+  });
+}
+
+function decodeValue(type: AbiType, data: Buffer, offset: number): Decoded {
+  if (type.kind === "tuple") return decodeTuple(type.components, data, offset);
+
+  if (type.kind === "array") {
+    const length = type.length ?? readSize(data, offset);
+    const start = type.length === null ? offset + 32 : offset;
+    const items: AbiType[] = [];
+    for (let i = 0; i < length; i++) items.push(type.item);
+    return decodeTuple(items, data, start);
+  }
+
+  if (type.name === "bytes" || type.name === "string") {
+    const length = readSize(data, offset);
+    if (offset + 32 + length > data.length) throw new Error("Call data too short");
+    const bytes = data.subarray(offset + 32, offset + 32 + length);
+    return type.name === "string" ? bytes.toString("utf8") : `0x${bytes.toString("hex")}`;
+  }
+
+  return decodeBasic(type.name, readWord(data, offset));
+}
+
+function formatNested(value: Decoded, type: AbiType): string {
+  if (typeof value === "string") return value;
+  const inner = value.map((v, i) => formatNested(v, type.kind === "tuple" ? type.components[i] : type.kind === "array" ? type.item : type));
+  return type.kind === "tuple" ? `(${inner.join(", ")})` : `[${inner.join(", ")}]`;
+}
+
+/**
+ * Decodes the arguments of call data (selector included) against a parsed
+ * signature. Throws when the data does not fit the signature.
+ */
+export function decodeArguments(signature: ParsedSignature, input: string): MethodArgument[] {
+  const data = Buffer.from(input.replace(/^0x/, "").slice(8), "hex");
+  const types = signature.params.map(p => parseType(p.type));
+  const values = decodeTuple(types, data, 0);
+
+  return signature.params.map((param, i) => {
+    const type = types[i];
+    const value = values[i];
+    return {
+      name: param.name,
+      type: param.type,
+      value: typeof value === "string"
+        ? value
+        : type.kind === "array"
+          ? value.map(item => formatNested(item, type.item))
+          : formatNested(value, type),
+    };
+  });
+}
@@ -0,0 +1,250 @@
+import type { InsertTransaction } from "../../shared/schema";
+import type { ChainProvider, FetchOptions, FetchResult, FetchStats } from "./providers";
+import { isExtendedPublicKey, parseExtendedPublicKey, deriveAddress } from "./bitcoinKeys";
+
+const DEFAULT_API_URL = "https://blockstream.info/api";
+
+// Esplora returns 25 confirmed transactions per page
+const PAGE_SIZE = 25;
+const DEFAULT_MAX_PAGES = 20;
+
+// Consecutive unused addresses scanned before an extended key's chain is
+// considered exhausted (BIP44 default)
+const DEFAULT_GAP_LIMIT = 20;
+
+const SATS_PER_BTC = 100_000_000;
+
+/**
+ * Esplora HTTP transport. Tests can pass a function that answers from
+ * recorded responses instead of hitting the network.
+ */
+export type EsploraClient = <T>(path: string) => Promise<T>;
+
+interface EsploraOutput {
+  scriptpubkey_address?: string;
+  value: number;
+}
+
+export interface EsploraTransaction {
+  txid: string;
+  fee: number;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_time?: number;
+  };
+  vin: {
+    is_coinbase?: boolean;
+    prevout: EsploraOutput | null;
+  }[];
+  vout: EsploraOutput[];
+}
+
+interface EsploraAddressStats {
+  chain_stats: { tx_count: number };
+  mempool_stats: { tx_count: number };
+}
+
+export function getBitcoinApiUrl(): string {
+  return (process.env.BITCOIN_API_URL || DEFAULT_API_URL).replace(/\/$/, "");
+}
+
+function getGapLimit(): number {
+  const configured = parseInt(process.env.BITCOIN_GAP_LIMIT || "", 10);
+  return configured > 0 ? configured : DEFAULT_GAP_LIMIT;
+}
+
+export function createHttpEsplora(baseUrl: string): EsploraClient {
+  return async <T>(path: string): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`Bitcoin API error: ${response.status} ${response.statusText}`);
+    }
+    return response.json() as Promise<T>;
+  };
+}
+
+function formatBtc(sats: number): string {
+  return (sats / SATS_PER_BTC).toFixed(8).replace(/\.?0+$/, "");
+}
+
+/**
+ * Maps a transaction to the wallet's point of view given every address the
+ * wallet owns. Outputs back to the wallet are change and are netted out, so
+ * only value leaving to outside addresses is recorded as sent; a transaction
+ * whose outputs all return to the wallet is a self-transfer. The miner fee is
+ * recorded in gasFee when the wallet funded the inputs.
+ */
+export function mapBitcoinTransaction(
+  tx: EsploraTransaction,
+  ownAddresses: Set<string>,
+  walletId: string
+): InsertTransaction | null {
+  const isOwn = (output: EsploraOutput | null) =>
+    !!output?.scriptpubkey_address && ownAddresses.has(output.scriptpubkey_address);
+
+  const spent = tx.vin
+    .filter(input => isOwn(input.prevout))
+    .reduce((sum, input) => sum + (input.prevout?.value ?? 0), 0);
+  const received = tx.vout.filter(isOwn).reduce((sum, output) => sum + output.value, 0);
+  const external = tx.vout.filter(output => !isOwn(output)).reduce((sum, output) => sum + output.value, 0);
+
+  if (spent === 0 && received === 0) return null;
+
+  let classification: string;
+  let sentSats = 0;
+  let receivedSats = 0;
+  if (spent > 0 && external === 0) {
+    // Consolidation or sweep between the wallet's own addresses
+    classification = "self_transfer";
+    sentSats = received;
+  } else if (spent > 0) {
+    classification = "transfer";
+    sentSats = external;
+  } else {
+    classification = "transfer";
+    receivedSats = received;
+  }
+
+  return {
+    walletId,
+    txHash: tx.txid,
+    chain: "bitcoin",
+    timestamp: tx.status.block_time ? new Date(tx.status.block_time * 1000) : new Date(),
+    blockNumber: tx.status.block_height ?? null,
+    tokenIn: null,
+    tokenInAmount: receivedSats > 0 ? formatBtc(receivedSats) : null,
+    tokenInSymbol: receivedSats > 0 ? "BTC" : null,
+    tokenOut: null,
+    tokenOutAmount: sentSats > 0 ? formatBtc(sentSats) : null,
+    tokenOutSymbol: sentSats > 0 ? "BTC" : null,
+    classification,
+    classificationConfidence: classification === "self_transfer" ? "0.95" : "0.9",
+    needsReview: false,
+    userClassified: false,
+    contractAddress: null,
+    methodName: null,
+    gasFee: spent > 0 ? formatBtc(tx.fee) : null,
+    gasFeeUsd: null,
+    // Priced afterwards by the price backfill
+    priceAtTime: null,
+    valueUsd: null,
+    isSpam: false,
+    isDust: false,
+  };
+}
+
+async function hasHistory(api: EsploraClient, address: string): Promise<boolean> {
+  const stats = await api<EsploraAddressStats>(`/address/${address}`);
+  return stats.chain_stats.tx_count + stats.mempool_stats.tx_count > 0;
+}
+
+/**
+ * Expands the wallet address into the addresses to scan. Plain addresses
+ * are used as-is; for xpub/ypub/zpub keys the receive and change chains are
+ * walked until getGapLimit() consecutive addresses have no history.
+ * Returns every derived address (for change detection) and the used ones.
+ */
+export async function resolveAddresses(
+  api: EsploraClient,
+  walletAddress: string
+): Promise<{ owned: Set<string>; used: string[] }> {
+  const address = walletAddress.trim();
+  if (!isExtendedPublicKey(address)) {
+    return { owned: new Set([address]), used: [address] };
+  }
+
+  const account = parseExtendedPublicKey(address);
+  const gapLimit = getGapLimit();
+  const owned = new Set<string>();
+  const used: string[] = [];
+
+  for (const change of [0, 1] as const) {
+    let unused = 0;
+    for (let index = 0; unused < gapLimit; index++) {
+      const derived = deriveAddress(account, change, index);
+      owned.add(derived);
+      if (await hasHistory(api, derived)) {
+        used.push(derived);
+        unused = 0;
+      } else {
+        unused++;
+      }
+    }
+  }
+
+  return { owned, used };
+}
+
+export function createBitcoinProvider(client?: EsploraClient): ChainProvider {
+  return {
+    name: "bitcoin",
+    chains: ["bitcoin"],
+    // Falls back to the public Blockstream API, so always usable
+    isConfigured: () => true,
+    configurationHint: "Set BITCOIN_API_URL to use a dedicated Esplora instance.",
+
+    async fetchTransactions(
+      walletAddress: string,
+      _chain: string,
+      walletId: string,
+      options: FetchOptions = {}
+    ): Promise<FetchResult> {
+      const api = client ?? createHttpEsplora(getBitcoinApiUrl());
+      const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+      const stats: FetchStats = { pages: 0, transfers: 0, latestBlock: null, truncated: false };
+
+      try {
+        const { owned, used } = await resolveAddresses(api, walletAddress);
+
+        // The same transaction shows up under every address it touches
+        const byTxid = new Map<string, EsploraTransaction>();
+
+        for (const address of used) {
+          let lastTxid: string | undefined;
+          let pages = 0;
+          let exhausted = false;
+          while (pages < maxPages) {
+            const page = await api<EsploraTransaction[]>(
+              `/address/${address}/txs/chain${lastTxid ? `/${lastTxid}` : ""}`
+            );
+            pages++;
+
+            // Confirmed history is newest first; stop at the last synced block
+            const fresh = options.fromBlock
+              ? page.filter(tx => (tx.status.block_height ?? 0) > options.fromBlock!)
+              : page;
+            fresh.forEach(tx => byTxid.set(tx.txid, tx));
+
+            if (page.length < PAGE_SIZE || fresh.length < page.length) {
+              exhausted = true;
+              break;
+            }
+            lastTxid = page[page.length - 1].txid;
+          }
+          stats.pages += pages;
+          if (!exhausted) stats.truncated = true;
+        }
+
+        const transactions: InsertTransaction[] = [];
+        byTxid.forEach(tx => {
+          const height = tx.status.block_height;
+          if (height !== undefined && (stats.latestBlock === null || height > stats.latestBlock)) {
+            stats.latestBlock = height;
+          }
+          const mapped = mapBitcoinTransaction(tx, owned, walletId);
+          if (mapped) transactions.push(mapped);
+        });
+        stats.transfers = byTxid.size;
+
+        return { transactions, stats };
+      } catch (error) {
+        console.error("Error fetching from Bitcoin API:", error);
+        return {
+          transactions: [],
+          error: error instanceof Error ? error.message : "Failed to fetch transactions from Bitcoin API",
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  deriveAddress,
+  deriveChild,
+  isExtendedPublicKey,
+  parseExtendedPublicKey,
+  publicKeyToAddress,
+} from "./bitcoinKeys";
+
+// Account keys for the BIP39 test mnemonic "abandon abandon ... about"
+// (no passphrase), with the addresses published in BIP84 and by the
+// reference wallets for BIP44 and BIP49
+const BIP44_XPUB = "xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj";
+const BIP49_YPUB = "ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP";
+const BIP84_ZPUB = "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+
+describe("BIP32 public derivation", () => {
+  // BIP32 test vector 1: m/0H -> m/0H/1
+  test("derives m/0H/1 from m/0H", () => {
+    const parent = parseExtendedPublicKey("xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw");
+    const expected = parseExtendedPublicKey("xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ");
+    const child = deriveChild(parent, 1);
+    assert.equal(child.publicKey.toString("hex"), expected.publicKey.toString("hex"));
+    assert.equal(child.chainCode.toString("hex"), expected.chainCode.toString("hex"));
+    assert.equal(child.depth, expected.depth);
+  });
+
+  // BIP32 test vector 1: m/0H/1/2H/2 -> m/0H/1/2H/2/1000000000
+  test("derives a large non-hardened index", () => {
+    const parent = parseExtendedPublicKey("xpub6FHa3pjLCk84BayeJxFW2SP4XRrFd1JYnxeLeU8EqN3vDfZmbqBqaGJAyiLjTAwm6ZLRQUMv1ZACTj37sR62cfN7fe5JnJ7dh8zL4fiyLHV");
+    const expected = parseExtendedPublicKey("xpub6H1LXWLaKsWFhvm6RVpEL9P4KfRZSW7abD2ttkWP3SSQvnyA8FSVqNTEcYFgJS2UaFcxupHiYkro49S8yGasTvXEYBVPamhGW6cFJodrTHy");
+    const child = deriveChild(parent, 1000000000);
+    assert.equal(child.publicKey.toString("hex"), expected.publicKey.toString("hex"));
+    assert.equal(child.chainCode.toString("hex"), expected.chainCode.toString("hex"));
+  });
+
+  test("refuses hardened indexes", () => {
+    assert.throws(() => deriveChild(parseExtendedPublicKey(BIP44_XPUB), 0x80000000), /Hardened/);
+  });
+});
+
+describe("extended public keys", () => {
+  test("reads the address type from the version bytes", () => {
+    assert.equal(parseExtendedPublicKey(BIP44_XPUB).addressType, "p2pkh");
+    assert.equal(parseExtendedPublicKey(BIP49_YPUB).addressType, "p2sh-p2wpkh");
+    assert.equal(parseExtendedPublicKey(BIP84_ZPUB).addressType, "p2wpkh");
+    assert.equal(parseExtendedPublicKey(BIP84_ZPUB).depth, 3);
+  });
+
+  test("rejects a bad checksum", () => {
+    const corrupted = BIP84_ZPUB.slice(0, -1) + (BIP84_ZPUB.endsWith("s") ? "t" : "s");
+    assert.throws(() => parseExtendedPublicKey(corrupted), /checksum/);
+  });
+
+  test("recognizes extended keys but not addresses", () => {
+    assert.equal(isExtendedPublicKey(BIP84_ZPUB), true);
+    assert.equal(isExtendedPublicKey(` ${BIP44_XPUB} `), true);
+    assert.equal(isExtendedPublicKey("bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu"), false);
+  });
+});
+
+describe("addresses", () => {
+  test("BIP84 receive and change addresses", () => {
+    const account = parseExtendedPublicKey(BIP84_ZPUB);
+    assert.equal(deriveAddress(account, 0, 0), "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu");
+    assert.equal(deriveAddress(account, 0, 1), "bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g");
+    assert.equal(deriveAddress(account, 1, 0), "bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el");
+  });
+
+  test("BIP49 nested segwit address", () => {
+    assert.equal(deriveAddress(parseExtendedPublicKey(BIP49_YPUB), 0, 0), "37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf");
+  });
+
+  test("BIP44 legacy address", () => {
+    assert.equal(deriveAddress(parseExtendedPublicKey(BIP44_XPUB), 0, 0), "1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA");
+  });
+
+  // The generator point is the public key of private key 1
+  test("encodes a known public key in every format", () => {
+    const publicKey = Buffer.from("0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798", "hex");
+    assert.equal(publicKeyToAddress(publicKey, "p2pkh"), "1BgGZ9tcN4rm9KBzDn7KprQz87SZ26SAMH");
+    assert.equal(publicKeyToAddress(publicKey, "p2wpkh"), "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+  });
+});
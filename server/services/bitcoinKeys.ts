@@ -0,0 +1,292 @@
+import { createHash, createHmac } from "crypto";
+
+// Just enough secp256k1, BIP32 and address encoding to turn an account-level
+// extended public key into receive and change addresses. Only public
+// (non-hardened) derivation is supported since we never see private keys.
+
+const P = BigInt("0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f");
+const N = BigInt("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141");
+const G: Point = {
+  x: BigInt("0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798"),
+  y: BigInt("0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8"),
+};
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+const SEVEN = BigInt(7);
+
+type Point = { x: bigint; y: bigint } | null;
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const r = a % m;
+  return r >= ZERO ? r : r + m;
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+  let result = ONE;
+  let b = mod(base, m);
+  let e = exponent;
+  while (e > ZERO) {
+    if (e & ONE) result = mod(result * b, m);
+    b = mod(b * b, m);
+    e >>= ONE;
+  }
+  return result;
+}
+
+function modInverse(a: bigint): bigint {
+  return modPow(a, P - TWO);
+}
+
+function pointAdd(a: Point, b: Point): Point {
+  if (!a) return b;
+  if (!b) return a;
+
+  let lambda: bigint;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === ZERO) return null;
+    lambda = mod(THREE * a.x * a.x * modInverse(TWO * a.y));
+  } else {
+    lambda = mod((b.y - a.y) * modInverse(b.x - a.x));
+  }
+
+  const x = mod(lambda * lambda - a.x - b.x);
+  const y = mod(lambda * (a.x - x) - a.y);
+  return { x, y };
+}
+
+function pointMultiply(k: bigint, point: Point): Point {
+  let result: Point = null;
+  let addend = point;
+  let scalar = k;
+  while (scalar > ZERO) {
+    if (scalar & ONE) result = pointAdd(result, addend);
+    addend = pointAdd(addend, addend);
+    scalar >>= ONE;
+  }
+  return result;
+}
+
+function bytesToBigInt(bytes: Buffer): bigint {
+  return bytes.length === 0 ? ZERO : BigInt(`0x${bytes.toString("hex")}`);
+}
+
+function bigIntToBytes(value: bigint, length: number): Buffer {
+  return Buffer.from(value.toString(16).padStart(length * 2, "0"), "hex");
+}
+
+function compressPoint(point: Point): Buffer {
+  if (!point) throw new Error("Cannot serialize the point at infinity");
+  const prefix = (point.y & ONE) === ZERO ? 0x02 : 0x03;
+  return Buffer.concat([Buffer.from([prefix]), bigIntToBytes(point.x, 32)]);
+}
+
+function decompressPoint(bytes: Buffer): Point {
+  if (bytes.length !== 33 || (bytes[0] !== 0x02 && bytes[0] !== 0x03)) {
+    throw new Error("Invalid compressed public key");
+  }
+  const x = bytesToBigInt(bytes.subarray(1));
+  const y2 = mod(x * x * x + SEVEN);
+  // P = 3 mod 4, so a square root is y2^((P + 1) / 4)
+  let y = modPow(y2, (P + ONE) / FOUR);
+  if (mod(y * y) !== y2) throw new Error("Invalid public key point");
+  if ((y & ONE) !== BigInt(bytes[0] & 1)) y = P - y;
+  return { x, y };
+}
+
+// --- Hashing and encodings ---
+
+function sha256(data: Buffer): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+export function hash160(data: Buffer): Buffer {
+  return createHash("ripemd160").update(sha256(data)).digest();
+}
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const FIFTY_EIGHT = BigInt(58);
+
+function base58Encode(bytes: Buffer): string {
+  let value = bytesToBigInt(bytes);
+  let out = "";
+  while (value > ZERO) {
+    out = BASE58_ALPHABET[Number(value % FIFTY_EIGHT)] + out;
+    value /= FIFTY_EIGHT;
+  }
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    out = "1" + out;
+  }
+  return out;
+}
+
+function base58Decode(text: string): Buffer {
+  let value = ZERO;
+  for (const char of text.split("")) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character: ${char}`);
+    value = value * FIFTY_EIGHT + BigInt(digit);
+  }
+  const hex = value === ZERO ? "" : value.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+  let leadingZeros = 0;
+  while (leadingZeros < text.length && text[leadingZeros] === "1") leadingZeros++;
+  return Buffer.concat([Buffer.alloc(leadingZeros), body]);
+}
+
+function base58CheckEncode(payload: Buffer): string {
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return base58Encode(Buffer.concat([payload, checksum]));
+}
+
+function base58CheckDecode(text: string): Buffer {
+  const bytes = base58Decode(text);
+  if (bytes.length < 4) throw new Error("Invalid base58check string");
+  const payload = bytes.subarray(0, bytes.length - 4);
+  const checksum = bytes.subarray(bytes.length - 4);
+  if (!sha256(sha256(payload)).subarray(0, 4).equals(checksum)) {
+    throw new Error("Invalid base58check checksum");
+  }
+  return payload;
+}
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+function bech32Polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) chk ^= BECH32_GENERATOR[i];
+    }
+  }
+  return chk;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const chars = hrp.split("").map(c => c.charCodeAt(0));
+  return [...chars.map(c => c >> 5), 0, ...chars.map(c => c & 31)];
+}
+
+function convertBits(data: Buffer, from: number, to: number): number[] {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  const maxValue = (1 << to) - 1;
+  for (const value of Array.from(data)) {
+    acc = (acc << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & maxValue);
+    }
+  }
+  if (bits > 0) out.push((acc << (to - bits)) & maxValue);
+  return out;
+}
+
+// Segwit v0 addresses use the original bech32 checksum (not bech32m)
+function segwitV0Address(hrp: string, program: Buffer): string {
+  const data = [0, ...convertBits(program, 8, 5)];
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...data, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = [0, 1, 2, 3, 4, 5].map(i => (polymod >>> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...data, ...checksum].map(d => BECH32_CHARSET[d]).join("")}`;
+}
+
+// --- Extended keys ---
+
+export type AddressType = "p2pkh" | "p2sh-p2wpkh" | "p2wpkh";
+
+const EXTENDED_KEY_VERSIONS: Record<string, AddressType> = {
+  "0488b21e": "p2pkh", // xpub
+  "049d7cb2": "p2sh-p2wpkh", // ypub
+  "04b24746": "p2wpkh", // zpub
+};
+
+export interface ExtendedPublicKey {
+  addressType: AddressType;
+  depth: number;
+  chainCode: Buffer;
+  publicKey: Buffer;
+}
+
+export function isExtendedPublicKey(value: string): boolean {
+  return /^[xyz]pub[1-9A-HJ-NP-Za-km-z]{100,112}$/.test(value.trim());
+}
+
+export function parseExtendedPublicKey(value: string): ExtendedPublicKey {
+  const payload = base58CheckDecode(value.trim());
+  if (payload.length !== 78) {
+    throw new Error("Invalid extended public key length");
+  }
+  const version = payload.subarray(0, 4).toString("hex");
+  const addressType = EXTENDED_KEY_VERSIONS[version];
+  if (!addressType) {
+    throw new Error("Unsupported extended key version; expected a mainnet xpub, ypub or zpub");
+  }
+  const publicKey = payload.subarray(45, 78);
+  decompressPoint(publicKey); // validates the key is on the curve
+
+  return {
+    addressType,
+    depth: payload[4],
+    chainCode: payload.subarray(13, 45),
+    publicKey,
+  };
+}
+
+/**
+ * BIP32 public child derivation (CKDpub) for a non-hardened index.
+ */
+export function deriveChild(parent: ExtendedPublicKey, index: number): ExtendedPublicKey {
+  if (index < 0 || index >= 0x80000000) {
+    throw new Error("Hardened derivation requires a private key");
+  }
+  const indexBytes = Buffer.alloc(4);
+  indexBytes.writeUInt32BE(index, 0);
+
+  const I = createHmac("sha512", parent.chainCode)
+    .update(Buffer.concat([parent.publicKey, indexBytes]))
+    .digest();
+  const tweak = bytesToBigInt(I.subarray(0, 32));
+  if (tweak >= N) {
+    throw new Error(`Invalid child key at index ${index}`);
+  }
+
+  const child = pointAdd(pointMultiply(tweak, G), decompressPoint(parent.publicKey));
+  return {
+    addressType: parent.addressType,
+    depth: parent.depth + 1,
+    chainCode: I.subarray(32),
+    publicKey: compressPoint(child),
+  };
+}
+
+export function publicKeyToAddress(publicKey: Buffer, addressType: AddressType): string {
+  const keyHash = hash160(publicKey);
+  switch (addressType) {
+    case "p2pkh":
+      return base58CheckEncode(Buffer.concat([Buffer.from([0x00]), keyHash]));
+    case "p2sh-p2wpkh": {
+      const redeemScript = Buffer.concat([Buffer.from([0x00, 0x14]), keyHash]);
+      return base58CheckEncode(Buffer.concat([Buffer.from([0x05]), hash160(redeemScript)]));
+    }
+    case "p2wpkh":
+      return segwitV0Address("bc", keyHash);
+  }
+}
+
+/**
+ * Address at account/{change}/{index} for an account-level extended key
+ * (m/44'/0'/0', m/49'/0'/0' or m/84'/0'/0'). change is 0 for receive
+ * addresses and 1 for change addresses.
+ */
+export function deriveAddress(account: ExtendedPublicKey, change: 0 | 1, index: number): string {
+  const key = deriveChild(deriveChild(account, change), index);
+  return publicKeyToAddress(key.publicKey, account.addressType);
+}
@@ -0,0 +1,400 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { computeCostBasis, feeTreatment, summarizeDisposals, type CostBasisTransaction } from "./costBasis";
+
+let nextId = 0;
+
+function tx(overrides: Partial<CostBasisTransaction>): CostBasisTransaction {
+  nextId++;
+  return {
+    id: `tx-${nextId}`,
+    walletId: "wallet-a",
+    txHash: `0x${nextId}`,
+    chain: "ethereum",
+    timestamp: new Date("2023-01-01T00:00:00Z"),
+    blockNumber: null,
+    tokenIn: null,
+    tokenInAmount: null,
+    tokenInSymbol: null,
+    tokenOut: null,
+    tokenOutAmount: null,
+    tokenOutSymbol: null,
+    classification: "unknown",
+    classificationConfidence: null,
+    needsReview: false,
+    userClassified: false,
+    previousClassification: null,
+    classificationRuleId: null,
+    ruleMatchedAt: null,
+    linkedTransactionId: null,
+    contractAddress: null,
+    methodName: null,
+    methodSelector: null,
+    methodArgs: null,
+    inputData: null,
+    gasFee: null,
+    gasFeeUsd: null,
+    feeSymbol: null,
+    priceAtTime: null,
+    valueUsd: null,
+    priceCheckedAt: null,
+    isSpam: false,
+    spamReason: null,
+    isDust: false,
+    createdAt: null,
+    ...overrides,
+  };
+}
+
+// Buying with dollars opens a lot at what was paid
+function buy(amount: string, usd: string, at: string, extra: Partial<CostBasisTransaction> = {}) {
+  return tx({
+    classification: "swap",
+    timestamp: new Date(at),
+    tokenOutSymbol: "USD",
+    tokenOutAmount: usd,
+    tokenInSymbol: "ETH",
+    tokenInAmount: amount,
+    valueUsd: usd,
+    ...extra,
+  });
+}
+
+function sell(amount: string, usd: string, at: string, extra: Partial<CostBasisTransaction> = {}) {
+  return tx({
+    classification: "swap",
+    timestamp: new Date(at),
+    tokenOutSymbol: "ETH",
+    tokenOutAmount: amount,
+    tokenInSymbol: "USD",
+    tokenInAmount: usd,
+    valueUsd: usd,
+    ...extra,
+  });
+}
+
+describe("lot methods", () => {
+  const lots = [
+    buy("1", "1000", "2023-01-01T00:00:00Z"),
+    buy("1", "3000", "2023-02-01T00:00:00Z"),
+    buy("1", "2000", "2023-03-01T00:00:00Z"),
+  ];
+  const sale = sell("1", "2500", "2023-06-01T00:00:00Z");
+
+  const basisFor = (lotMethod: "fifo" | "lifo" | "hifo") => {
+    const { disposals } = computeCostBasis([...lots, sale], { lotMethod });
+    assert.equal(disposals.length, 1);
+    return disposals[0];
+  };
+
+  test("FIFO relieves the oldest lot", () => {
+    const disposal = basisFor("fifo");
+    assert.equal(disposal.costBasisUsd, "1000.00");
+    assert.equal(disposal.gainLossUsd, "1500.00");
+    assert.equal(disposal.lotKey, `${lots[0].id}:in`);
+  });
+
+  test("LIFO relieves the newest lot", () => {
+    assert.equal(basisFor("lifo").costBasisUsd, "2000.00");
+  });
+
+  test("HIFO relieves the most expensive lot", () => {
+    const disposal = basisFor("hifo");
+    assert.equal(disposal.costBasisUsd, "3000.00");
+    assert.equal(disposal.gainLossUsd, "-500.00");
+  });
+
+  test("specific ID relieves the designated lots, then falls back to FIFO", () => {
+    const bigSale = sell("1.5", "3000", "2023-06-01T00:00:00Z");
+    const { disposals } = computeCostBasis([...lots, bigSale], {
+      lotMethod: "specific_id",
+      designations: new Map([[bigSale.id, [{ lotTransactionId: lots[2].id, amount: 1 }]]]),
+    });
+    assert.deepEqual(disposals.map(d => [d.lotKey, d.amount, d.costBasisUsd, d.proceedsUsd]), [
+      [`${lots[2].id}:in`, "1", "2000.00", "2000.00"],
+      [`${lots[0].id}:in`, "0.5", "500.00", "1000.00"],
+    ]);
+  });
+
+  test("a sale spanning lots splits proceeds by amount", () => {
+    const { disposals, lots: open } = computeCostBasis([...lots, sell("2.5", "5000", "2023-06-01T00:00:00Z")]);
+    assert.deepEqual(disposals.map(d => [d.amount, d.costBasisUsd, d.proceedsUsd]), [
+      ["1", "1000.00", "2000.00"],
+      ["1", "3000.00", "2000.00"],
+      ["0.5", "1000.00", "1000.00"],
+    ]);
+    assert.deepEqual(open.map(l => l.remainingAmount), ["0", "0", "0.5"]);
+  });
+
+  test("selling more than was acquired disposes of the rest at zero basis", () => {
+    const { disposals } = computeCostBasis([buy("1", "1000", "2023-01-01T00:00:00Z"), sell("2", "4000", "2023-06-01T00:00:00Z")]);
+    assert.equal(disposals.length, 2);
+    assert.deepEqual([disposals[1].lotKey, disposals[1].costBasisUsd, disposals[1].gainLossUsd], [null, "0.00", "2000.00"]);
+  });
+});
+
+describe("holding period", () => {
+  test("disposing on the anniversary is short-term, the day after long-term", () => {
+    const acquired = buy("2", "2000", "2023-03-15T12:00:00Z");
+    const onAnniversary = sell("1", "1500", "2024-03-15T23:00:00Z");
+    const dayAfter = sell("1", "1500", "2024-03-16T00:30:00Z");
+    const { disposals } = computeCostBasis([acquired, onAnniversary, dayAfter]);
+    assert.deepEqual(disposals.map(d => d.isShortTerm), [true, false]);
+  });
+
+  test("summaries split by holding period within the UTC tax year", () => {
+    const acquired = buy("3", "3000", "2022-01-01T00:00:00Z");
+    const { disposals } = computeCostBasis([
+      acquired,
+      sell("1", "1500", "2022-06-01T00:00:00Z"),
+      sell("1", "500", "2023-06-01T00:00:00Z"),
+      sell("1", "2000", "2024-01-01T00:00:00Z"),
+    ]);
+    assert.deepEqual(summarizeDisposals(disposals, 2023), {
+      totalDisposals: 1,
+      shortTermGains: "0.00",
+      shortTermLosses: "0.00",
+      longTermGains: "0.00",
+      longTermLosses: "500.00",
+      netGainLoss: "-500.00",
+    });
+  });
+});
+
+describe("fees", () => {
+  test("treatment follows what the transaction did", () => {
+    assert.equal(feeTreatment(buy("1", "1000", "2023-01-01T00:00:00Z")), "basis");
+    assert.equal(feeTreatment(sell("1", "1000", "2023-01-01T00:00:00Z")), "proceeds");
+    assert.equal(feeTreatment(tx({ classification: "reward", tokenInSymbol: "ETH", tokenInAmount: "1" })), "basis");
+    assert.equal(feeTreatment(tx({ classification: "expense", tokenOutSymbol: "ETH", tokenOutAmount: "1" })), "proceeds");
+    assert.equal(feeTreatment(tx({ classification: "transfer", tokenOutSymbol: "ETH", tokenOutAmount: "1" })), "deductible");
+  });
+
+  test("a fee on a buy is added to basis and disposes of the native asset", () => {
+    const funding = buy("1", "1000", "2023-01-01T00:00:00Z");
+    const tokenBuy = tx({
+      classification: "swap",
+      timestamp: new Date("2023-02-01T00:00:00Z"),
+      tokenOutSymbol: "USD",
+      tokenOutAmount: "500",
+      tokenIn: "0xtoken",
+      tokenInSymbol: "TKN",
+      tokenInAmount: "100",
+      valueUsd: "500",
+      gasFee: "0.01",
+      gasFeeUsd: "15",
+    });
+    const { lots, disposals } = computeCostBasis([funding, tokenBuy]);
+    assert.equal(lots.find(l => l.transactionId === tokenBuy.id)!.costBasisUsd, "515.00");
+    assert.equal(disposals.length, 1);
+    assert.deepEqual(
+      [disposals[0].isFee, disposals[0].token, disposals[0].amount, disposals[0].costBasisUsd, disposals[0].proceedsUsd],
+      [true, "eth", "0.01", "10.00", "15.00"]
+    );
+  });
+
+  test("a fee on a sale comes off the proceeds", () => {
+    const { disposals } = computeCostBasis([
+      buy("2", "2000", "2023-01-01T00:00:00Z"),
+      sell("1", "1500", "2023-02-01T00:00:00Z", { gasFee: "0.01", gasFeeUsd: "15" }),
+    ]);
+    const sale = disposals.find(d => !d.isFee)!;
+    assert.equal(sale.proceedsUsd, "1485.00");
+    assert.equal(sale.gainLossUsd, "485.00");
+  });
+
+  test("an exchange fee in another coin disposes of that coin", () => {
+    const { disposals } = computeCostBasis([
+      tx({ classification: "reward", tokenInSymbol: "BNB", tokenInAmount: "1", valueUsd: "300", timestamp: new Date("2023-01-01T00:00:00Z") }),
+      sell("1", "1500", "2023-02-01T00:00:00Z", { gasFee: "0.01", gasFeeUsd: "3", feeSymbol: "BNB" }),
+    ]);
+    const fee = disposals.find(d => d.isFee)!;
+    assert.deepEqual([fee.token, fee.costBasisUsd, fee.proceedsUsd], ["bnb", "3.00", "3.00"]);
+  });
+});
+
+describe("linked transfers", () => {
+  test("move lots to the receiving wallet with their basis and date", () => {
+    const acquired = buy("1", "1000", "2023-01-01T00:00:00Z");
+    const out = tx({
+      classification: "self_transfer",
+      timestamp: new Date("2023-02-01T00:00:00Z"),
+      tokenOutSymbol: "ETH",
+      tokenOutAmount: "1",
+    });
+    const arrived = tx({
+      walletId: "wallet-b",
+      classification: "self_transfer",
+      timestamp: new Date("2023-02-01T00:05:00Z"),
+      tokenInSymbol: "ETH",
+      tokenInAmount: "0.99",
+    });
+    out.linkedTransactionId = arrived.id;
+    arrived.linkedTransactionId = out.id;
+    const sale = sell("0.99", "3000", "2024-06-01T00:00:00Z", { walletId: "wallet-b" });
+
+    const { lots, disposals } = computeCostBasis([arrived, out, acquired, sale]);
+    const movedLot = lots.find(l => l.walletId === "wallet-b")!;
+    assert.equal(movedLot.costBasisUsd, "1000.00");
+    assert.equal(movedLot.amount, "0.99");
+    assert.deepEqual(movedLot.acquiredAt, acquired.timestamp);
+    assert.equal(lots.find(l => l.transactionId === acquired.id)!.remainingAmount, "0");
+
+    assert.equal(disposals.length, 1);
+    assert.deepEqual([disposals[0].costBasisUsd, disposals[0].isShortTerm], ["1000.00", false]);
+  });
+
+  test("an unlinked transfer moves nothing", () => {
+    const acquired = buy("1", "1000", "2023-01-01T00:00:00Z");
+    const out = tx({ classification: "self_transfer", tokenOutSymbol: "ETH", tokenOutAmount: "1", timestamp: new Date("2023-02-01T00:00:00Z") });
+    const { lots, disposals } = computeCostBasis([acquired, out]);
+    assert.equal(lots.length, 1);
+    assert.equal(lots[0].remainingAmount, "1");
+    assert.equal(disposals.length, 0);
+  });
+});
+
+describe("spam", () => {
+  test("only confirmed spam is left out", () => {
+    const deny = tx({ classification: "airdrop", tokenInSymbol: "SCAM", tokenInAmount: "1", valueUsd: "10", isSpam: true, spamReason: "deny_list" });
+    const heuristic = tx({ classification: "airdrop", tokenInSymbol: "MAYBE", tokenInAmount: "1", valueUsd: "10", isSpam: true, spamReason: "phishing_symbol" });
+    const { lots } = computeCostBasis([deny, heuristic]);
+    assert.deepEqual(lots.map(l => l.transactionId), [heuristic.id]);
+  });
+});
+
+describe("conversions", () => {
+  const WETH = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+
+  test("a wrap carries basis and date to the wrapped token, and a later sale uses them", () => {
+    const acquired = buy("2", "2000", "2023-01-01T00:00:00Z");
+    const wrap = tx({
+      classification: "wrap",
+      timestamp: new Date("2023-03-01T00:00:00Z"),
+      tokenOutSymbol: "ETH",
+      tokenOutAmount: "1.5",
+      tokenIn: WETH,
+      tokenInSymbol: "WETH",
+      tokenInAmount: "1.5",
+      valueUsd: "2400",
+    });
+    const sale = tx({
+      classification: "swap",
+      timestamp: new Date("2024-02-01T00:00:00Z"),
+      tokenOut: WETH,
+      tokenOutSymbol: "WETH",
+      tokenOutAmount: "1.5",
+      tokenInSymbol: "USD",
+      tokenInAmount: "3000",
+      valueUsd: "3000",
+    });
+
+    const { lots, disposals } = computeCostBasis([acquired, wrap, sale]);
+    assert.equal(lots.find(l => l.transactionId === acquired.id)!.remainingAmount, "0.5");
+    const wrapped = lots.find(l => l.transactionId === wrap.id)!;
+    assert.deepEqual([wrapped.token, wrapped.amount, wrapped.costBasisUsd], [WETH, "1.5", "1500.00"]);
+    assert.deepEqual(wrapped.acquiredAt, acquired.timestamp);
+
+    // The wrap itself is not a disposal
+    assert.equal(disposals.length, 1);
+    assert.deepEqual(
+      [disposals[0].costBasisUsd, disposals[0].gainLossUsd, disposals[0].isShortTerm],
+      ["1500.00", "1500.00", false]
+    );
+  });
+
+  test("a capitalized fee on a stake is added to the received token's basis", () => {
+    const acquired = buy("2", "2000", "2023-01-01T00:00:00Z");
+    const stake = tx({
+      classification: "stake",
+      timestamp: new Date("2023-03-01T00:00:00Z"),
+      tokenOutSymbol: "ETH",
+      tokenOutAmount: "1",
+      tokenIn: "0xae7ab96520de3a18e5e111b5eaab095312d7fe84",
+      tokenInSymbol: "stETH",
+      tokenInAmount: "0.999",
+      gasFee: "0.01",
+      gasFeeUsd: "16",
+    });
+    const { lots, disposals } = computeCostBasis([acquired, stake]);
+    assert.equal(lots.find(l => l.transactionId === stake.id)!.costBasisUsd, "1016.00");
+    assert.deepEqual(disposals.map(d => d.isFee), [true]);
+  });
+
+  test("an LP deposit pools the basis of both sides and a withdrawal splits it back", () => {
+    const eth = buy("1", "1000", "2023-01-01T00:00:00Z");
+    const usdc = tx({
+      classification: "swap",
+      timestamp: new Date("2023-01-02T00:00:00Z"),
+      tokenOutSymbol: "USD",
+      tokenOutAmount: "1500",
+      tokenIn: "0xusdc",
+      tokenInSymbol: "USDC",
+      tokenInAmount: "1500",
+      valueUsd: "1500",
+    });
+    const deposit = tx({
+      classification: "lp_deposit",
+      timestamp: new Date("2023-02-01T00:00:00Z"),
+      movements: [
+        { direction: "out", token: null, tokenSymbol: "ETH", amount: "1", valueUsd: "1500" },
+        { direction: "out", token: "0xusdc", tokenSymbol: "USDC", amount: "1500", valueUsd: "1500" },
+        { direction: "in", token: "0xlp", tokenSymbol: "UNI-V2", amount: "10", valueUsd: "3000" },
+      ],
+    });
+    const withdraw = tx({
+      classification: "lp_withdraw",
+      timestamp: new Date("2023-03-01T00:00:00Z"),
+      movements: [
+        { direction: "out", token: "0xlp", tokenSymbol: "UNI-V2", amount: "10", valueUsd: "3200" },
+        { direction: "in", token: null, tokenSymbol: "ETH", amount: "0.9", valueUsd: "1600" },
+        { direction: "in", token: "0xusdc", tokenSymbol: "USDC", amount: "1600", valueUsd: "1600" },
+      ],
+    });
+
+    const { lots, disposals } = computeCostBasis([eth, usdc, deposit, withdraw]);
+    assert.equal(disposals.length, 0);
+    const lpBasis = lots.filter(l => l.transactionId === deposit.id).reduce((sum, l) => sum + parseFloat(l.costBasisUsd), 0);
+    assert.equal(lpBasis, 2500);
+    const lpAmount = lots.filter(l => l.transactionId === deposit.id).reduce((sum, l) => sum + parseFloat(l.amount), 0);
+    assert.equal(lpAmount, 10);
+
+    const back = lots.filter(l => l.transactionId === withdraw.id);
+    const total = (token: string, field: "amount" | "costBasisUsd") =>
+      back.filter(l => l.token === token).reduce((sum, l) => sum + parseFloat(l[field]), 0);
+    assert.equal(total("eth", "amount"), 0.9);
+    assert.equal(total("0xusdc", "amount"), 1600);
+    assert.equal(total("eth", "costBasisUsd") + total("0xusdc", "costBasisUsd"), 2500);
+  });
+
+  test("staking with no receipt token leaves the lots in place", () => {
+    const acquired = buy("32", "32000", "2023-01-01T00:00:00Z");
+    const stake = tx({ classification: "stake", tokenOutSymbol: "ETH", tokenOutAmount: "32", timestamp: new Date("2023-02-01T00:00:00Z") });
+    const unstake = tx({ classification: "unstake", tokenInSymbol: "ETH", tokenInAmount: "32", timestamp: new Date("2024-02-01T00:00:00Z") });
+    const { lots, disposals } = computeCostBasis([acquired, stake, unstake]);
+    assert.deepEqual(lots.map(l => [l.transactionId, l.remainingAmount]), [[acquired.id, "32"]]);
+    assert.equal(disposals.length, 0);
+  });
+
+  test("borrowed tokens open a lot at market value and repaying disposes of them", () => {
+    const borrow = tx({
+      classification: "borrow",
+      timestamp: new Date("2023-01-01T00:00:00Z"),
+      tokenIn: "0xusdc",
+      tokenInSymbol: "USDC",
+      tokenInAmount: "1000",
+      valueUsd: "1000",
+    });
+    const repay = tx({
+      classification: "repay",
+      timestamp: new Date("2023-06-01T00:00:00Z"),
+      tokenOut: "0xusdc",
+      tokenOutSymbol: "USDC",
+      tokenOutAmount: "1000",
+      valueUsd: "1000",
+    });
+    const { lots, disposals } = computeCostBasis([borrow, repay]);
+    assert.deepEqual(lots.map(l => [l.costBasisUsd, l.remainingAmount]), [["1000.00", "0"]]);
+    assert.deepEqual(disposals.map(d => d.gainLossUsd), ["0.00"]);
+  });
+});
@@ -0,0 +1,481 @@
+import {
+  FIAT_CURRENCIES,
+  NATIVE_SYMBOLS,
+  isConfirmedSpam,
+  type Transaction,
+  type InsertTaxLot,
+  type InsertDisposal,
+  type LotMethod,
+  type MovementLeg,
+} from "../../shared/schema";
+import { allocateValue, legsFromTransaction } from "./movements";
+
+// Classifications where the wallet gives up one asset in exchange for another
+const EXCHANGE_CLASSIFICATIONS = new Set(["swap", "nft_mint", "nft_sale"]);
+
+// Classifications that open a lot at fair market value with nothing given up
+const ACQUISITION_CLASSIFICATIONS = new Set(["income", "airdrop", "reward", "interest", "vesting"]);
+
+// Classifications that close lots without anything received in return.
+// Repaying a loan or having collateral liquidated gives the tokens up at
+// market value to settle the debt.
+const DISPOSAL_CLASSIFICATIONS = new Set(["expense", "repay", "liquidation"]);
+
+// Borrowed tokens open a lot at market value but are not income
+const BORROW_CLASSIFICATIONS = new Set(["borrow"]);
+
+// Classifications that trade one asset for a claim on the same value
+// (wrapped, staked or LP tokens) without a taxable event: the basis and
+// acquisition dates of what was given up carry over to what was received.
+// With only one side present (native staking with no receipt token) the
+// lots stay where they are.
+const CONVERSION_CLASSIFICATIONS = new Set([
+  "wrap",
+  "unwrap",
+  "stake",
+  "unstake",
+  "lp_deposit",
+  "lp_withdraw",
+  "migration",
+]);
+
+// Classifications that, once the send and receive sides are linked, move
+// lots from one of the user's wallets to another without a taxable event
+const MOVE_CLASSIFICATIONS = new Set(["self_transfer", "bridge"]);
+
+// How a transaction's network fee enters the tax math: capitalized into the
+// basis of what was acquired, netted against the proceeds of what was
+// disposed of, or (for transfers, approvals and the like) a standalone
+// deductible expense
+export type FeeTreatment = "basis" | "proceeds" | "deductible";
+
+// Amounts smaller than this are treated as fully consumed to absorb float drift
+const AMOUNT_EPSILON = 1e-12;
+
+export interface PendingTaxLot extends InsertTaxLot {
+  key: string;
+}
+
+export interface PendingDisposal extends Omit<InsertDisposal, "taxLotId"> {
+  lotKey: string | null;
+}
+
+export interface LotDesignation {
+  // Transaction that opened the lot; with several received legs, the one
+  // in the token being disposed of is used
+  lotTransactionId: string;
+  amount: number;
+}
+
+export interface CostBasisOptions {
+  lotMethod?: LotMethod;
+  // Disposal transaction id -> lots the user chose to relieve (specific_id only)
+  designations?: Map<string, LotDesignation[]>;
+}
+
+// Transactions without stored movements fall back to tokenIn/tokenOut
+export type CostBasisTransaction = Transaction & { movements?: MovementLeg[] };
+
+export interface CostBasisResult {
+  lots: PendingTaxLot[];
+  disposals: PendingDisposal[];
+}
+
+interface OpenLot {
+  key: string;
+  walletId: string | null;
+  transactionId: string;
+  token: string;
+  tokenSymbol: string;
+  amount: number;
+  remaining: number;
+  costBasis: number;
+  acquiredAt: Date;
+}
+
+interface Leg {
+  token: string;
+  tokenSymbol: string;
+  amount: number;
+  valueUsd: number | null;
+}
+
+// Lots are keyed by the transaction and received leg that opened them so
+// keys survive a rebuild. The primary leg keeps the short form.
+export function lotKeyFor(transactionId: string, legIndex = 0): string {
+  return legIndex === 0 ? `${transactionId}:in` : `${transactionId}:in:${legIndex}`;
+}
+
+const FIAT = new Set<string>(FIAT_CURRENCIES);
+
+// Fiat legs (exchange buys and sells) are the unit of account, not an asset
+function tokenKey(address: string | null, symbol: string | null): string | null {
+  if (!address && symbol && FIAT.has(symbol.toUpperCase())) return null;
+  const key = address || symbol;
+  return key ? key.toLowerCase() : null;
+}
+
+function parseAmount(value: string | null | undefined): number {
+  if (!value) return 0;
+  const num = parseFloat(value);
+  return isNaN(num) ? 0 : num;
+}
+
+// Received and sent legs that can carry a lot (fiat and unnamed legs cannot)
+function legsOf(tx: CostBasisTransaction): { received: Leg[]; sent: Leg[] } {
+  const movements = tx.movements && tx.movements.length > 0 ? tx.movements : legsFromTransaction(tx);
+  const received: Leg[] = [];
+  const sent: Leg[] = [];
+  for (const movement of movements) {
+    const token = tokenKey(movement.token ?? null, movement.tokenSymbol ?? null);
+    const amount = parseAmount(movement.amount);
+    if (!token || amount <= 0) continue;
+    const leg = {
+      token,
+      tokenSymbol: movement.tokenSymbol || token,
+      amount,
+      valueUsd: movement.valueUsd ? parseAmount(movement.valueUsd) : null,
+    };
+    (movement.direction === "in" ? received : sent).push(leg);
+  }
+  return { received, sent };
+}
+
+/**
+ * Where a transaction's fee goes. Exchanges net it against proceeds when
+ * something with a basis was given up, and add it to the basis of what was
+ * received otherwise (buying with fiat).
+ */
+export function feeTreatment(tx: CostBasisTransaction): FeeTreatment {
+  const classification = tx.classification || "unknown";
+  if (EXCHANGE_CLASSIFICATIONS.has(classification)) {
+    return legsOf(tx).sent.length > 0 ? "proceeds" : "basis";
+  }
+  if (ACQUISITION_CLASSIFICATIONS.has(classification) || BORROW_CLASSIFICATIONS.has(classification)) return "basis";
+  if (CONVERSION_CLASSIFICATIONS.has(classification)) {
+    const { received, sent } = legsOf(tx);
+    return received.length > 0 && sent.length > 0 ? "basis" : "deductible";
+  }
+  if (DISPOSAL_CLASSIFICATIONS.has(classification)) return "proceeds";
+  return "deductible";
+}
+
+// USD value of the whole transaction, from the row or else its priced legs
+function transactionValue(tx: CostBasisTransaction, legs: Leg[]): number {
+  const value = parseAmount(tx.valueUsd);
+  if (value > 0) return value;
+  return legs.reduce((sum, leg) => sum + (leg.valueUsd ?? 0), 0);
+}
+
+// Long-term means held more than one year, counted in calendar dates (UTC)
+// rather than a fixed number of days, so leap years and DST don't shift it.
+// Disposing on the anniversary of the acquisition is still short-term.
+function isShortTerm(acquiredAt: Date, disposedAt: Date): boolean {
+  const anniversary = Date.UTC(acquiredAt.getUTCFullYear() + 1, acquiredAt.getUTCMonth(), acquiredAt.getUTCDate());
+  const disposedOn = Date.UTC(disposedAt.getUTCFullYear(), disposedAt.getUTCMonth(), disposedAt.getUTCDate());
+  return disposedOn <= anniversary;
+}
+
+function unitCost(lot: OpenLot): number {
+  return lot.amount > 0 ? lot.costBasis / lot.amount : 0;
+}
+
+// Order in which open lots are relieved. Specific ID falls back to FIFO for
+// any amount the user has not designated.
+function orderLots(pool: OpenLot[], method: LotMethod): OpenLot[] {
+  const sorted = [...pool];
+  switch (method) {
+    case "lifo":
+      return sorted.sort((a, b) => b.acquiredAt.getTime() - a.acquiredAt.getTime());
+    case "hifo":
+      return sorted.sort((a, b) => unitCost(b) - unitCost(a));
+    case "fifo":
+    case "specific_id":
+    default:
+      return sorted.sort((a, b) => a.acquiredAt.getTime() - b.acquiredAt.getTime());
+  }
+}
+
+/**
+ * Walks a user's transactions in chronological order, opening tax lots on
+ * acquisitions and relieving them on disposals according to the lot method.
+ * Every received leg of a transaction opens its own lot and every sent leg
+ * is disposed of; the transaction's USD value is split across legs. Fees
+ * paid in the native asset (or the asset named by feeSymbol) dispose of
+ * it, and their USD value is added to basis or taken off proceeds per
+ * feeTreatment. Lots are tracked per wallet
+ * and token; linked self-transfers and bridges move lots to the receiving
+ * wallet, and wraps, stakes and LP deposits to the received token, with
+ * their basis and acquisition date. Spam the user has
+ * confirmed is skipped. Nothing is persisted; callers decide what to do
+ * with the result.
+ */
+export function computeCostBasis(txs: CostBasisTransaction[], options: CostBasisOptions = {}): CostBasisResult {
+  const lotMethod = options.lotMethod ?? "fifo";
+  const ordered = [...txs]
+    .filter(tx => !isConfirmedSpam(tx))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const openLots = new Map<string, OpenLot[]>();
+  const allLots: OpenLot[] = [];
+  const disposals: PendingDisposal[] = [];
+  const byId = new Map(ordered.map(tx => [tx.id, tx] as const));
+  // Linked transactions whose lots have already been moved
+  const moved = new Set<string>();
+
+  const poolKey = (walletId: string | null, token: string) => `${walletId ?? ""}:${token}`;
+
+  const acquire = (tx: Transaction, leg: Leg, legIndex: number, costBasis: number) => {
+    const lot: OpenLot = {
+      key: lotKeyFor(tx.id, legIndex),
+      walletId: tx.walletId,
+      transactionId: tx.id,
+      token: leg.token,
+      tokenSymbol: leg.tokenSymbol,
+      amount: leg.amount,
+      remaining: leg.amount,
+      costBasis,
+      acquiredAt: new Date(tx.timestamp),
+    };
+
+    const pool = openLots.get(poolKey(lot.walletId, leg.token)) ?? [];
+    pool.push(lot);
+    openLots.set(poolKey(lot.walletId, leg.token), pool);
+    allLots.push(lot);
+  };
+
+  const dispose = (tx: Transaction, leg: Leg, proceeds: number, isFee = false) => {
+    const { token, tokenSymbol, amount } = leg;
+    const disposedAt = new Date(tx.timestamp);
+    const pool = openLots.get(poolKey(tx.walletId, token)) ?? [];
+    let remaining = amount;
+
+    const record = (lot: OpenLot | null, consumed: number, basis: number) => {
+      const share = proceeds * (consumed / amount);
+      disposals.push({
+        lotKey: lot?.key ?? null,
+        transactionId: tx.id,
+        token,
+        tokenSymbol,
+        amount: consumed.toString(),
+        proceedsUsd: share.toFixed(2),
+        costBasisUsd: basis.toFixed(2),
+        gainLossUsd: (share - basis).toFixed(2),
+        isShortTerm: lot ? isShortTerm(lot.acquiredAt, disposedAt) : true,
+        isFee,
+        disposedAt,
+      });
+    };
+
+    const relieve = (lot: OpenLot, requested: number) => {
+      const consumed = Math.min(lot.remaining, remaining, requested);
+      if (consumed <= AMOUNT_EPSILON) return;
+      const basis = lot.costBasis * (consumed / lot.amount);
+      lot.remaining -= consumed;
+      remaining -= consumed;
+      record(lot, consumed, basis);
+    };
+
+    if (lotMethod === "specific_id") {
+      for (const designation of options.designations?.get(tx.id) ?? []) {
+        const lot = pool.find(l => l.transactionId === designation.lotTransactionId);
+        if (lot && lot.acquiredAt <= disposedAt) {
+          relieve(lot, designation.amount);
+        }
+      }
+    }
+
+    for (const lot of orderLots(pool, lotMethod)) {
+      if (remaining <= AMOUNT_EPSILON) break;
+      if (lot.remaining <= AMOUNT_EPSILON) continue;
+      relieve(lot, lot.remaining);
+    }
+
+    // Nothing left to match against (history starts mid-stream or the
+    // acquisition was never imported) - treat the rest as zero basis
+    if (remaining > AMOUNT_EPSILON) {
+      record(null, remaining, 0);
+    }
+  };
+
+  // Relieves the lots behind the sent legs and reopens them under the
+  // receiving transaction as the received legs, keeping their basis and
+  // acquisition dates. Each sent leg's share of what was received (and each
+  // received leg's share of the basis) follows the legs' USD values, or is
+  // even when they are not all priced. Whatever was lost on the way
+  // (withdrawal or bridge fees) stays in the basis of what arrived;
+  // extraBasis (a capitalized fee) is spread over the reopened lots.
+  const carryLots = (
+    from: CostBasisTransaction,
+    sent: Leg[],
+    to: CostBasisTransaction,
+    received: Leg[],
+    extraBasis = 0
+  ) => {
+    if (sent.length === 0 || received.length === 0) return;
+
+    const sentShares = allocateValue(1, sent.map(leg => leg.valueUsd));
+    const receivedShares = allocateValue(1, received.map(leg => leg.valueUsd));
+    let legIndex = 0;
+
+    const reopen = (sentIndex: number, consumed: number, costBasis: number, acquiredAt: Date) => {
+      const fraction = sentShares[sentIndex] * (consumed / sent[sentIndex].amount);
+      received.forEach((leg, i) => {
+        const amount = leg.amount * fraction;
+        const lot: OpenLot = {
+          key: lotKeyFor(to.id, legIndex++),
+          walletId: to.walletId,
+          transactionId: to.id,
+          token: leg.token,
+          tokenSymbol: leg.tokenSymbol,
+          amount,
+          remaining: amount,
+          costBasis: (costBasis + extraBasis * fraction) * receivedShares[i],
+          acquiredAt,
+        };
+        const target = openLots.get(poolKey(lot.walletId, lot.token)) ?? [];
+        target.push(lot);
+        openLots.set(poolKey(lot.walletId, lot.token), target);
+        allLots.push(lot);
+      });
+    };
+
+    sent.forEach((sentLeg, sentIndex) => {
+      const pool = openLots.get(poolKey(from.walletId, sentLeg.token)) ?? [];
+      let remaining = sentLeg.amount;
+
+      for (const lot of orderLots(pool, lotMethod)) {
+        if (remaining <= AMOUNT_EPSILON) break;
+        const consumed = Math.min(lot.remaining, remaining);
+        if (consumed <= AMOUNT_EPSILON) continue;
+        lot.remaining -= consumed;
+        remaining -= consumed;
+        reopen(sentIndex, consumed, lot.costBasis * (consumed / lot.amount), lot.acquiredAt);
+      }
+
+      // Same as a disposal with no lots behind it: zero basis from here on
+      if (remaining > AMOUNT_EPSILON) {
+        reopen(sentIndex, remaining, 0, new Date(to.timestamp));
+      }
+    });
+  };
+
+  const acquireAll = (tx: Transaction, legs: Leg[], value: number) => {
+    const costs = allocateValue(value, legs.map(leg => leg.valueUsd));
+    legs.forEach((leg, i) => acquire(tx, leg, i, costs[i]));
+  };
+
+  const disposeAll = (tx: Transaction, legs: Leg[], value: number) => {
+    const proceeds = allocateValue(value, legs.map(leg => leg.valueUsd));
+    legs.forEach((leg, i) => dispose(tx, leg, proceeds[i]));
+  };
+
+  // Paying a fee in the native asset (or the asset an exchange took it in)
+  // disposes of it at market value
+  const disposeFee = (tx: Transaction, feeUsd: number) => {
+    const amount = parseAmount(tx.gasFee);
+    const symbol = tx.feeSymbol || (NATIVE_SYMBOLS[tx.chain] || [])[0];
+    const token = symbol ? tokenKey(null, symbol) : null;
+    if (!token || amount <= 0) return;
+    dispose(tx, { token, tokenSymbol: symbol, amount, valueUsd: feeUsd }, feeUsd, true);
+  };
+
+  for (const tx of ordered) {
+    const classification = tx.classification || "unknown";
+    const { received, sent } = legsOf(tx);
+    const feeUsd = parseAmount(tx.gasFeeUsd);
+    const treatment = feeTreatment(tx);
+    const basisFee = treatment === "basis" ? feeUsd : 0;
+    const proceedsFee = treatment === "proceeds" ? feeUsd : 0;
+
+    disposeFee(tx, feeUsd);
+
+    const linked = tx.linkedTransactionId ? byId.get(tx.linkedTransactionId) : undefined;
+    if (MOVE_CLASSIFICATIONS.has(classification) && linked) {
+      // Whichever side comes first moves the lots; clocks on exchanges
+      // and different chains do not always put the send first
+      if (!moved.has(tx.id)) {
+        const [from, to] = sent.length > 0 ? [tx, linked] : [linked, tx];
+        carryLots(from, legsOf(from).sent.slice(0, 1), to, legsOf(to).received.slice(0, 1));
+        moved.add(from.id);
+        moved.add(to.id);
+      }
+    } else if (EXCHANGE_CLASSIFICATIONS.has(classification)) {
+      // What was received is the fair market value of what was given up
+      const value = transactionValue(tx, received.length > 0 ? received : sent);
+      disposeAll(tx, sent, value - proceedsFee);
+      acquireAll(tx, received, value + basisFee);
+    } else if (CONVERSION_CLASSIFICATIONS.has(classification)) {
+      carryLots(tx, sent, tx, received, basisFee);
+    } else if (ACQUISITION_CLASSIFICATIONS.has(classification) || BORROW_CLASSIFICATIONS.has(classification)) {
+      acquireAll(tx, received, transactionValue(tx, received) + basisFee);
+    } else if (DISPOSAL_CLASSIFICATIONS.has(classification)) {
+      disposeAll(tx, sent, transactionValue(tx, sent) - proceedsFee);
+    }
+  }
+
+  return {
+    lots: allLots.map(lot => ({
+      key: lot.key,
+      walletId: lot.walletId,
+      transactionId: lot.transactionId,
+      token: lot.token,
+      tokenSymbol: lot.tokenSymbol,
+      amount: lot.amount.toString(),
+      remainingAmount: (lot.remaining > AMOUNT_EPSILON ? lot.remaining : 0).toString(),
+      costBasisUsd: lot.costBasis.toFixed(2),
+      acquiredAt: lot.acquiredAt,
+    })),
+    disposals,
+  };
+}
+
+/**
+ * Totals realized gains and losses for disposals falling in the given tax
+ * year, split by holding period.
+ */
+export function summarizeDisposals(
+  disposals: Pick<InsertDisposal, "gainLossUsd" | "isShortTerm" | "disposedAt">[],
+  year: number
+) {
+  const start = new Date(Date.UTC(year, 0, 1));
+  const end = new Date(Date.UTC(year + 1, 0, 1));
+
+  let shortTermGains = 0;
+  let shortTermLosses = 0;
+  let longTermGains = 0;
+  let longTermLosses = 0;
+  let totalDisposals = 0;
+
+  for (const d of disposals) {
+    const disposedAt = new Date(d.disposedAt);
+    if (disposedAt < start || disposedAt >= end) continue;
+
+    totalDisposals++;
+    const gainLoss = parseFloat(d.gainLossUsd);
+    if (d.isShortTerm) {
+      if (gainLoss >= 0) {
+        shortTermGains += gainLoss;
+      } else {
+        shortTermLosses += Math.abs(gainLoss);
+      }
+    } else {
+      if (gainLoss >= 0) {
+        longTermGains += gainLoss;
+      } else {
+        longTermLosses += Math.abs(gainLoss);
+      }
+    }
+  }
+
+  const netGainLoss = (shortTermGains - shortTermLosses) + (longTermGains - longTermLosses);
+
+  return {
+    totalDisposals,
+    shortTermGains: shortTermGains.toFixed(2),
+    shortTermLosses: shortTermLosses.toFixed(2),
+    longTermGains: longTermGains.toFixed(2),
+    longTermLosses: longTermLosses.toFixed(2),
+    netGainLoss: netGainLoss.toFixed(2),
+  };
+}
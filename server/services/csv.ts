@@ -0,0 +1,73 @@
+/**
+ * Parses CSV text into rows of cells. Handles quoted fields with embedded
+ * commas, newlines and doubled quotes, CRLF line endings and a leading BOM.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) {
+      rows.push(row.map(value => value.trim()));
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Parses CSV text whose header row is the first row matching isHeader
+ * (exports often start with a preamble) into objects keyed by header.
+ * Each record carries its 1-based row number (blank lines excluded) for
+ * error reporting.
+ */
+export function parseCsvRecords(
+  text: string,
+  isHeader: (cells: string[]) => boolean = () => true
+): { headers: string[]; records: { row: number; values: Record<string, string> }[] } {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex(isHeader);
+  if (headerIndex < 0) return { headers: [], records: [] };
+
+  const headers = rows[headerIndex];
+  const records = rows.slice(headerIndex + 1).map((cells, offset) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      values[header] = cells[i] ?? "";
+    });
+    return { row: headerIndex + offset + 2, values };
+  });
+  return { headers, records };
+}
@@ -0,0 +1,302 @@
+import type { InsertTransactionWithMovements, MovementLeg } from "../../shared/schema";
+import { decodeProtocol } from "./protocols";
+
+// Shared by every EVM provider: they normalize whatever their backend
+// returns into EvmTransfers, and this module groups them per transaction,
+// classifies them and maps them to InsertTransactions.
+
+export interface EvmTransfer {
+  hash: string;
+  blockNumber: number;
+  timestamp: string;
+  from: string;
+  to: string | null;
+  // Decimal-adjusted amount; null for NFTs and unknown values
+  value: number | null;
+  asset: string | null;
+  category: "external" | "internal" | "erc20" | "erc721" | "erc1155";
+  contractAddress: string | null;
+}
+
+// The top-level call a transaction made: who it called and with what data
+export interface EvmCall {
+  to: string | null;
+  input: string;
+}
+
+export interface AggregatedTx {
+  hash: string;
+  blockNumber: number;
+  timestamp: string;
+  transfers: EvmTransfer[];
+  tokensIn: { address: string | null; symbol: string | null; amount: string }[];
+  tokensOut: { address: string | null; symbol: string | null; amount: string }[];
+  hasNft: boolean;
+  nftMint: boolean;
+  isInternal: boolean;
+  contractInteraction: boolean;
+}
+
+const KNOWN_DEX_ROUTERS = new Set([
+  "0x7a250d5630b4cf539739df2c5dacb4c659f2488d", // Uniswap V2 Router
+  "0xe592427a0aece92de3edee1f18e0157c05861564", // Uniswap V3 Router
+  "0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45", // Uniswap Universal Router
+  "0xef1c6e67703c7bd7107eed8303fbe6ec2554bf6b", // Universal Router
+  "0x1111111254eeb25477b68fb85ed929f73a960582", // 1inch V5 Router
+  "0xdef1c0ded9bec7f1a1670819833240f027b25eff", // 0x Exchange Proxy
+  "0xd9e1ce17f2641f24ae83637ab66a2cca9c378b9f", // SushiSwap Router
+]);
+
+export const NULL_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+function classifyAggregatedTx(tx: AggregatedTx, walletAddress: string): string {
+  const wallet = walletAddress.toLowerCase();
+  const hasIn = tx.tokensIn.length > 0;
+  const hasOut = tx.tokensOut.length > 0;
+
+  // Self-transfer detection
+  if (tx.transfers.length === 1) {
+    const t = tx.transfers[0];
+    if (t.from.toLowerCase() === t.to?.toLowerCase()) {
+      return "self_transfer";
+    }
+    // Simple single-direction transfer
+    if (t.from.toLowerCase() === wallet || t.to?.toLowerCase() === wallet) {
+      return "transfer";
+    }
+  }
+
+  // NFT transactions
+  if (tx.hasNft) {
+    if (tx.nftMint) {
+      return "nft_mint";
+    }
+    return "nft_sale";
+  }
+
+  // Check if DEX router is involved (strong indicator of swap)
+  const interactedWithDex = tx.transfers.some(t =>
+    KNOWN_DEX_ROUTERS.has(t.from.toLowerCase()) ||
+    KNOWN_DEX_ROUTERS.has(t.to?.toLowerCase() || "")
+  );
+
+  // Swap detection: tokens going in AND out with DIFFERENT symbols
+  if (hasIn && hasOut) {
+    const inSymbols = new Set(tx.tokensIn.map(t => t.symbol?.toLowerCase()).filter(Boolean));
+    const outSymbols = new Set(tx.tokensOut.map(t => t.symbol?.toLowerCase()).filter(Boolean));
+
+    // Check for distinct tokens (not just same token in both directions)
+    const hasDistinctTokens = inSymbols.size > 0 && outSymbols.size > 0 &&
+      Array.from(inSymbols).some(s => !outSymbols.has(s));
+
+    if (hasDistinctTokens) {
+      return "swap";
+    }
+
+    // DEX router + bidirectional = swap even if same symbol (wrapped tokens)
+    if (interactedWithDex) {
+      return "swap";
+    }
+
+    // Same token in both directions without DEX = likely internal movement
+    return "transfer";
+  }
+
+  // Airdrop: tokens received from null address
+  if (hasIn && !hasOut) {
+    const fromNullAddr = tx.transfers.some(t =>
+      t.from.toLowerCase() === NULL_ADDRESS && t.to?.toLowerCase() === wallet
+    );
+    if (fromNullAddr) {
+      return "airdrop";
+    }
+
+    // Internal transaction often indicates rewards/income
+    if (tx.isInternal) {
+      return "reward";
+    }
+
+    // Simple incoming transfer
+    return "transfer";
+  }
+
+  // Pure outgoing transfer
+  if (hasOut && !hasIn) {
+    return "transfer";
+  }
+
+  // No token movement - likely approval or failed tx
+  if (!hasIn && !hasOut) {
+    if (tx.transfers.length > 0) {
+      return "contract_interaction";
+    }
+  }
+
+  // Unknown - needs human review
+  return "unknown";
+}
+
+function shouldNeedReview(classification: string): boolean {
+  return classification === "unknown" || classification === "contract_interaction";
+}
+
+function getConfidence(classification: string): string {
+  switch (classification) {
+    case "swap": return "0.8";
+    case "transfer": return "0.9";
+    case "airdrop": return "0.7";
+    case "nft_mint": return "0.9";
+    case "nft_sale": return "0.7";
+    case "self_transfer": return "0.95";
+    case "reward": return "0.6";
+    default: return "0.0";
+  }
+}
+
+/**
+ * Groups transfers by transaction hash so multi-transfer transactions
+ * (swaps, mints) can be classified as a whole.
+ */
+export function aggregateTransfers(transfers: EvmTransfer[], walletAddress: string): AggregatedTx[] {
+  const txMap = new Map<string, AggregatedTx>();
+  const wallet = walletAddress.toLowerCase();
+
+  for (const transfer of transfers) {
+    const isOutgoing = transfer.from.toLowerCase() === wallet;
+    const isIncoming = transfer.to?.toLowerCase() === wallet;
+    const isNft = transfer.category === "erc721" || transfer.category === "erc1155";
+    const isMint = transfer.from.toLowerCase() === NULL_ADDRESS;
+
+    let tx = txMap.get(transfer.hash);
+    if (!tx) {
+      tx = {
+        hash: transfer.hash,
+        blockNumber: transfer.blockNumber,
+        timestamp: transfer.timestamp,
+        transfers: [],
+        tokensIn: [],
+        tokensOut: [],
+        hasNft: false,
+        nftMint: false,
+        isInternal: false,
+        contractInteraction: false,
+      };
+      txMap.set(transfer.hash, tx);
+    }
+
+    tx.transfers.push(transfer);
+    if (isIncoming && transfer.value) {
+      tx.tokensIn.push({
+        address: transfer.contractAddress,
+        symbol: transfer.asset,
+        amount: transfer.value.toString()
+      });
+    }
+    if (isOutgoing && transfer.value) {
+      tx.tokensOut.push({
+        address: transfer.contractAddress,
+        symbol: transfer.asset,
+        amount: transfer.value.toString()
+      });
+    }
+    if (isNft) tx.hasNft = true;
+    if (isNft && isMint) tx.nftMint = true;
+    if (transfer.category === "internal") tx.isInternal = true;
+    if (transfer.contractAddress) tx.contractInteraction = true;
+  }
+
+  return Array.from(txMap.values());
+}
+
+// Every leg of the transaction, received legs first
+function toMovements(tx: AggregatedTx): MovementLeg[] {
+  const leg = (direction: "in" | "out") => (t: AggregatedTx["tokensIn"][number]): MovementLeg => ({
+    direction,
+    token: t.address,
+    tokenSymbol: t.symbol,
+    amount: t.amount,
+  });
+  return [...tx.tokensIn.map(leg("in")), ...tx.tokensOut.map(leg("out"))];
+}
+
+/**
+ * Turns a wallet's normalized transfers into classified transactions with
+ * one movement per token leg. gasFees maps the hashes of transactions the
+ * wallet paid for to the fee in native units; calls carries their call
+ * data, which is kept for method decoding and makes the called contract
+ * the transaction's contract address.
+ */
+export function buildEvmTransactions(
+  transfers: EvmTransfer[],
+  walletAddress: string,
+  chain: string,
+  walletId: string,
+  gasFees: Map<string, string> = new Map(),
+  calls: Map<string, EvmCall> = new Map()
+): InsertTransactionWithMovements[] {
+  return aggregateTransfers(transfers, walletAddress).map(tx => {
+    // Plain value transfers have no call data
+    const call = calls.get(tx.hash);
+    const inputData = call && call.input && call.input !== "0x" ? call.input : null;
+
+    // Known protocols first, then the generic transfer heuristics
+    const protocol = decodeProtocol({
+      chain,
+      wallet: walletAddress.toLowerCase(),
+      tx,
+      call: call ?? null,
+      selector: inputData ? inputData.slice(0, 10).toLowerCase() : null,
+    });
+    const classification = protocol?.classification ?? classifyAggregatedTx(tx, walletAddress);
+
+    // Primary token in/out (first ones if multiple); the rest live in movements
+    const primaryIn = tx.tokensIn[0];
+    const primaryOut = tx.tokensOut[0];
+
+    // The contract that was called, else the first token contract involved
+    const contractAddr = (inputData && call?.to) ||
+      tx.transfers.find(t => t.contractAddress)?.contractAddress || null;
+
+    return {
+      walletId,
+      txHash: tx.hash,
+      chain,
+      timestamp: new Date(tx.timestamp),
+      blockNumber: tx.blockNumber,
+      tokenIn: primaryIn?.address || null,
+      tokenInAmount: primaryIn?.amount || null,
+      tokenInSymbol: primaryIn?.symbol || null,
+      tokenOut: primaryOut?.address || null,
+      tokenOutAmount: primaryOut?.amount || null,
+      tokenOutSymbol: primaryOut?.symbol || null,
+      classification,
+      classificationConfidence: protocol?.confidence ?? getConfidence(classification),
+      needsReview: !protocol && shouldNeedReview(classification),
+      userClassified: false,
+      contractAddress: contractAddr,
+      // Decoded against the user's ABIs when the transaction is imported
+      methodName: null,
+      methodSelector: inputData ? inputData.slice(0, 10).toLowerCase() : null,
+      methodArgs: null,
+      inputData,
+      gasFee: gasFees.get(tx.hash) ?? null,
+      // Priced afterwards by the price backfill
+      gasFeeUsd: null,
+      priceAtTime: null,
+      valueUsd: null,
+      isSpam: false,
+      isDust: false,
+      movements: toMovements(tx),
+    };
+  });
+}
+
+export function latestBlockOf(transfers: EvmTransfer[]): number | null {
+  let latest: number | null = null;
+  for (const transfer of transfers) {
+    if (!isNaN(transfer.blockNumber) && (latest === null || transfer.blockNumber > latest)) {
+      latest = transfer.blockNumber;
+    }
+  }
+  return latest;
+}
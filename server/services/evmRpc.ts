@@ -0,0 +1,436 @@
+import type { ChainProvider, FetchOptions, FetchResult, FetchStats } from "./providers";
+import { buildEvmTransactions, type EvmCall, type EvmTransfer } from "./evm";
+
+// keccak256("Transfer(address,address,uint256)"), shared by ERC-20 and ERC-721
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const DECIMALS_SELECTOR = "0x313ce567";
+const SYMBOL_SELECTOR = "0x95d89b41";
+
+const DEFAULT_BLOCK_RANGE = 2000;
+const DEFAULT_MAX_RANGES = 5;
+const BLOCK_BATCH_SIZE = 20;
+const RECEIPT_BATCH_SIZE = 50;
+
+export interface EvmChainConfig {
+  rpcUrl: string;
+  nativeSymbol: string;
+  // Largest eth_getLogs block span the endpoint accepts
+  blockRange?: number;
+  // Native transfers are only visible by reading every block in the range;
+  // turn this off for endpoints that rate-limit full block reads
+  scanNativeTransfers?: boolean;
+  // Block a first sync starts from, usually the wallet's first activity on
+  // the chain; each sync then walks forward from where the last one ended
+  startBlock?: number;
+}
+
+const DEFAULT_EVM_CHAINS: Record<string, EvmChainConfig> = {
+  avalanche: { rpcUrl: "https://api.avax.network/ext/bc/C/rpc", nativeSymbol: "AVAX" },
+  bsc: { rpcUrl: "https://bsc-dataseed.bnbchain.org", nativeSymbol: "BNB", blockRange: 1000 },
+};
+
+/**
+ * Chains served over plain JSON-RPC. Built-in defaults can be pointed at
+ * another endpoint with <CHAIN>_RPC_URL and given a first block to scan
+ * with <CHAIN>_RPC_START_BLOCK; further chains are added with
+ * EVM_RPC_CHAINS, a JSON object of chain name to EvmChainConfig.
+ */
+export function getEvmChainConfigs(): Record<string, EvmChainConfig> {
+  const configs: Record<string, EvmChainConfig> = {};
+
+  Object.keys(DEFAULT_EVM_CHAINS).forEach(chain => {
+    const override = process.env[`${chain.toUpperCase()}_RPC_URL`];
+    const startBlock = parseInt(process.env[`${chain.toUpperCase()}_RPC_START_BLOCK`] || "", 10);
+    configs[chain] = {
+      ...DEFAULT_EVM_CHAINS[chain],
+      ...(override ? { rpcUrl: override } : {}),
+      ...(startBlock >= 0 ? { startBlock } : {}),
+    };
+  });
+
+  if (process.env.EVM_RPC_CHAINS) {
+    try {
+      const extra = JSON.parse(process.env.EVM_RPC_CHAINS) as Record<string, EvmChainConfig>;
+      Object.keys(extra).forEach(chain => {
+        if (extra[chain]?.rpcUrl) {
+          configs[chain] = { ...configs[chain], ...extra[chain] };
+        }
+      });
+    } catch (error) {
+      console.error("Ignoring invalid EVM_RPC_CHAINS:", error);
+    }
+  }
+
+  return configs;
+}
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+interface RpcBlock {
+  number: string;
+  timestamp: string;
+  transactions: {
+    hash: string;
+    from: string;
+    to: string | null;
+    value: string;
+  }[];
+}
+
+interface RpcReceipt {
+  transactionHash: string;
+  from: string;
+  gasUsed: string;
+  // Pre-London receipts only have the transaction's gasPrice
+  effectiveGasPrice?: string;
+  // Data fee paid to L1 on OP Stack rollups (Optimism, Base)
+  l1Fee?: string;
+}
+
+export interface EvmRpcClient {
+  call<T>(method: string, params: unknown[]): Promise<T>;
+  batch<T>(calls: { method: string; params: unknown[] }[]): Promise<T[]>;
+}
+
+export function createHttpEvmRpc(url: string): EvmRpcClient {
+  let nextId = 0;
+
+  const post = async (body: unknown) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`EVM RPC error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  const unwrap = (data: { result?: unknown; error?: { message?: string } }) => {
+    if (data.error) {
+      throw new Error(`EVM RPC error: ${data.error.message || JSON.stringify(data.error)}`);
+    }
+    return data.result;
+  };
+
+  return {
+    async call<T>(method: string, params: unknown[]): Promise<T> {
+      return unwrap(await post({ jsonrpc: "2.0", id: ++nextId, method, params })) as T;
+    },
+    async batch<T>(calls: { method: string; params: unknown[] }[]): Promise<T[]> {
+      if (calls.length === 0) return [];
+      const requests = calls.map(c => ({ jsonrpc: "2.0", id: ++nextId, method: c.method, params: c.params }));
+      const responses: { id: number; result?: unknown; error?: { message?: string } }[] = await post(requests);
+      const byId = new Map(responses.map(r => [r.id, r] as const));
+      return requests.map(r => {
+        const response = byId.get(r.id);
+        if (!response) throw new Error(`EVM RPC error: missing response for ${r.method}`);
+        return unwrap(response) as T;
+      });
+    },
+  };
+}
+
+function toHex(value: number): string {
+  return `0x${value.toString(16)}`;
+}
+
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(26)}`.toLowerCase();
+}
+
+function addressToTopic(address: string): string {
+  return `0x${address.slice(2).toLowerCase().padStart(64, "0")}`;
+}
+
+export function formatUnits(value: bigint, decimals: number): string {
+  if (decimals === 0) return value.toString();
+  const digits = value.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+// ERC-20 symbol() is usually an ABI string but some old tokens return bytes32
+function decodeSymbol(hex: string | null): string | null {
+  if (!hex || hex === "0x") return null;
+  const data = Buffer.from(hex.slice(2), "hex");
+  let bytes: Buffer;
+  if (data.length >= 64) {
+    const length = parseInt(data.subarray(32, 64).toString("hex"), 16);
+    bytes = data.subarray(64, 64 + length);
+  } else {
+    bytes = data.subarray(0, 32);
+  }
+  const symbol = bytes.toString("utf8").replace(/\u0000/g, "").trim();
+  return symbol || null;
+}
+
+async function getTokenMetadata(
+  rpc: EvmRpcClient,
+  token: string
+): Promise<{ decimals: number; symbol: string | null }> {
+  const call = (data: string) =>
+    rpc.call<string>("eth_call", [{ to: token, data }, "latest"]).catch(() => null);
+  const [decimalsHex, symbolHex] = await Promise.all([call(DECIMALS_SELECTOR), call(SYMBOL_SELECTOR)]);
+  const decimals = decimalsHex && decimalsHex !== "0x" ? parseInt(decimalsHex, 16) : 18;
+  return { decimals: isNaN(decimals) ? 18 : decimals, symbol: decodeSymbol(symbolHex) };
+}
+
+/**
+ * Fee paid by the wallet for each transaction it sent, in native units:
+ * gas used times the effective gas price, plus the L1 data fee on rollups
+ * that charge one. Transactions sent by someone else cost the wallet
+ * nothing and are left out.
+ */
+export async function fetchGasFees(
+  rpc: EvmRpcClient,
+  hashes: string[],
+  walletAddress: string
+): Promise<Map<string, string>> {
+  const wallet = walletAddress.toLowerCase();
+  const unique = Array.from(new Set(hashes));
+  const fees = new Map<string, string>();
+
+  for (let i = 0; i < unique.length; i += RECEIPT_BATCH_SIZE) {
+    const batch = unique.slice(i, i + RECEIPT_BATCH_SIZE);
+    const receipts = await rpc.batch<RpcReceipt | null>(
+      batch.map(hash => ({ method: "eth_getTransactionReceipt", params: [hash] }))
+    );
+    const needGasPrice: RpcReceipt[] = [];
+    receipts.forEach(receipt => {
+      if (!receipt || receipt.from.toLowerCase() !== wallet) return;
+      if (!receipt.effectiveGasPrice) {
+        needGasPrice.push(receipt);
+        return;
+      }
+      fees.set(receipt.transactionHash, formatUnits(receiptFee(receipt, receipt.effectiveGasPrice), 18));
+    });
+
+    const txs = await rpc.batch<{ gasPrice: string } | null>(
+      needGasPrice.map(r => ({ method: "eth_getTransactionByHash", params: [r.transactionHash] }))
+    );
+    needGasPrice.forEach((receipt, j) => {
+      const gasPrice = txs[j]?.gasPrice;
+      if (gasPrice) {
+        fees.set(receipt.transactionHash, formatUnits(receiptFee(receipt, gasPrice), 18));
+      }
+    });
+  }
+
+  return fees;
+}
+
+function receiptFee(receipt: RpcReceipt, gasPrice: string): bigint {
+  const l1Fee = receipt.l1Fee ? BigInt(receipt.l1Fee) : BigInt(0);
+  return BigInt(receipt.gasUsed) * BigInt(gasPrice) + l1Fee;
+}
+
+/**
+ * The called address and call data of each transaction, for decoding the
+ * method it invoked.
+ */
+export async function fetchTransactionCalls(
+  rpc: EvmRpcClient,
+  hashes: string[]
+): Promise<Map<string, EvmCall>> {
+  const unique = Array.from(new Set(hashes));
+  const calls = new Map<string, EvmCall>();
+
+  for (let i = 0; i < unique.length; i += RECEIPT_BATCH_SIZE) {
+    const batch = unique.slice(i, i + RECEIPT_BATCH_SIZE);
+    const txs = await rpc.batch<{ hash: string; to: string | null; input: string } | null>(
+      batch.map(hash => ({ method: "eth_getTransactionByHash", params: [hash] }))
+    );
+    txs.forEach(tx => {
+      if (tx) {
+        calls.set(tx.hash, { to: tx.to?.toLowerCase() ?? null, input: tx.input });
+      }
+    });
+  }
+
+  return calls;
+}
+
+/**
+ * Generic EVM provider for chains without an indexer API. ERC-20 and
+ * ERC-721 movements come from Transfer logs filtered on the wallet, native
+ * transfers from reading the blocks in range, gas fees from receipts and
+ * call data from the transactions themselves. Internal (contract-initiated)
+ * native transfers and ERC-1155 transfers are not visible this way.
+ *
+ * Every sync scans at most maxPages ranges and reports the last block it
+ * scanned as the cursor, so later syncs walk forward from there. A first
+ * or full sync starts at the chain's configured startBlock; without one it
+ * covers only the most recent ranges and reports the fetch as truncated,
+ * since everything older is skipped.
+ */
+export function createEvmRpcProvider(
+  configs: Record<string, EvmChainConfig> = getEvmChainConfigs(),
+  clientFor: (config: EvmChainConfig) => EvmRpcClient = config => createHttpEvmRpc(config.rpcUrl)
+): ChainProvider {
+  return {
+    name: "evm-rpc",
+    chains: Object.keys(configs),
+    isConfigured: () => true,
+    configurationHint: "Set <CHAIN>_RPC_URL or EVM_RPC_CHAINS to point this chain at a JSON-RPC endpoint.",
+
+    async fetchTransactions(
+      walletAddress: string,
+      chain: string,
+      walletId: string,
+      options: FetchOptions = {}
+    ): Promise<FetchResult> {
+      const config = configs[chain];
+      if (!config) {
+        return { transactions: [], error: `No RPC endpoint configured for ${chain}` };
+      }
+
+      const rpc = clientFor(config);
+      const wallet = walletAddress.toLowerCase();
+      const blockRange = config.blockRange ?? DEFAULT_BLOCK_RANGE;
+      const maxRanges = options.maxPages ?? DEFAULT_MAX_RANGES;
+      const stats: FetchStats = { pages: 0, transfers: 0, latestBlock: null, truncated: false };
+
+      try {
+        const head = parseInt(await rpc.call<string>("eth_blockNumber", []), 16);
+        let start: number;
+        if (options.fromBlock != null) {
+          start = options.fromBlock + 1;
+        } else if (config.startBlock != null) {
+          start = config.startBlock;
+        } else {
+          start = Math.max(0, head - maxRanges * blockRange + 1);
+          stats.truncated = start > 0;
+        }
+        const end = Math.min(head, start + maxRanges * blockRange - 1);
+
+        if (start > end) {
+          stats.latestBlock = options.fromBlock ?? head;
+          stats.cursorBlock = stats.latestBlock;
+          return { transactions: [], stats };
+        }
+
+        const logs = new Map<string, RpcLog>();
+        const blockTimes = new Map<number, string>();
+        const transfers: EvmTransfer[] = [];
+
+        for (let from = start; from <= end; from += blockRange) {
+          const to = Math.min(end, from + blockRange - 1);
+          const range = { fromBlock: toHex(from), toBlock: toHex(to) };
+
+          const [sent, received] = await Promise.all([
+            rpc.call<RpcLog[]>("eth_getLogs", [{ ...range, topics: [TRANSFER_TOPIC, addressToTopic(wallet)] }]),
+            rpc.call<RpcLog[]>("eth_getLogs", [{ ...range, topics: [TRANSFER_TOPIC, null, addressToTopic(wallet)] }]),
+          ]);
+          // A transfer to self matches both filters
+          sent.concat(received).forEach(log => logs.set(`${log.transactionHash}:${log.logIndex}`, log));
+
+          if (config.scanNativeTransfers !== false) {
+            for (let batchStart = from; batchStart <= to; batchStart += BLOCK_BATCH_SIZE) {
+              const numbers: number[] = [];
+              for (let n = batchStart; n <= Math.min(to, batchStart + BLOCK_BATCH_SIZE - 1); n++) {
+                numbers.push(n);
+              }
+              const blocks = await rpc.batch<RpcBlock | null>(
+                numbers.map(n => ({ method: "eth_getBlockByNumber", params: [toHex(n), true] }))
+              );
+              for (const block of blocks) {
+                if (!block) continue;
+                const blockNumber = parseInt(block.number, 16);
+                const timestamp = new Date(parseInt(block.timestamp, 16) * 1000).toISOString();
+                blockTimes.set(blockNumber, timestamp);
+
+                for (const tx of block.transactions) {
+                  const value = BigInt(tx.value);
+                  if (value === BigInt(0)) continue;
+                  if (tx.from.toLowerCase() !== wallet && tx.to?.toLowerCase() !== wallet) continue;
+                  transfers.push({
+                    hash: tx.hash,
+                    blockNumber,
+                    timestamp,
+                    from: tx.from.toLowerCase(),
+                    to: tx.to?.toLowerCase() ?? null,
+                    value: parseFloat(formatUnits(value, 18)),
+                    asset: config.nativeSymbol,
+                    category: "external",
+                    contractAddress: null,
+                  });
+                }
+              }
+            }
+          }
+
+          stats.pages++;
+        }
+
+        // Timestamps for log blocks we did not already read
+        const missing = Array.from(new Set(
+          Array.from(logs.values()).map(log => parseInt(log.blockNumber, 16))
+        )).filter(n => !blockTimes.has(n));
+        for (let i = 0; i < missing.length; i += BLOCK_BATCH_SIZE) {
+          const blocks = await rpc.batch<RpcBlock | null>(
+            missing.slice(i, i + BLOCK_BATCH_SIZE).map(n => ({ method: "eth_getBlockByNumber", params: [toHex(n), false] }))
+          );
+          blocks.forEach(block => {
+            if (block) {
+              blockTimes.set(parseInt(block.number, 16), new Date(parseInt(block.timestamp, 16) * 1000).toISOString());
+            }
+          });
+        }
+
+        const metadata = new Map<string, { decimals: number; symbol: string | null }>();
+        for (const log of Array.from(logs.values())) {
+          const token = log.address.toLowerCase();
+          const blockNumber = parseInt(log.blockNumber, 16);
+          // ERC-721 indexes the token id as a fourth topic and has no amount
+          const isNft = log.topics.length === 4;
+
+          if (!metadata.has(token)) {
+            metadata.set(token, await getTokenMetadata(rpc, token));
+          }
+          const meta = metadata.get(token)!;
+          const value = !isNft && log.data && log.data !== "0x"
+            ? parseFloat(formatUnits(BigInt(log.data), meta.decimals))
+            : null;
+
+          transfers.push({
+            hash: log.transactionHash,
+            blockNumber,
+            timestamp: blockTimes.get(blockNumber) ?? new Date().toISOString(),
+            from: topicToAddress(log.topics[1]),
+            to: topicToAddress(log.topics[2]),
+            value,
+            asset: meta.symbol,
+            category: isNft ? "erc721" : "erc20",
+            contractAddress: token,
+          });
+        }
+
+        stats.transfers = transfers.length;
+        stats.latestBlock = end;
+        stats.cursorBlock = end;
+        const hashes = transfers.map(t => t.hash);
+        const gasFees = await fetchGasFees(rpc, hashes, walletAddress);
+        const calls = await fetchTransactionCalls(rpc, hashes);
+        const transactions = buildEvmTransactions(transfers, walletAddress, chain, walletId, gasFees, calls);
+        return { transactions, stats };
+      } catch (error) {
+        console.error(`Error fetching from ${chain} RPC:`, error);
+        return {
+          transactions: [],
+          error: error instanceof Error ? error.message : `Failed to fetch transactions from ${chain} RPC`,
+        };
+      }
+    },
+  };
+}
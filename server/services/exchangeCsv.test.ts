@@ -0,0 +1,85 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { detectExchange, parseExchangeCsv } from "./exchangeCsv";
+
+const BINANCE_CSV = readFileSync(new URL("./fixtures/binance.csv", import.meta.url), "utf8");
+
+const HEADER = `"User_ID","UTC_Time","Account","Operation","Coin","Change","Remark"`;
+const binanceCsv = (...rows: string[]) =>
+  [HEADER, ...rows.map(row => `"38112742","2024-02-01 12:00:00","Spot",${row},""`)].join("\n");
+
+describe("Binance transaction history", () => {
+  const result = parseExchangeCsv(BINANCE_CSV, "binance");
+  const byRow = (row: number) => result.transactions.find(t => t.row === row)?.transaction;
+
+  test("is detected from its header", () => {
+    assert.equal(detectExchange(BINANCE_CSV), "binance");
+    assert.deepEqual(result.columns.filter(c => !c.column).map(c => c.field), []);
+  });
+
+  test("combines the legs and fee of a spot trade filled in parts", () => {
+    const trade = byRow(4)!;
+    assert.equal(trade.classification, "swap");
+    assert.deepEqual(
+      [trade.tokenInAmount, trade.tokenInSymbol, trade.tokenOutAmount, trade.tokenOutSymbol],
+      ["0.04", "BTC", "2800", "USDT"]
+    );
+    assert.deepEqual([trade.gasFee, trade.feeSymbol, trade.gasFeeUsd], ["0.0021", "BNB", null]);
+    assert.equal(trade.valueUsd, "2800.00");
+    assert.equal(trade.timestamp.toISOString(), "2024-01-03T14:02:55.000Z");
+  });
+
+  test("turns a convert into a swap valued by its stablecoin leg", () => {
+    const convert = byRow(9)!;
+    assert.equal(convert.classification, "swap");
+    assert.deepEqual([convert.tokenOutAmount, convert.tokenOutSymbol], ["0.5", "ETH"]);
+    assert.deepEqual([convert.tokenInAmount, convert.tokenInSymbol], ["1120.35", "USDT"]);
+    assert.equal(convert.valueUsd, "1120.35");
+  });
+
+  test("maps deposits, withdrawals and interest", () => {
+    assert.deepEqual([byRow(2)!.classification, byRow(2)!.tokenInSymbol], ["transfer", "USDT"]);
+    assert.deepEqual([byRow(11)!.classification, byRow(11)!.tokenInAmount], ["interest", "0.4123"]);
+    assert.deepEqual([byRow(20)!.classification, byRow(20)!.tokenOutAmount, byRow(20)!.tokenOutSymbol], ["transfer", "0.02", "BTC"]);
+  });
+
+  test("skips fiat deposits and moves between wallets", () => {
+    assert.equal(result.skipped, 2);
+    assert.equal(byRow(3), undefined);
+    assert.equal(byRow(12), undefined);
+  });
+
+  test("rejects conversions it cannot hold as one swap", () => {
+    assert.deepEqual(result.errors, [
+      { row: 13, message: "Trade sent more than one coin (DOGE, SHIB)" },
+      { row: 16, message: "Trade has fees in more than one coin (BNB, USDT)" },
+    ]);
+    assert.deepEqual(result.transactions.map(t => t.row), [2, 4, 9, 11, 20]);
+  });
+
+  test("rejects a trade that received more than one coin", () => {
+    const parsed = parseExchangeCsv(binanceCsv(
+      `"Binance Convert","USDT","-100"`,
+      `"Binance Convert","ETH","0.02"`,
+      `"Binance Convert","BTC","0.001"`,
+    ), "binance");
+    assert.deepEqual(parsed.errors, [{ row: 2, message: "Trade received more than one coin (ETH, BTC)" }]);
+  });
+
+  test("rejects a trade with only one side", () => {
+    const parsed = parseExchangeCsv(binanceCsv(`"Transaction Buy","BTC","0.01"`), "binance");
+    assert.deepEqual(parsed.errors, [{ row: 2, message: "Trade is missing its sent or received leg" }]);
+  });
+
+  test("fees in USD are kept apart from the coin fee", () => {
+    const parsed = parseExchangeCsv(binanceCsv(
+      `"Buy","ETH","1"`,
+      `"Sell","USD","-2500"`,
+      `"Fee","USD","-2.5"`,
+    ), "binance");
+    assert.deepEqual(parsed.errors, []);
+    const trade = parsed.transactions[0].transaction;
+    assert.deepEqual([trade.gasFeeUsd, trade.gasFee, trade.valueUsd], ["2.50", null, "2500.00"]);
+  });
+});
@@ -0,0 +1,643 @@
+import { createHash } from "crypto";
+import {
+  FIAT_CURRENCIES,
+  USD_STABLECOINS,
+  type Exchange,
+  type ExchangeColumnMapping,
+  type ExchangeImportPreview,
+  type ImportRowError,
+  type InsertTransaction,
+} from "../../shared/schema";
+import { parseCsvRecords } from "./csv";
+
+export type ImportedTransaction = Omit<InsertTransaction, "walletId">;
+
+export interface ExchangeParseResult {
+  exchange: Exchange;
+  columns: ExchangeColumnMapping[];
+  transactions: { row: number; transaction: ImportedTransaction }[];
+  errors: ImportRowError[];
+  // Rows that parsed fine but carry nothing to import (fiat deposits,
+  // moves between sub-accounts of the same exchange)
+  skipped: number;
+  totalRows: number;
+}
+
+interface Leg {
+  symbol: string;
+  amount: number;
+}
+
+interface CsvRecord {
+  row: number;
+  values: Record<string, string>;
+}
+
+interface ColumnSpec {
+  field: string;
+  headers: string[];
+  required: boolean;
+}
+
+interface ExchangeFormat {
+  exchange: Exchange;
+  columns: ColumnSpec[];
+  isHeader(cells: string[]): boolean;
+  convert(records: CsvRecord[], get: (record: CsvRecord, field: string) => string): {
+    transactions: { row: number; transaction: ImportedTransaction }[];
+    errors: ImportRowError[];
+    skipped: number;
+  };
+}
+
+class RowError extends Error {}
+
+const FIAT = new Set<string>(FIAT_CURRENCIES);
+const STABLECOINS = new Set<string>(USD_STABLECOINS);
+
+function isFiat(symbol: string): boolean {
+  return FIAT.has(symbol.toUpperCase());
+}
+
+// USD itself or a dollar stablecoin, worth its face value in USD
+function isUsdLike(symbol: string): boolean {
+  const upper = symbol.toUpperCase();
+  return upper === "USD" || STABLECOINS.has(upper);
+}
+
+function parseNumber(value: string): number {
+  const cleaned = value.replace(/[$€£,\s]/g, "");
+  return cleaned === "" ? NaN : parseFloat(cleaned);
+}
+
+function parseTimestamp(value: string): Date {
+  // Exports use "2024-01-15T10:30:00Z", "2024-01-15 10:30:00 UTC" or a bare UTC time
+  let normalized = value.trim().replace(" UTC", "Z").replace(" ", "T");
+  if (!/(Z|[+-]\d\d:?\d\d)$/.test(normalized)) normalized += "Z";
+  const date = new Date(normalized);
+  if (isNaN(date.getTime())) {
+    throw new RowError(`Invalid timestamp "${value}"`);
+  }
+  return date;
+}
+
+function requireAmount(value: string, label: string): number {
+  const amount = parseNumber(value);
+  if (isNaN(amount)) {
+    throw new RowError(`Invalid ${label} "${value}"`);
+  }
+  return amount;
+}
+
+function formatAmount(value: number): string {
+  return parseFloat(Math.abs(value).toFixed(12)).toString();
+}
+
+function rowHash(exchange: Exchange, parts: string[]): string {
+  return `${exchange}:${createHash("sha1").update(parts.join("|")).digest("hex").slice(0, 32)}`;
+}
+
+function getConfidence(classification: string): string {
+  return classification === "unknown" ? "0.0" : "0.9";
+}
+
+function buildTransaction(
+  exchange: Exchange,
+  fields: {
+    txHash: string;
+    timestamp: Date;
+    classification: string;
+    received?: Leg | null;
+    sent?: Leg | null;
+    valueUsd?: number | null;
+    feeUsd?: number | null;
+    // Fee taken in a crypto asset; it is disposed of like a network fee
+    // and priced with the rest of the import
+    fee?: Leg | null;
+    note?: string | null;
+  }
+): ImportedTransaction {
+  const { received, sent } = fields;
+  const value = fields.valueUsd ?? null;
+  const fee = fields.fee && fields.fee.amount > 0 ? fields.fee : null;
+  const feeUsd = fee ? (isUsdLike(fee.symbol) ? fee.amount : null) : fields.feeUsd ?? null;
+
+  // Price the crypto leg; fiat legs are worth their face value
+  const pricedLeg = [received, sent].find(leg => leg && !isFiat(leg.symbol) && leg.amount > 0);
+  const priceAtTime = value !== null && pricedLeg ? value / Math.abs(pricedLeg.amount) : null;
+
+  return {
+    txHash: fields.txHash,
+    chain: exchange,
+    timestamp: fields.timestamp,
+    blockNumber: null,
+    tokenIn: null,
+    tokenInAmount: received ? formatAmount(received.amount) : null,
+    tokenInSymbol: received?.symbol ?? null,
+    tokenOut: null,
+    tokenOutAmount: sent ? formatAmount(sent.amount) : null,
+    tokenOutSymbol: sent?.symbol ?? null,
+    classification: fields.classification,
+    classificationConfidence: getConfidence(fields.classification),
+    needsReview: fields.classification === "unknown",
+    userClassified: false,
+    contractAddress: null,
+    methodName: fields.note || null,
+    gasFee: fee ? formatAmount(fee.amount) : null,
+    gasFeeUsd: feeUsd != null ? feeUsd.toFixed(2) : null,
+    feeSymbol: fee?.symbol ?? null,
+    priceAtTime: priceAtTime !== null ? priceAtTime.toFixed(8) : null,
+    valueUsd: value !== null ? value.toFixed(2) : null,
+    isSpam: false,
+    isDust: false,
+  };
+}
+
+// USD value of a trade when one side is USD or a dollar stablecoin
+function usdLegValue(...legs: (Leg | null | undefined)[]): number | null {
+  const usd = legs.find(leg => leg && isUsdLike(leg.symbol));
+  return usd ? Math.abs(usd.amount) : null;
+}
+
+// --- Coinbase ---
+
+const COINBASE_INCOME: Record<string, string> = {
+  "rewards income": "reward",
+  "staking income": "reward",
+  "inflation reward": "reward",
+  "learning reward": "income",
+  "coinbase earn": "income",
+  "interest": "interest",
+};
+
+const coinbase: ExchangeFormat = {
+  exchange: "coinbase",
+  columns: [
+    { field: "id", headers: ["ID"], required: false },
+    { field: "timestamp", headers: ["Timestamp"], required: true },
+    { field: "type", headers: ["Transaction Type"], required: true },
+    { field: "asset", headers: ["Asset"], required: true },
+    { field: "quantity", headers: ["Quantity Transacted"], required: true },
+    { field: "priceCurrency", headers: ["Price Currency", "Spot Price Currency"], required: false },
+    { field: "price", headers: ["Price at Transaction", "Spot Price at Transaction"], required: false },
+    { field: "subtotal", headers: ["Subtotal"], required: false },
+    { field: "fees", headers: ["Fees and/or Spread"], required: false },
+    { field: "notes", headers: ["Notes"], required: false },
+  ],
+  isHeader: cells => cells.includes("Timestamp") && cells.includes("Transaction Type"),
+  convert(records, get) {
+    const transactions: { row: number; transaction: ImportedTransaction }[] = [];
+    const errors: ImportRowError[] = [];
+    let skipped = 0;
+
+    for (const record of records) {
+      try {
+        const type = get(record, "type").trim();
+        const lowerType = type.toLowerCase();
+        const asset = get(record, "asset").toUpperCase();
+        const quantity = Math.abs(requireAmount(get(record, "quantity"), "quantity"));
+        const timestamp = parseTimestamp(get(record, "timestamp"));
+        const currency = (get(record, "priceCurrency") || "USD").toUpperCase();
+        const price = parseNumber(get(record, "price"));
+        const subtotal = Math.abs(parseNumber(get(record, "subtotal")));
+        const fees = Math.abs(parseNumber(get(record, "fees")));
+        const notes = get(record, "notes");
+        const inUsd = isUsdLike(currency);
+        const marketValue = inUsd && !isNaN(price) ? quantity * price : null;
+        const txHash = get(record, "id")
+          ? `coinbase:${get(record, "id")}`
+          : rowHash("coinbase", Object.values(record.values));
+
+        if (!asset) throw new RowError("Missing asset");
+        if (isFiat(asset)) {
+          skipped++;
+          continue;
+        }
+
+        const feeUsd = inUsd && !isNaN(fees) ? fees : null;
+        const quote: Leg | null = !isNaN(subtotal) ? { symbol: currency, amount: subtotal } : null;
+        let transaction: ImportedTransaction;
+
+        if (lowerType.endsWith("buy")) {
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: "swap",
+            received: { symbol: asset, amount: quantity },
+            sent: quote,
+            valueUsd: inUsd && quote ? quote.amount : marketValue,
+            feeUsd, note: type,
+          });
+        } else if (lowerType.endsWith("sell")) {
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: "swap",
+            received: quote,
+            sent: { symbol: asset, amount: quantity },
+            valueUsd: inUsd && quote ? quote.amount : marketValue,
+            feeUsd, note: type,
+          });
+        } else if (lowerType === "convert") {
+          // "Converted 0.5 ETH to 1,000.00 USDC"
+          const match = notes.match(/Converted ([\d.,]+) (\S+) to ([\d.,]+) (\S+)/i);
+          if (!match) throw new RowError("Could not read the converted assets from Notes");
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: "swap",
+            sent: { symbol: match[2].toUpperCase(), amount: parseNumber(match[1]) },
+            received: { symbol: match[4].toUpperCase(), amount: parseNumber(match[3]) },
+            valueUsd: inUsd && quote ? quote.amount : marketValue,
+            feeUsd, note: type,
+          });
+        } else if (lowerType === "send" || lowerType === "withdrawal") {
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: "transfer",
+            sent: { symbol: asset, amount: quantity },
+            valueUsd: marketValue, feeUsd, note: type,
+          });
+        } else if (lowerType === "receive" || lowerType === "deposit") {
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: "transfer",
+            received: { symbol: asset, amount: quantity },
+            valueUsd: marketValue, note: type,
+          });
+        } else if (COINBASE_INCOME[lowerType]) {
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: COINBASE_INCOME[lowerType],
+            received: { symbol: asset, amount: quantity },
+            valueUsd: marketValue, note: type,
+          });
+        } else {
+          transaction = buildTransaction("coinbase", {
+            txHash, timestamp, classification: "unknown",
+            received: { symbol: asset, amount: quantity },
+            valueUsd: marketValue, note: type,
+          });
+        }
+
+        transactions.push({ row: record.row, transaction });
+      } catch (error) {
+        if (!(error instanceof RowError)) throw error;
+        errors.push({ row: record.row, message: error.message });
+      }
+    }
+
+    return { transactions, errors, skipped };
+  },
+};
+
+// --- Kraken ---
+
+// Kraken prefixes legacy asset codes with X (crypto) or Z (fiat)
+const KRAKEN_ASSETS: Record<string, string> = {
+  XXBT: "BTC", XBT: "BTC", XXDG: "DOGE", XDG: "DOGE",
+  XETH: "ETH", XLTC: "LTC", XXRP: "XRP", XXLM: "XLM", XETC: "ETC",
+  XZEC: "ZEC", XXMR: "XMR", XREP: "REP", XMLN: "MLN",
+  ZUSD: "USD", ZEUR: "EUR", ZGBP: "GBP", ZCAD: "CAD", ZJPY: "JPY", ZAUD: "AUD", ZCHF: "CHF",
+};
+
+function normalizeKrakenAsset(asset: string): string {
+  const upper = asset.toUpperCase();
+  // Staked balances carry a suffix such as ETH2.S or DOT.S
+  const base = upper.replace(/\.(S|M|P|F)$/, "").replace(/^ETH2$/, "ETH");
+  return KRAKEN_ASSETS[base] ?? base;
+}
+
+const kraken: ExchangeFormat = {
+  exchange: "kraken",
+  columns: [
+    { field: "txid", headers: ["txid"], required: false },
+    { field: "refid", headers: ["refid"], required: true },
+    { field: "time", headers: ["time"], required: true },
+    { field: "type", headers: ["type"], required: true },
+    { field: "subtype", headers: ["subtype"], required: false },
+    { field: "asset", headers: ["asset"], required: true },
+    { field: "amount", headers: ["amount"], required: true },
+    { field: "fee", headers: ["fee"], required: false },
+  ],
+  isHeader: cells => cells.includes("refid") && cells.includes("asset") && cells.includes("amount"),
+  convert(records, get) {
+    const transactions: { row: number; transaction: ImportedTransaction }[] = [];
+    const errors: ImportRowError[] = [];
+    let skipped = 0;
+
+    // Both legs of a trade share a refid
+    const confirmed = new Set(records.filter(r => get(r, "txid") !== "").map(r => get(r, "refid")));
+    const groups = new Map<string, CsvRecord[]>();
+    for (const record of records) {
+      // Rows without a txid are unconfirmed duplicates of later rows
+      if (get(record, "txid") === "" && confirmed.has(get(record, "refid"))) {
+        skipped++;
+        continue;
+      }
+      const refid = get(record, "refid");
+      groups.set(refid, [...(groups.get(refid) ?? []), record]);
+    }
+
+    groups.forEach((group, refid) => {
+      const first = group[0];
+      try {
+        if (!refid) throw new RowError("Missing refid");
+        const type = get(first, "type").toLowerCase();
+        const subtype = get(first, "subtype").toLowerCase();
+        const timestamp = parseTimestamp(get(first, "time"));
+        const legs = group.map(record => ({
+          symbol: normalizeKrakenAsset(get(record, "asset")),
+          amount: requireAmount(get(record, "amount"), "amount"),
+          fee: Math.abs(parseNumber(get(record, "fee")) || 0),
+        }));
+        const received = legs.find(leg => leg.amount > 0) ?? null;
+        const sentLeg = legs.find(leg => leg.amount < 0);
+        const sent = sentLeg ? { symbol: sentLeg.symbol, amount: Math.abs(sentLeg.amount) } : null;
+        const usdFee = legs.filter(leg => leg.symbol === "USD").reduce((sum, leg) => sum + leg.fee, 0);
+        const feeUsd = usdFee > 0 ? usdFee : null;
+        // Kraken charges the fee in one of the assets traded
+        const cryptoFeeLeg = legs.find(leg => leg.fee > 0 && !isFiat(leg.symbol));
+        const fee = cryptoFeeLeg ? { symbol: cryptoFeeLeg.symbol, amount: cryptoFeeLeg.fee } : null;
+        const txHash = `kraken:${refid}`;
+        let transaction: ImportedTransaction | null = null;
+
+        if (type === "trade" || type === "spend" || type === "receive") {
+          if (!received || !sent) throw new RowError("Trade is missing its sent or received leg");
+          transaction = buildTransaction("kraken", {
+            txHash, timestamp, classification: "swap",
+            received, sent, valueUsd: usdLegValue(received, sent), feeUsd, fee, note: type,
+          });
+        } else if (type === "deposit" && received && !isFiat(received.symbol)) {
+          transaction = buildTransaction("kraken", {
+            txHash, timestamp, classification: "transfer", received, note: type,
+          });
+        } else if (type === "withdrawal" && sent && !isFiat(sent.symbol)) {
+          transaction = buildTransaction("kraken", {
+            txHash, timestamp, classification: "transfer", sent, fee, note: type,
+          });
+        } else if (type === "staking" || type === "dividend" || (type === "earn" && subtype === "reward")) {
+          if (received) {
+            transaction = buildTransaction("kraken", {
+              txHash, timestamp, classification: "reward", received, fee, note: type,
+            });
+          }
+        } else if (type === "transfer" || type === "earn" || type === "deposit" || type === "withdrawal") {
+          // Moves between spot, staking and earn balances, and fiat funding
+          transaction = null;
+        } else {
+          transaction = buildTransaction("kraken", {
+            txHash, timestamp, classification: "unknown", received, sent, note: type,
+          });
+        }
+
+        if (transaction) {
+          transactions.push({ row: first.row, transaction });
+        } else {
+          skipped += group.length;
+        }
+      } catch (error) {
+        if (!(error instanceof RowError)) throw error;
+        errors.push({ row: first.row, message: error.message });
+      }
+    });
+
+    return { transactions, errors, skipped };
+  },
+};
+
+// --- Binance ---
+
+// Operations that make up one side of a spot trade or conversion; rows
+// sharing a timestamp and account are combined into a single swap
+const BINANCE_TRADE_OPERATIONS = new Set([
+  "buy",
+  "sell",
+  "transaction buy",
+  "transaction spend",
+  "transaction sold",
+  "transaction revenue",
+  "transaction related",
+  "small assets exchange bnb",
+  "binance convert",
+  "large otc trading",
+  "auto-invest transaction",
+]);
+
+const BINANCE_FEE_OPERATIONS = new Set(["fee", "transaction fee"]);
+
+const BINANCE_INCOME: Record<string, string> = {
+  "staking rewards": "reward",
+  "eth 2.0 staking rewards": "reward",
+  "simple earn locked rewards": "reward",
+  "bnb vault rewards": "reward",
+  "launchpool interest": "interest",
+  "simple earn flexible interest": "interest",
+  "savings interest": "interest",
+  "pos savings interest": "interest",
+  "commission history": "income",
+  "referral commission": "income",
+  "cashback voucher": "income",
+  "airdrop assets": "airdrop",
+  "distribution": "airdrop",
+};
+
+function isBinanceInternal(operation: string): boolean {
+  return operation.startsWith("transfer between") ||
+    operation.includes("subscription") ||
+    operation.includes("redemption") ||
+    operation === "main and funding account transfer";
+}
+
+const binance: ExchangeFormat = {
+  exchange: "binance",
+  columns: [
+    { field: "time", headers: ["UTC_Time"], required: true },
+    { field: "account", headers: ["Account"], required: false },
+    { field: "operation", headers: ["Operation"], required: true },
+    { field: "coin", headers: ["Coin"], required: true },
+    { field: "change", headers: ["Change"], required: true },
+    { field: "remark", headers: ["Remark"], required: false },
+  ],
+  isHeader: cells => cells.includes("UTC_Time") && cells.includes("Operation"),
+  convert(records, get) {
+    const transactions: { row: number; transaction: ImportedTransaction }[] = [];
+    const errors: ImportRowError[] = [];
+    let skipped = 0;
+
+    const trades = new Map<string, CsvRecord[]>();
+    for (const record of records) {
+      try {
+        const operation = get(record, "operation").toLowerCase();
+        const coin = get(record, "coin").toUpperCase();
+        const change = requireAmount(get(record, "change"), "change");
+        const timestamp = parseTimestamp(get(record, "time"));
+        const txHash = rowHash("binance", Object.values(record.values));
+
+        if (BINANCE_TRADE_OPERATIONS.has(operation) || BINANCE_FEE_OPERATIONS.has(operation)) {
+          const key = `${get(record, "time")}|${get(record, "account")}`;
+          trades.set(key, [...(trades.get(key) ?? []), record]);
+          continue;
+        }
+
+        const leg = { symbol: coin, amount: Math.abs(change) };
+        if (isBinanceInternal(operation) || isFiat(coin)) {
+          skipped++;
+        } else if (operation === "deposit") {
+          transactions.push({ row: record.row, transaction: buildTransaction("binance", {
+            txHash, timestamp, classification: "transfer", received: leg, note: get(record, "operation"),
+          }) });
+        } else if (operation === "withdraw") {
+          transactions.push({ row: record.row, transaction: buildTransaction("binance", {
+            txHash, timestamp, classification: "transfer", sent: leg, note: get(record, "operation"),
+          }) });
+        } else {
+          const classification = BINANCE_INCOME[operation] ?? "unknown";
+          transactions.push({ row: record.row, transaction: buildTransaction("binance", {
+            txHash, timestamp, classification,
+            received: change > 0 ? leg : null,
+            sent: change < 0 ? leg : null,
+            note: get(record, "operation"),
+          }) });
+        }
+      } catch (error) {
+        if (!(error instanceof RowError)) throw error;
+        errors.push({ row: record.row, message: error.message });
+      }
+    }
+
+    trades.forEach(group => {
+      const first = group[0];
+      try {
+        // Sum per coin so partial fills at the same second net out
+        const totals = new Map<string, number>();
+        let feeUsd = 0;
+        // Usually BNB, or the coin bought when BNB fees are off
+        let feeCoin: string | null = null;
+        let feeAmount = 0;
+        for (const record of group) {
+          const coin = get(record, "coin").toUpperCase();
+          const change = requireAmount(get(record, "change"), "change");
+          if (BINANCE_FEE_OPERATIONS.has(get(record, "operation").toLowerCase())) {
+            if (coin === "USD") {
+              feeUsd += Math.abs(change);
+            } else if (feeCoin === null || feeCoin === coin) {
+              feeCoin = coin;
+              feeAmount += Math.abs(change);
+            } else {
+              throw new RowError(`Trade has fees in more than one coin (${feeCoin}, ${coin})`);
+            }
+            continue;
+          }
+          totals.set(coin, (totals.get(coin) ?? 0) + change);
+        }
+
+        // A swap carries one leg per side; a conversion of several coins at
+        // once (such as dust to BNB) has to be entered as separate trades
+        const legs = Array.from(totals.entries());
+        const inLegs = legs.filter(([, amount]) => amount > 0);
+        const outLegs = legs.filter(([, amount]) => amount < 0);
+        if (inLegs.length === 0 || outLegs.length === 0) {
+          throw new RowError("Trade is missing its sent or received leg");
+        }
+        if (inLegs.length > 1) {
+          throw new RowError(`Trade received more than one coin (${inLegs.map(([coin]) => coin).join(", ")})`);
+        }
+        if (outLegs.length > 1) {
+          throw new RowError(`Trade sent more than one coin (${outLegs.map(([coin]) => coin).join(", ")})`);
+        }
+        const received: Leg = { symbol: inLegs[0][0], amount: inLegs[0][1] };
+        const sent: Leg = { symbol: outLegs[0][0], amount: Math.abs(outLegs[0][1]) };
+
+        transactions.push({ row: first.row, transaction: buildTransaction("binance", {
+          txHash: rowHash("binance", group.map(r => Object.values(r.values).join(","))),
+          timestamp: parseTimestamp(get(first, "time")),
+          classification: "swap",
+          received,
+          sent,
+          valueUsd: usdLegValue(received, sent),
+          feeUsd: feeUsd > 0 ? feeUsd : null,
+          fee: feeCoin ? { symbol: feeCoin, amount: feeAmount } : null,
+          note: get(first, "operation"),
+        }) });
+      } catch (error) {
+        if (!(error instanceof RowError)) throw error;
+        errors.push({ row: first.row, message: error.message });
+      }
+    });
+
+    transactions.sort((a, b) => a.row - b.row);
+    return { transactions, errors, skipped };
+  },
+};
+
+const FORMATS: Record<Exchange, ExchangeFormat> = { coinbase, kraken, binance };
+
+/**
+ * Guesses the exchange from the CSV header row.
+ */
+export function detectExchange(csv: string): Exchange | null {
+  for (const format of Object.values(FORMATS)) {
+    if (parseCsvRecords(csv, format.isHeader).headers.length > 0) {
+      return format.exchange;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses an exchange export into transactions. Rows that fail validation
+ * are reported in errors with their row number and left out; the rest can
+ * still be imported.
+ */
+export function parseExchangeCsv(csv: string, exchange: Exchange): ExchangeParseResult {
+  const format = FORMATS[exchange];
+  const { headers, records } = parseCsvRecords(csv, format.isHeader);
+
+  const columns: ExchangeColumnMapping[] = format.columns.map(spec => ({
+    field: spec.field,
+    column: spec.headers.find(h => headers.includes(h)) ?? null,
+    required: spec.required,
+  }));
+  const columnFor = new Map(columns.map(c => [c.field, c.column] as const));
+
+  const missing = columns.filter(c => c.required && !c.column);
+  if (headers.length === 0 || missing.length > 0) {
+    return {
+      exchange,
+      columns,
+      transactions: [],
+      errors: [{
+        row: 0,
+        message: headers.length === 0
+          ? `Could not find the ${exchange} header row`
+          : `Missing required columns: ${missing.map(c => c.field).join(", ")}`,
+      }],
+      skipped: 0,
+      totalRows: records.length,
+    };
+  }
+
+  const get = (record: CsvRecord, field: string) => {
+    const column = columnFor.get(field);
+    return column ? (record.values[column] ?? "").trim() : "";
+  };
+
+  const result = format.convert(records, get);
+  return { exchange, columns, ...result, totalRows: records.length };
+}
+
+const PREVIEW_ROWS = 50;
+
+export function toImportPreview(result: ExchangeParseResult): ExchangeImportPreview {
+  return {
+    exchange: result.exchange,
+    columns: result.columns,
+    rows: result.transactions.slice(0, PREVIEW_ROWS).map(({ row, transaction }) => ({
+      row,
+      timestamp: transaction.timestamp.toISOString(),
+      txHash: transaction.txHash,
+      classification: transaction.classification,
+      tokenInSymbol: transaction.tokenInSymbol,
+      tokenInAmount: transaction.tokenInAmount,
+      tokenOutSymbol: transaction.tokenOutSymbol,
+      tokenOutAmount: transaction.tokenOutAmount,
+      valueUsd: transaction.valueUsd,
+    })),
+    totalRows: result.totalRows,
+    validRows: result.transactions.length,
+    skippedRows: result.skipped,
+    errors: result.errors,
+  };
+}
@@ -0,0 +1,51 @@
+import type { Wallet } from "../../shared/schema";
+import { storage } from "../storage";
+import type { ImportedTransaction } from "./exchangeCsv";
+import { applyRules } from "./rules";
+import { backfillPrices } from "./pricing";
+import { linkSelfTransfers } from "./selfTransfers";
+import { refreshSpamFlags } from "./spam";
+
+/**
+ * Stores parsed exchange transactions on an exchange wallet. Rows already
+ * imported (same txHash) are skipped, so re-uploading an overlapping export
+ * is safe. User rules apply as they do for synced transactions.
+ */
+export async function importExchangeTransactions(
+  wallet: Wallet,
+  transactions: ImportedTransaction[]
+): Promise<{ imported: number; skipped: number }> {
+  const existingHashes = await storage.getExistingTransactionHashes(
+    transactions.map(tx => tx.txHash),
+    wallet.userId
+  );
+  const rules = await storage.getRules(wallet.userId);
+
+  let imported = 0;
+  let skipped = 0;
+  for (const tx of transactions) {
+    if (existingHashes.has(tx.txHash)) {
+      skipped++;
+      continue;
+    }
+    existingHashes.add(tx.txHash);
+    await storage.createTransaction(applyRules(rules, { ...tx, walletId: wallet.id }));
+    imported++;
+  }
+
+  if (imported > 0) {
+    // Trades quoted in USD or a stablecoin carry their value; the rest and
+    // fees taken in crypto are priced by symbol from market data
+    try {
+      await backfillPrices(wallet.userId, { walletId: wallet.id });
+    } catch (err) {
+      console.error("Error pricing imported transactions:", err);
+    }
+    await refreshSpamFlags(wallet.userId);
+    // Deposits and withdrawals pair up with the user's on-chain wallets
+    await linkSelfTransfers(wallet.userId);
+    await storage.recalculateCostBasis(wallet.userId);
+  }
+
+  return { imported, skipped };
+}
@@ -0,0 +1,178 @@
+import { createHash } from "crypto";
+import {
+  manualTransactionSchema,
+  MANUAL_IMPORT_COLUMNS,
+  type ImportRowError,
+  type InsertTransaction,
+  type ManualImportResult,
+  type ManualTransaction,
+  type Transaction,
+  type Wallet,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { parseCsvRecords } from "./csv";
+import { applyRules } from "./rules";
+import { backfillPrices } from "./pricing";
+import { linkSelfTransfers } from "./selfTransfers";
+import { refreshSpamFlags } from "./spam";
+
+const TEMPLATE_EXAMPLE: Record<string, string> = {
+  walletId: "<wallet id>",
+  txHash: "",
+  timestamp: "2024-03-01T14:30:00Z",
+  tokenInAmount: "0.5",
+  tokenInSymbol: "ETH",
+  tokenOutAmount: "1500",
+  tokenOutSymbol: "USDC",
+  classification: "swap",
+  methodName: "OTC trade",
+  valueUsd: "1500.00",
+};
+
+/**
+ * Import template: one column per MANUAL_IMPORT_COLUMNS field with an
+ * example row. JSON imports take an array of objects with the same keys.
+ */
+export function getImportTemplate(format: "csv" | "json"): string {
+  const example = MANUAL_IMPORT_COLUMNS.map(column => TEMPLATE_EXAMPLE[column] ?? "");
+  if (format === "json") {
+    const row: Record<string, string> = {};
+    MANUAL_IMPORT_COLUMNS.forEach((column, i) => {
+      if (example[i]) row[column] = example[i];
+    });
+    return JSON.stringify([row], null, 2);
+  }
+  return `${MANUAL_IMPORT_COLUMNS.join(",")}\n${example.join(",")}\n`;
+}
+
+/**
+ * Validates import rows. CSV rows are numbered by line, JSON rows by their
+ * 1-based array position. walletId falls back to defaultWalletId so a file
+ * for a single wallet can leave the column out.
+ */
+export function parseManualImport(
+  data: string | Record<string, unknown>[],
+  defaultWalletId?: string
+): { rows: { row: number; transaction: ManualTransaction }[]; errors: ImportRowError[] } {
+  const records = typeof data === "string"
+    ? parseCsvRecords(data).records
+    : data.map((values, i) => ({ row: i + 1, values }));
+
+  const rows: { row: number; transaction: ManualTransaction }[] = [];
+  const errors: ImportRowError[] = [];
+
+  for (const record of records) {
+    const values: Record<string, unknown> = { ...record.values };
+    if (!values.walletId && defaultWalletId) values.walletId = defaultWalletId;
+
+    const parsed = manualTransactionSchema.safeParse(values);
+    if (parsed.success) {
+      rows.push({ row: record.row, transaction: parsed.data });
+    } else {
+      errors.push({
+        row: record.row,
+        message: parsed.error.errors.map(e => `${e.path.join(".") || "row"}: ${e.message}`).join("; "),
+      });
+    }
+  }
+
+  return { rows, errors };
+}
+
+// Same inputs give the same hash, so importing a file twice is a no-op
+function manualTxHash(tx: ManualTransaction): string {
+  const parts = [
+    tx.walletId,
+    tx.timestamp.toISOString(),
+    tx.tokenInAmount, tx.tokenInSymbol,
+    tx.tokenOutAmount, tx.tokenOutSymbol,
+  ].map(part => part ?? "");
+  return `manual:${createHash("sha1").update(parts.join("|")).digest("hex").slice(0, 32)}`;
+}
+
+function toInsertTransaction(tx: ManualTransaction, wallet: Wallet): InsertTransaction {
+  const classified = !!tx.classification;
+  return {
+    walletId: wallet.id,
+    txHash: tx.txHash || manualTxHash(tx),
+    chain: wallet.chain,
+    timestamp: tx.timestamp,
+    blockNumber: tx.blockNumber ?? null,
+    tokenIn: tx.tokenIn ?? null,
+    tokenInAmount: tx.tokenInAmount ?? null,
+    tokenInSymbol: tx.tokenInSymbol ?? null,
+    tokenOut: tx.tokenOut ?? null,
+    tokenOutAmount: tx.tokenOutAmount ?? null,
+    tokenOutSymbol: tx.tokenOutSymbol ?? null,
+    // An explicit classification counts as the user's own; otherwise
+    // rules get a chance and the row goes to review
+    classification: tx.classification ?? "unknown",
+    classificationConfidence: classified ? "1.0" : "0.0",
+    needsReview: !classified,
+    userClassified: classified,
+    contractAddress: tx.contractAddress ?? null,
+    methodName: tx.methodName ?? null,
+    gasFee: tx.gasFee ?? null,
+    gasFeeUsd: tx.gasFeeUsd ?? null,
+    priceAtTime: tx.priceAtTime ?? null,
+    valueUsd: tx.valueUsd ?? null,
+    isSpam: false,
+    isDust: false,
+  };
+}
+
+/**
+ * Stores manually entered transactions for a user. Rows whose txHash the
+ * user already has are skipped, as are rows for wallets they do not own.
+ */
+export async function createManualTransactions(
+  userId: string,
+  rows: { row: number; transaction: ManualTransaction }[]
+): Promise<ManualImportResult & { created: Transaction[] }> {
+  const wallets = new Map((await storage.getWallets(userId)).map(w => [w.id, w] as const));
+  const rules = await storage.getRules(userId);
+  const errors: ImportRowError[] = [];
+
+  const candidates: { row: number; tx: InsertTransaction }[] = [];
+  for (const { row, transaction } of rows) {
+    const wallet = wallets.get(transaction.walletId);
+    if (!wallet) {
+      errors.push({ row, message: `Wallet ${transaction.walletId} not found` });
+      continue;
+    }
+    candidates.push({ row, tx: toInsertTransaction(transaction, wallet) });
+  }
+
+  const existingHashes = await storage.getExistingTransactionHashes(
+    candidates.map(c => c.tx.txHash),
+    userId
+  );
+
+  const created: Transaction[] = [];
+  let skipped = 0;
+  for (const { tx } of candidates) {
+    if (existingHashes.has(tx.txHash)) {
+      skipped++;
+      continue;
+    }
+    existingHashes.add(tx.txHash);
+    created.push(await storage.createTransaction(tx.userClassified ? tx : applyRules(rules, tx)));
+  }
+
+  if (created.length > 0) {
+    if (created.some(tx => !tx.valueUsd || !tx.priceAtTime)) {
+      try {
+        await backfillPrices(userId, { transactionIds: created.map(tx => tx.id) });
+      } catch (err) {
+        console.error("Error pricing manual transactions:", err);
+      }
+    }
+    // Values entered by hand skip the backfill
+    await storage.refreshDustFlags(userId);
+    await refreshSpamFlags(userId);
+    await linkSelfTransfers(userId);
+    await storage.recalculateCostBasis(userId);
+  }
+
+  return { imported: created.length, skipped, errors, created };
+}
@@ -0,0 +1,168 @@
+import type { ContractAbi, InsertTransaction, MethodArgument } from "../../shared/schema";
+import { storage } from "../storage";
+import { decodeArguments, parseSignature, signaturesFromAbi, type ParsedSignature } from "./abi";
+
+// Functions common enough on EVM chains to recognize without an ABI.
+// Parameter names are only used for display.
+const KNOWN_SIGNATURES = [
+  // ERC-20 and WETH
+  "transfer(address to, uint256 amount)",
+  "transferFrom(address from, address to, uint256 amount)",
+  "approve(address spender, uint256 amount)",
+  "increaseAllowance(address spender, uint256 addedValue)",
+  "decreaseAllowance(address spender, uint256 subtractedValue)",
+  "permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "deposit()",
+  "withdraw(uint256 amount)",
+  // NFTs
+  "safeTransferFrom(address from, address to, uint256 tokenId)",
+  "safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+  "setApprovalForAll(address operator, bool approved)",
+  "mint(uint256 amount)",
+  "mint(address to, uint256 amount)",
+  "burn(uint256 amount)",
+  // Uniswap V2 style routers
+  "swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+  "swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)",
+  "swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+  "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+  "addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+  "addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+  "removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+  "removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+  // Uniswap V3 and the Universal Router
+  "exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160) params)",
+  "exactInput((bytes,address,uint256,uint256,uint256) params)",
+  "exactOutputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160) params)",
+  "exactOutput((bytes,address,uint256,uint256,uint256) params)",
+  "multicall(bytes[] data)",
+  "multicall(uint256 deadline, bytes[] data)",
+  "execute(bytes commands, bytes[] inputs)",
+  "execute(bytes commands, bytes[] inputs, uint256 deadline)",
+  // 1inch
+  "swap(address executor, (address,address,address,address,uint256,uint256,uint256) desc, bytes permit, bytes data)",
+  "unoswap(address srcToken, uint256 amount, uint256 minReturn, uint256[] pools)",
+  // Lending
+  "supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+  "deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+  "borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)",
+  "repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf)",
+  "withdraw(address asset, uint256 amount, address to)",
+  "redeem(uint256 redeemTokens)",
+  // Staking and rewards
+  "stake(uint256 amount)",
+  "unstake(uint256 amount)",
+  "getReward()",
+  "claim()",
+  "claimRewards()",
+  "exit()",
+  "submit(address referral)",
+  "delegate(address delegatee)",
+  // Multicall
+  "aggregate((address,bytes)[] calls)",
+];
+
+const BUNDLED = new Map<string, ParsedSignature>();
+for (const text of KNOWN_SIGNATURES) {
+  const signature = parseSignature(text);
+  BUNDLED.set(signature.selector, signature);
+}
+
+export interface DecodedMethod {
+  selector: string;
+  name: string;
+  signature: string;
+  // Null when the selector is known but the data does not fit it
+  args: MethodArgument[] | null;
+}
+
+export type MethodDecoder = (input: string, chain: string, contractAddress: string | null) => DecodedMethod | null;
+
+/**
+ * Builds a decoder over a user's ABIs and the bundled signatures. An ABI
+ * tied to the called contract wins over one without an address, and both
+ * win over the bundled list.
+ */
+export function createMethodDecoder(abis: ContractAbi[] = []): MethodDecoder {
+  const userSignatures = abis.map(abi => ({
+    chain: abi.chain,
+    contractAddress: abi.contractAddress?.toLowerCase() ?? null,
+    bySelector: new Map(signaturesFromAbi(abi.abi).map(sig => [sig.selector, sig] as const)),
+  }));
+  // Contract-specific ABIs first
+  userSignatures.sort((a, b) => (a.contractAddress ? 0 : 1) - (b.contractAddress ? 0 : 1));
+
+  return (input, chain, contractAddress) => {
+    const hex = input.toLowerCase();
+    if (!/^0x[0-9a-f]{8}/.test(hex)) return null;
+    const selector = hex.slice(0, 10);
+    const contract = contractAddress?.toLowerCase() ?? null;
+
+    const fromUser = userSignatures.find(entry =>
+      (!entry.chain || entry.chain === chain) &&
+      (!entry.contractAddress || entry.contractAddress === contract) &&
+      entry.bySelector.has(selector)
+    );
+    const signature = fromUser?.bySelector.get(selector) ?? BUNDLED.get(selector);
+    if (!signature) return null;
+
+    let args: MethodArgument[] | null = null;
+    try {
+      args = decodeArguments(signature, hex);
+    } catch {
+      // Same selector, different function, or truncated data
+    }
+    return { selector, name: signature.name, signature: signature.signature, args };
+  };
+}
+
+type MethodFields = Pick<InsertTransaction, "chain" | "contractAddress" | "inputData" | "methodName" | "methodSelector" | "methodArgs">;
+
+/**
+ * Fills methodName, methodSelector and methodArgs from the transaction's
+ * call data. Transactions without call data keep whatever method name
+ * their source gave them.
+ */
+export function decodeTransactionMethod<T extends MethodFields>(decoder: MethodDecoder, tx: T): T {
+  if (!tx.inputData || tx.inputData.length < 10) return tx;
+  const decoded = decoder(tx.inputData, tx.chain, tx.contractAddress ?? null);
+  return {
+    ...tx,
+    methodSelector: tx.inputData.slice(0, 10).toLowerCase(),
+    methodName: decoded?.name ?? null,
+    methodArgs: decoded?.args ?? null,
+  };
+}
+
+/**
+ * Decodes every stored transaction of the user's that has call data again,
+ * after their ABIs changed. Returns how many rows changed.
+ */
+export async function redecodeTransactionMethods(userId: string): Promise<number> {
+  const decoder = createMethodDecoder(await storage.getContractAbis(userId));
+  const userTransactions = await storage.getTransactions({ userId });
+
+  let updated = 0;
+  for (const tx of userTransactions) {
+    if (!tx.inputData) continue;
+    const decoded = decodeTransactionMethod(decoder, tx);
+    if (decoded.methodName === tx.methodName &&
+        JSON.stringify(decoded.methodArgs) === JSON.stringify(tx.methodArgs)) {
+      continue;
+    }
+    await storage.updateTransaction(tx.id, {
+      methodName: decoded.methodName,
+      methodSelector: decoded.methodSelector,
+      methodArgs: decoded.methodArgs,
+    });
+    updated++;
+  }
+  return updated;
+}
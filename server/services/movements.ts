@@ -0,0 +1,36 @@
+import type { InsertTransaction, MovementLeg } from "../../shared/schema";
+
+type LegColumns = Pick<
+  InsertTransaction,
+  "tokenIn" | "tokenInAmount" | "tokenInSymbol" | "tokenOut" | "tokenOutAmount" | "tokenOutSymbol"
+>;
+
+/**
+ * The legs recorded in a transaction's tokenIn/tokenOut columns. Used for
+ * sources that only ever have one leg per side (exchange exports, manual
+ * entry) and for transactions stored before movements existed.
+ */
+export function legsFromTransaction(tx: LegColumns): MovementLeg[] {
+  const legs: MovementLeg[] = [];
+  if (tx.tokenInAmount && parseFloat(tx.tokenInAmount) > 0) {
+    legs.push({ direction: "in", token: tx.tokenIn ?? null, tokenSymbol: tx.tokenInSymbol ?? null, amount: tx.tokenInAmount });
+  }
+  if (tx.tokenOutAmount && parseFloat(tx.tokenOutAmount) > 0) {
+    legs.push({ direction: "out", token: tx.tokenOut ?? null, tokenSymbol: tx.tokenOutSymbol ?? null, amount: tx.tokenOutAmount });
+  }
+  return legs;
+}
+
+/**
+ * Splits a USD total across legs: in proportion to each leg's own value
+ * when every leg is priced, evenly otherwise.
+ */
+export function allocateValue(total: number, legValues: (number | null)[]): number[] {
+  if (legValues.length === 0) return [];
+  const known = legValues.filter((v): v is number => v !== null);
+  const sum = known.reduce((acc, v) => acc + v, 0);
+  if (known.length === legValues.length && sum > 0) {
+    return legValues.map(v => total * ((v as number) / sum));
+  }
+  return legValues.map(() => total / legValues.length);
+}
@@ -0,0 +1,87 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { NATIVE_TOKEN, createCsvProvider, getPriceProvider, isNativeSymbol, toPriceDay } from "./priceProviders";
+
+const PRICES_CSV = fileURLToPath(new URL("./fixtures/prices.csv", import.meta.url));
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+
+describe("CSV price provider", () => {
+  const provider = createCsvProvider(PRICES_CSV);
+
+  test("prices native assets by symbol", async () => {
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: NATIVE_TOKEN, symbol: "ETH", day: "2024-01-15" }), 2512.34);
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: NATIVE_TOKEN, symbol: "eth", day: "2024-01-15" }), 2512.34);
+  });
+
+  test("prices tokens by contract address, ignoring case, per day", async () => {
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: USDC, symbol: null, day: "2024-01-15" }), 0.9998);
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: USDC.toUpperCase(), symbol: null, day: "2024-01-16" }), 1.0001);
+  });
+
+  test("keeps chains apart", async () => {
+    assert.equal(await provider.getPrice({ chain: "solana", contractAddress: "symbol:usdc", symbol: "USDC", day: "2024-01-15" }), 1.0002);
+    assert.equal(await provider.getPrice({ chain: "solana", contractAddress: NATIVE_TOKEN, symbol: "SOL", day: "2024-01-15" }), 95.1);
+    assert.equal(await provider.getPrice({ chain: "base", contractAddress: NATIVE_TOKEN, symbol: "ETH", day: "2024-01-15" }), null);
+  });
+
+  test("falls back to the symbol for an unknown contract", async () => {
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: "0x0000000000000000000000000000000000000001", symbol: "USDC", day: "2024-01-15" }), 0.9998);
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: "0x0000000000000000000000000000000000000001", symbol: null, day: "2024-01-15" }), null);
+  });
+
+  test("misses days it has no row for", async () => {
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: NATIVE_TOKEN, symbol: "ETH", day: "2024-01-16" }), null);
+  });
+
+  test("skips rows without a chain or a numeric price", async () => {
+    assert.equal(await provider.getPrice({ chain: "ethereum", contractAddress: "symbol:broken", symbol: "BROKEN", day: "2024-01-15" }), null);
+    assert.equal(await provider.getPrice({ chain: "", contractAddress: NATIVE_TOKEN, symbol: "ETH", day: "2024-01-15" }), null);
+  });
+});
+
+describe("price provider selection", () => {
+  const withEnv = (env: Record<string, string | undefined>, fn: () => void) => {
+    const saved = Object.keys(env).map(key => [key, process.env[key]] as const);
+    for (const key of Object.keys(env)) {
+      if (env[key] === undefined) delete process.env[key];
+      else process.env[key] = env[key];
+    }
+    try {
+      fn();
+    } finally {
+      for (const [key, value] of saved) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  };
+
+  test("reads the CSV file named by PRICE_CSV_PATH", () => {
+    withEnv({ PRICE_PROVIDER: "csv", PRICE_CSV_PATH: PRICES_CSV }, () => {
+      assert.equal(getPriceProvider().name, "csv");
+    });
+  });
+
+  test("requires a path for the CSV provider and rejects unknown providers", () => {
+    withEnv({ PRICE_PROVIDER: "csv", PRICE_CSV_PATH: undefined }, () => {
+      assert.throws(() => getPriceProvider(), /PRICE_CSV_PATH/);
+    });
+    withEnv({ PRICE_PROVIDER: "oracle" }, () => {
+      assert.throws(() => getPriceProvider(), /Unknown price provider/);
+    });
+  });
+});
+
+describe("price helpers", () => {
+  test("price days are UTC dates", () => {
+    assert.equal(toPriceDay(new Date("2024-01-15T23:59:59Z")), "2024-01-15");
+    assert.equal(toPriceDay(new Date("2024-01-16T00:00:00+02:00")), "2024-01-15");
+  });
+
+  test("native symbols are per chain", () => {
+    assert.equal(isNativeSymbol("polygon", "pol"), true);
+    assert.equal(isNativeSymbol("polygon", "ETH"), false);
+    assert.equal(isNativeSymbol("ethereum", null), false);
+  });
+});
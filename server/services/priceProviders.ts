@@ -0,0 +1,181 @@
+import { readFileSync } from "fs";
+import { NATIVE_SYMBOLS } from "../../shared/schema";
+
+// Contract address used in the price cache for a chain's native asset
+export const NATIVE_TOKEN = "native";
+
+// Prefix for cache keys of tokens known only by symbol (no contract address)
+export const SYMBOL_PREFIX = "symbol:";
+
+export interface PriceQuery {
+  chain: string;
+  contractAddress: string;
+  symbol: string | null;
+  day: string; // YYYY-MM-DD (UTC)
+}
+
+export interface PriceProvider {
+  name: string;
+  getPrice(query: PriceQuery): Promise<number | null>;
+}
+
+export function toPriceDay(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+export function isNativeSymbol(chain: string, symbol: string | null): boolean {
+  return !!symbol && (NATIVE_SYMBOLS[chain] || []).includes(symbol.toUpperCase());
+}
+
+// CoinGecko ids for native assets and asset platforms
+const COINGECKO_NATIVE_IDS: Record<string, string> = {
+  ethereum: "ethereum",
+  arbitrum: "ethereum",
+  optimism: "ethereum",
+  base: "ethereum",
+  polygon: "matic-network",
+  avalanche: "avalanche-2",
+  bsc: "binancecoin",
+  solana: "solana",
+  bitcoin: "bitcoin",
+};
+
+// CoinGecko ids for tokens known only by symbol, which is how exchange
+// exports and manual imports name them. Limited to assets whose ticker is
+// unambiguous enough to trust without a contract address.
+const COINGECKO_SYMBOL_IDS: Record<string, string> = {
+  BTC: "bitcoin",
+  ETH: "ethereum",
+  SOL: "solana",
+  BNB: "binancecoin",
+  MATIC: "matic-network",
+  POL: "polygon-ecosystem-token",
+  AVAX: "avalanche-2",
+  XRP: "ripple",
+  ADA: "cardano",
+  DOGE: "dogecoin",
+  DOT: "polkadot",
+  LTC: "litecoin",
+  LINK: "chainlink",
+  UNI: "uniswap",
+  ATOM: "cosmos",
+  XLM: "stellar",
+  ETC: "ethereum-classic",
+  TRX: "tron",
+  ARB: "arbitrum",
+  OP: "optimism",
+  AAVE: "aave",
+  USDT: "tether",
+  USDC: "usd-coin",
+  DAI: "dai",
+  BUSD: "binance-usd",
+  TUSD: "true-usd",
+  USDP: "paxos-standard",
+  PYUSD: "paypal-usd",
+  FDUSD: "first-digital-usd",
+  GUSD: "gemini-dollar",
+};
+
+const COINGECKO_PLATFORMS: Record<string, string> = {
+  ethereum: "ethereum",
+  arbitrum: "arbitrum-one",
+  optimism: "optimistic-ethereum",
+  base: "base",
+  polygon: "polygon-pos",
+  avalanche: "avalanche",
+  bsc: "binance-smart-chain",
+  solana: "solana",
+};
+
+export function createCoinGeckoProvider(): PriceProvider {
+  const apiKey = process.env.COINGECKO_API_KEY;
+  const baseUrl = process.env.COINGECKO_API_URL || "https://api.coingecko.com/api/v3";
+  const headers: Record<string, string> = apiKey ? { "x-cg-demo-api-key": apiKey } : {};
+
+  const getJson = async (url: string) => {
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  };
+
+  const getCoinPrice = async (id: string, priceDay: string): Promise<number | null> => {
+    const [year, month, day] = priceDay.split("-");
+    const data = await getJson(`${baseUrl}/coins/${id}/history?date=${day}-${month}-${year}&localization=false`);
+    return data?.market_data?.current_price?.usd ?? null;
+  };
+
+  return {
+    name: "coingecko",
+    async getPrice(query) {
+      if (query.contractAddress === NATIVE_TOKEN) {
+        const id = COINGECKO_NATIVE_IDS[query.chain];
+        return id ? getCoinPrice(id, query.day) : null;
+      }
+
+      if (query.contractAddress.startsWith(SYMBOL_PREFIX)) {
+        const id = query.symbol ? COINGECKO_SYMBOL_IDS[query.symbol.toUpperCase()] : undefined;
+        return id ? getCoinPrice(id, query.day) : null;
+      }
+
+      const platform = COINGECKO_PLATFORMS[query.chain];
+      if (!platform) return null;
+      const from = Math.floor(new Date(`${query.day}T00:00:00Z`).getTime() / 1000);
+      const to = from + 24 * 60 * 60;
+      const data = await getJson(
+        `${baseUrl}/coins/${platform}/contract/${query.contractAddress}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`
+      );
+      const prices: [number, number][] = data?.prices || [];
+      return prices.length > 0 ? prices[0][1] : null;
+    },
+  };
+}
+
+/**
+ * Offline provider backed by a CSV file with the columns
+ * chain,contract_address,symbol,date,price_usd. Rows may leave
+ * contract_address empty to price by symbol only.
+ */
+export function createCsvProvider(path: string): PriceProvider {
+  const byContract = new Map<string, number>();
+  const bySymbol = new Map<string, number>();
+
+  const lines = readFileSync(path, "utf-8").split(/\r?\n/).filter(line => line.trim());
+  for (const line of lines.slice(1)) {
+    const [chain, contractAddress, symbol, day, price] = line.split(",").map(v => v.trim());
+    const value = parseFloat(price);
+    if (!chain || !day || isNaN(value)) continue;
+    if (contractAddress) {
+      byContract.set(`${chain}:${contractAddress.toLowerCase()}:${day}`, value);
+    }
+    if (symbol) {
+      bySymbol.set(`${chain}:${symbol.toUpperCase()}:${day}`, value);
+    }
+  }
+
+  return {
+    name: "csv",
+    async getPrice(query) {
+      const contractPrice = byContract.get(`${query.chain}:${query.contractAddress.toLowerCase()}:${query.day}`);
+      if (contractPrice !== undefined) return contractPrice;
+      if (!query.symbol) return null;
+      return bySymbol.get(`${query.chain}:${query.symbol.toUpperCase()}:${query.day}`) ?? null;
+    },
+  };
+}
+
+export function getPriceProvider(): PriceProvider {
+  const provider = process.env.PRICE_PROVIDER || "coingecko";
+  switch (provider) {
+    case "csv":
+      if (!process.env.PRICE_CSV_PATH) {
+        throw new Error("PRICE_CSV_PATH is required when PRICE_PROVIDER=csv");
+      }
+      return createCsvProvider(process.env.PRICE_CSV_PATH);
+    case "coingecko":
+      return createCoinGeckoProvider();
+    default:
+      throw new Error(`Unknown price provider: ${provider}`);
+  }
+}
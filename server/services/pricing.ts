@@ -0,0 +1,201 @@
+import {
+  NATIVE_SYMBOLS,
+  type Transaction,
+  type InsertTransaction,
+  type MovementLeg,
+  type TransactionMovement,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { legsFromTransaction } from "./movements";
+import {
+  NATIVE_TOKEN,
+  SYMBOL_PREFIX,
+  getPriceProvider,
+  isNativeSymbol,
+  toPriceDay,
+  type PriceProvider,
+  type PriceQuery,
+} from "./priceProviders";
+
+/**
+ * Looks up a daily USD price, reading through the token_prices cache.
+ * Provider misses are not cached so they can be retried later; provider
+ * errors are thrown.
+ */
+export async function getHistoricalPrice(
+  provider: PriceProvider,
+  query: PriceQuery
+): Promise<number | null> {
+  const cached = await storage.getTokenPrice(query.chain, query.contractAddress, query.day);
+  if (cached) return parseFloat(cached.priceUsd);
+
+  const price = await provider.getPrice(query);
+  if (price === null || !isFinite(price)) return null;
+
+  await storage.upsertTokenPrice({
+    chain: query.chain,
+    contractAddress: query.contractAddress,
+    day: query.day,
+    priceUsd: price.toFixed(8),
+    source: provider.name,
+  });
+  return price;
+}
+
+function legQuery(
+  chain: string,
+  address: string | null,
+  symbol: string | null,
+  day: string
+): PriceQuery | null {
+  if (address) {
+    // EVM addresses are case-insensitive; Solana mints are base58 and are not
+    const contractAddress = address.startsWith("0x") ? address.toLowerCase() : address;
+    return { chain, contractAddress, symbol, day };
+  }
+  if (isNativeSymbol(chain, symbol)) {
+    return { chain, contractAddress: NATIVE_TOKEN, symbol, day };
+  }
+  return symbol ? { chain, contractAddress: `${SYMBOL_PREFIX}${symbol.toLowerCase()}`, symbol, day } : null;
+}
+
+export interface PricedTransaction {
+  update: Partial<InsertTransaction>;
+  // USD value of each movement, in the order given; null when unpriced
+  movementValues: (number | null)[];
+  // False when a provider lookup failed, so a missing price may only be
+  // missing for now
+  complete: boolean;
+}
+
+/**
+ * Prices a single transaction and each of its movements. valueUsd totals
+ * the received legs since that is the fair market value of what was
+ * acquired; the sent legs are used when the received ones cannot all be
+ * priced. priceAtTime is the unit price of the first priced leg counted.
+ */
+export async function priceTransaction(
+  provider: PriceProvider,
+  tx: Transaction,
+  movements: MovementLeg[] = legsFromTransaction(tx)
+): Promise<PricedTransaction> {
+  const day = toPriceDay(new Date(tx.timestamp));
+  const update: Partial<InsertTransaction> = {};
+  let complete = true;
+  const lookup = async (query: PriceQuery | null): Promise<number | null> => {
+    if (!query) return null;
+    try {
+      return await getHistoricalPrice(provider, query);
+    } catch (error) {
+      console.error(`Price lookup failed for ${query.chain}:${query.contractAddress} on ${query.day}:`, error);
+      complete = false;
+      return null;
+    }
+  };
+
+  const prices: (number | null)[] = [];
+  for (const movement of movements) {
+    prices.push(await lookup(legQuery(tx.chain, movement.token ?? null, movement.tokenSymbol ?? null, day)));
+  }
+  const movementValues = movements.map((movement, i) => {
+    const price = prices[i];
+    return price !== null ? parseFloat(movement.amount) * price : null;
+  });
+
+  const sides = ["in", "out"]
+    .map(direction => movements.map((m, i) => (m.direction === direction ? i : -1)).filter(i => i >= 0))
+    .filter(side => side.length > 0);
+  const isPriced = (i: number) => movementValues[i] !== null;
+  const side = sides.find(s => s.every(isPriced)) ?? sides.find(s => s.some(isPriced));
+  if (side) {
+    const priced = side.filter(isPriced);
+    const value = priced.reduce((sum, i) => sum + (movementValues[i] as number), 0);
+    update.priceAtTime = (prices[priced[0]] as number).toFixed(8);
+    update.valueUsd = value.toFixed(2);
+  }
+
+  if (tx.gasFee) {
+    // Network fees are paid in the native asset; exchange fees name theirs
+    const feeQuery = tx.feeSymbol
+      ? legQuery(tx.chain, null, tx.feeSymbol, day)
+      : { chain: tx.chain, contractAddress: NATIVE_TOKEN, symbol: (NATIVE_SYMBOLS[tx.chain] || [])[0] || null, day };
+    const feePrice = await lookup(feeQuery);
+    if (feePrice !== null) {
+      update.gasFeeUsd = (parseFloat(tx.gasFee) * feePrice).toFixed(2);
+    }
+  }
+
+  return { update, movementValues, complete };
+}
+
+/**
+ * Fills priceAtTime, valueUsd and gasFeeUsd for a user's transactions, or
+ * just the given ones. Only fields that are still empty are written, so
+ * values the user or an exchange supplied are kept; force reprices every
+ * field of every row. Rows whose lookups all went through are stamped with
+ * priceCheckedAt even when no price was found and are skipped from then on
+ * unless force is set. Dust flags are brought in line with the new values
+ * afterwards; callers refresh spam flags.
+ */
+export async function backfillPrices(
+  userId: string,
+  options: { walletId?: string; transactionIds?: string[]; force?: boolean; provider?: PriceProvider } = {}
+): Promise<{ priced: number; unpriced: number; skipped: number }> {
+  const provider = options.provider ?? getPriceProvider();
+  const wanted = options.transactionIds ? new Set(options.transactionIds) : null;
+  const userTransactions = (await storage.getTransactions({ userId, walletId: options.walletId }))
+    .filter(tx => !wanted || wanted.has(tx.id));
+  const movements = await storage.getTransactionMovements(userId, options.transactionIds);
+  const movementsByTransaction = new Map<string, TransactionMovement[]>();
+  for (const movement of movements) {
+    const list = movementsByTransaction.get(movement.transactionId) ?? [];
+    list.push(movement);
+    movementsByTransaction.set(movement.transactionId, list);
+  }
+
+  let priced = 0;
+  let unpriced = 0;
+  let skipped = 0;
+
+  for (const tx of userTransactions) {
+    // Rows the provider already had nothing for are not asked about again
+    const needsPrice = !tx.priceCheckedAt && (!tx.priceAtTime || !tx.valueUsd || (!!tx.gasFee && !tx.gasFeeUsd));
+    if (!needsPrice && !options.force) {
+      skipped++;
+      continue;
+    }
+
+    // Transactions stored before movements existed are priced from their columns
+    const stored = movementsByTransaction.get(tx.id) ?? [];
+    const { update, movementValues, complete } = await priceTransaction(
+      provider,
+      tx,
+      stored.length > 0 ? stored : undefined
+    );
+    if (!options.force) {
+      if (tx.priceAtTime) delete update.priceAtTime;
+      if (tx.valueUsd) delete update.valueUsd;
+      if (tx.gasFeeUsd) delete update.gasFeeUsd;
+    }
+    if (Object.keys(update).length === 0) {
+      unpriced++;
+      if (complete) await storage.updateTransaction(tx.id, { priceCheckedAt: new Date() });
+      continue;
+    }
+    if (complete) update.priceCheckedAt = new Date();
+    await storage.updateTransaction(tx.id, update);
+    for (let i = 0; i < stored.length; i++) {
+      const value = movementValues[i];
+      if (value !== null && (options.force || !stored[i].valueUsd)) {
+        await storage.updateTransactionMovement(stored[i].id, { valueUsd: value.toFixed(2) });
+      }
+    }
+    priced++;
+  }
+
+  if (priced > 0) {
+    await storage.refreshDustFlags(userId);
+  }
+
+  return { priced, unpriced, skipped };
+}
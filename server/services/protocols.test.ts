@@ -0,0 +1,84 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { aggregateTransfers, buildEvmTransactions, type EvmCall, type EvmTransfer } from "./evm";
+import { decodeProtocol, PROTOCOL_DECODERS, type ProtocolMatch } from "./protocols";
+
+// Transfers and top-level call data for one transaction per case, against
+// the protocols' mainnet contracts. "none" cases must be left to the
+// generic heuristics.
+interface ProtocolFixture {
+  decoder: string;
+  name: string;
+  chain: string;
+  wallet: string;
+  call: EvmCall;
+  transfers: EvmTransfer[];
+  expected: ProtocolMatch | null;
+}
+
+const fixtures: ProtocolFixture[] = JSON.parse(
+  readFileSync(new URL("./fixtures/protocols.json", import.meta.url), "utf-8")
+);
+
+function contextFor(fixture: ProtocolFixture) {
+  const [tx] = aggregateTransfers(fixture.transfers, fixture.wallet);
+  const input = fixture.call.input !== "0x" ? fixture.call.input : null;
+  return {
+    chain: fixture.chain,
+    wallet: fixture.wallet,
+    tx,
+    call: fixture.call,
+    selector: input ? input.slice(0, 10) : null,
+  };
+}
+
+describe("protocol decoders", () => {
+  test("every decoder has fixtures", () => {
+    for (const decoder of PROTOCOL_DECODERS) {
+      assert.ok(fixtures.some(f => f.decoder === decoder.name), `no fixtures for ${decoder.name}`);
+    }
+  });
+
+  for (const fixture of fixtures) {
+    test(`${fixture.decoder}: ${fixture.name}`, () => {
+      assert.deepEqual(decodeProtocol(contextFor(fixture)), fixture.expected);
+    });
+  }
+
+  test("a decoder only claims its own fixtures", () => {
+    for (const decoder of PROTOCOL_DECODERS) {
+      for (const fixture of fixtures.filter(f => f.decoder !== decoder.name)) {
+        assert.equal(decoder.decode(contextFor(fixture)), null, `${decoder.name} claimed "${fixture.name}"`);
+      }
+    }
+  });
+
+  test("a matched protocol sets the stored classification and skips review", () => {
+    for (const fixture of fixtures.filter(f => f.expected)) {
+      const [tx] = buildEvmTransactions(
+        fixture.transfers,
+        fixture.wallet,
+        fixture.chain,
+        "wallet-1",
+        new Map(),
+        new Map([[fixture.transfers[0].hash, fixture.call]])
+      );
+      assert.equal(tx.classification, fixture.expected!.classification, fixture.name);
+      assert.equal(tx.classificationConfidence, fixture.expected!.confidence, fixture.name);
+      assert.equal(tx.needsReview, false, fixture.name);
+    }
+  });
+
+  test("a decoder that throws is skipped", () => {
+    const failing = { name: "failing", decode: () => { throw new Error("bad data"); } };
+    const fixture = fixtures.find(f => f.decoder === "wrapped-native")!;
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      assert.deepEqual(decodeProtocol(contextFor(fixture), [failing, ...PROTOCOL_DECODERS]), fixture.expected);
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
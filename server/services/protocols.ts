@@ -0,0 +1,314 @@
+import type { ClassificationType } from "../../shared/schema";
+import { decodeArguments, parseSignature } from "./abi";
+import { NULL_ADDRESS, type AggregatedTx, type EvmCall } from "./evm";
+
+/**
+ * What a protocol decoder gets to look at: the transfers grouped for one
+ * transaction from the wallet's point of view, and the top-level call when
+ * the provider fetched it.
+ */
+export interface ProtocolContext {
+  chain: string;
+  // Lowercase wallet address
+  wallet: string;
+  tx: AggregatedTx;
+  call: EvmCall | null;
+  // First four bytes of the call data, lowercase
+  selector: string | null;
+}
+
+export interface ProtocolMatch {
+  protocol: string;
+  classification: ClassificationType;
+  confidence: string;
+}
+
+/**
+ * Recognizes one protocol's transactions. Decoders are tried in order and
+ * the first match wins over the generic transfer heuristics, so they
+ * should only claim transactions they are sure about.
+ */
+export interface ProtocolDecoder {
+  name: string;
+  decode(context: ProtocolContext): ProtocolMatch | null;
+}
+
+function selectorsOf(...signatures: string[]): Set<string> {
+  return new Set(signatures.map(signature => parseSignature(signature).selector));
+}
+
+function lower(addresses: string[]): Set<string> {
+  return new Set(addresses.map(address => address.toLowerCase()));
+}
+
+function calls(context: ProtocolContext, contracts: Set<string>, selectors?: Set<string>): boolean {
+  const to = context.call?.to?.toLowerCase();
+  if (!to || !contracts.has(to)) return false;
+  return !selectors || (!!context.selector && selectors.has(context.selector));
+}
+
+function received(context: ProtocolContext, token: string): boolean {
+  return context.tx.tokensIn.some(t => t.address?.toLowerCase() === token);
+}
+
+function match(protocol: string, classification: ClassificationType, confidence = "0.9"): ProtocolMatch {
+  return { protocol, classification, confidence };
+}
+
+// Wrapped native tokens per chain
+const WRAPPED_NATIVE: Record<string, string> = {
+  ethereum: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
+  arbitrum: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1",
+  optimism: "0x4200000000000000000000000000000000000006",
+  base: "0x4200000000000000000000000000000000000006",
+  polygon: "0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270",
+  avalanche: "0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7",
+  bsc: "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c",
+};
+
+const WRAP = selectorsOf("deposit()");
+const UNWRAP = selectorsOf("withdraw(uint256)");
+
+export const wrappedNativeDecoder: ProtocolDecoder = {
+  name: "wrapped-native",
+  decode(context) {
+    const token = WRAPPED_NATIVE[context.chain];
+    if (!token) return null;
+    const contract = new Set([token]);
+    if (calls(context, contract, WRAP)) return match("WETH", "wrap", "0.95");
+    if (calls(context, contract, UNWRAP)) return match("WETH", "unwrap", "0.95");
+    return null;
+  },
+};
+
+const UNISWAP_V2_ROUTERS = lower([
+  "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // Uniswap V2
+  "0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F", // SushiSwap
+]);
+
+const V2_ADD_LIQUIDITY = selectorsOf(
+  "addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)",
+  "addLiquidityETH(address,uint256,uint256,uint256,address,uint256)",
+);
+
+const V2_REMOVE_LIQUIDITY = selectorsOf(
+  "removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)",
+  "removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)",
+  "removeLiquidityWithPermit(address,address,uint256,uint256,uint256,address,uint256,bool,uint8,bytes32,bytes32)",
+  "removeLiquidityETHWithPermit(address,uint256,uint256,uint256,address,uint256,bool,uint8,bytes32,bytes32)",
+  "removeLiquidityETHSupportingFeeOnTransferTokens(address,uint256,uint256,uint256,address,uint256)",
+  "removeLiquidityETHWithPermitSupportingFeeOnTransferTokens(address,uint256,uint256,uint256,address,uint256,bool,uint8,bytes32,bytes32)",
+);
+
+// NonfungiblePositionManager, same address everywhere but Base
+const UNISWAP_V3_POSITIONS = lower([
+  "0xC36442b4a4522E871399CD717aBDD847Ab11FE88",
+  "0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1", // Base
+]);
+
+const V3_ADD_LIQUIDITY = selectorsOf(
+  "mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))",
+  "increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))",
+);
+
+const V3_REMOVE_LIQUIDITY = selectorsOf(
+  "decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))",
+  "collect((uint256,address,uint128,uint128))",
+);
+
+const MULTICALL = parseSignature("multicall(bytes[])");
+
+// The position manager batches mint + refundETH or decrease + collect +
+// unwrap in one multicall; the first inner call says what it is
+function innerSelectors(context: ProtocolContext): string[] {
+  if (context.selector !== MULTICALL.selector || !context.call) return [];
+  try {
+    const [data] = decodeArguments(MULTICALL, context.call.input);
+    return (Array.isArray(data.value) ? data.value : []).map(call => call.slice(0, 10));
+  } catch {
+    return [];
+  }
+}
+
+export const uniswapLiquidityDecoder: ProtocolDecoder = {
+  name: "uniswap-liquidity",
+  decode(context) {
+    if (calls(context, UNISWAP_V2_ROUTERS, V2_ADD_LIQUIDITY)) return match("Uniswap V2", "lp_deposit");
+    if (calls(context, UNISWAP_V2_ROUTERS, V2_REMOVE_LIQUIDITY)) return match("Uniswap V2", "lp_withdraw");
+
+    if (calls(context, UNISWAP_V3_POSITIONS)) {
+      const selectors = context.selector ? [context.selector, ...innerSelectors(context)] : [];
+      if (selectors.some(s => V3_ADD_LIQUIDITY.has(s))) return match("Uniswap V3", "lp_deposit");
+      if (selectors.some(s => V3_REMOVE_LIQUIDITY.has(s))) return match("Uniswap V3", "lp_withdraw");
+    }
+    return null;
+  },
+};
+
+const AAVE_V3_POOLS: Record<string, string> = {
+  ethereum: "0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2",
+  arbitrum: "0x794a61358d6845594f94dc1db02a252b5b4814ad",
+  optimism: "0x794a61358d6845594f94dc1db02a252b5b4814ad",
+  polygon: "0x794a61358d6845594f94dc1db02a252b5b4814ad",
+  avalanche: "0x794a61358d6845594f94dc1db02a252b5b4814ad",
+  base: "0xa238dd80c259a72e81d7e4664a9801593f98d1c5",
+};
+
+const AAVE_SUPPLY = selectorsOf(
+  "supply(address,uint256,address,uint16)",
+  "supplyWithPermit(address,uint256,address,uint16,uint256,uint8,bytes32,bytes32)",
+  "deposit(address,uint256,address,uint16)",
+);
+const AAVE_WITHDRAW = selectorsOf("withdraw(address,uint256,address)");
+const AAVE_BORROW = selectorsOf("borrow(address,uint256,uint256,uint16,address)");
+const AAVE_REPAY = selectorsOf(
+  "repay(address,uint256,uint256,address)",
+  "repayWithPermit(address,uint256,uint256,address,uint256,uint8,bytes32,bytes32)",
+  "repayWithATokens(address,uint256,uint256)",
+);
+const AAVE_LIQUIDATION = parseSignature(
+  "liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)"
+);
+
+export const aaveV3Decoder: ProtocolDecoder = {
+  name: "aave-v3",
+  decode(context) {
+    const pool = AAVE_V3_POOLS[context.chain];
+    if (!pool) return null;
+    const pools = new Set([pool]);
+
+    if (calls(context, pools, AAVE_SUPPLY)) return match("Aave V3", "lp_deposit");
+    if (calls(context, pools, AAVE_WITHDRAW)) return match("Aave V3", "lp_withdraw");
+    if (calls(context, pools, AAVE_BORROW)) return match("Aave V3", "borrow");
+    if (calls(context, pools, AAVE_REPAY)) return match("Aave V3", "repay");
+
+    if (calls(context, pools, new Set([AAVE_LIQUIDATION.selector]))) {
+      // The liquidated account loses collateral; for the liquidator it is
+      // debt repaid in exchange for that collateral at a discount
+      try {
+        const user = decodeArguments(AAVE_LIQUIDATION, context.call!.input)[2].value;
+        if (user === context.wallet) return match("Aave V3", "liquidation", "0.95");
+      } catch {
+        return null;
+      }
+      return match("Aave V3", "swap", "0.8");
+    }
+    return null;
+  },
+};
+
+const STETH = "0xae7ab96520de3a18e5e111b5eaab095312d7fe84";
+const WSTETH = "0x7f39c581f595b53c5cb19bd0b3f8da6c935e2ca0";
+const LIDO_WITHDRAWAL_QUEUE = "0x889edc2edab5f40e902b864ad4d7ade8e412f9b1";
+const RETH = "0xae78736cd615f374d3085123a210448e74fc6393";
+
+const LIDO_SUBMIT = selectorsOf("submit(address)");
+const LIDO_WITHDRAW = selectorsOf(
+  "requestWithdrawals(uint256[],address)",
+  "requestWithdrawalsWstETH(uint256[],address)",
+  "claimWithdrawal(uint256)",
+  "claimWithdrawals(uint256[],uint256[])",
+);
+const WSTETH_WRAP = selectorsOf("wrap(uint256)");
+const WSTETH_UNWRAP = selectorsOf("unwrap(uint256)");
+
+function minted(context: ProtocolContext, token: string): boolean {
+  return context.tx.transfers.some(t =>
+    t.contractAddress?.toLowerCase() === token &&
+    t.from.toLowerCase() === NULL_ADDRESS &&
+    t.to?.toLowerCase() === context.wallet
+  );
+}
+
+function burned(context: ProtocolContext, token: string): boolean {
+  return context.tx.transfers.some(t =>
+    t.contractAddress?.toLowerCase() === token &&
+    t.from.toLowerCase() === context.wallet &&
+    t.to?.toLowerCase() === NULL_ADDRESS
+  );
+}
+
+export const liquidStakingDecoder: ProtocolDecoder = {
+  name: "liquid-staking",
+  decode(context) {
+    if (context.chain !== "ethereum") return null;
+
+    if (calls(context, new Set([STETH]), LIDO_SUBMIT)) return match("Lido", "stake", "0.95");
+    // Plain ETH sent to stETH is also a submit
+    if (calls(context, new Set([STETH])) && !context.selector && received(context, STETH)) {
+      return match("Lido", "stake");
+    }
+    if (calls(context, new Set([LIDO_WITHDRAWAL_QUEUE]), LIDO_WITHDRAW)) return match("Lido", "unstake");
+    if (calls(context, new Set([WSTETH]), WSTETH_WRAP)) return match("Lido", "wrap", "0.95");
+    if (calls(context, new Set([WSTETH]), WSTETH_UNWRAP)) return match("Lido", "unwrap", "0.95");
+
+    // Rocket Pool's deposit pool moves between upgrades; rETH minted or
+    // burned for the wallet is the stable signal
+    if (minted(context, RETH)) return match("Rocket Pool", "stake");
+    if (burned(context, RETH)) return match("Rocket Pool", "unstake");
+    return null;
+  },
+};
+
+// Official L1 <-> L2 bridge contracts, keyed by the chain they live on
+const CANONICAL_BRIDGES: Record<string, { protocol: string; address: string }[]> = {
+  ethereum: [
+    { protocol: "Arbitrum Bridge", address: "0x4dbd4fc535ac27206064b68ffcf827b0a60bab3f" }, // Delayed Inbox
+    { protocol: "Arbitrum Bridge", address: "0x72ce9c846789fdb6fc1f34ac4ad25dd9ef7031ef" }, // L1 Gateway Router
+    { protocol: "Arbitrum Bridge", address: "0x0b9857ae2d4a3dbe74ffe1d7df045bb7f96e4840" }, // Outbox
+    { protocol: "Optimism Bridge", address: "0x99c9fc46f92e8a1c0dec1b1747d010903e884be1" }, // L1 Standard Bridge
+    { protocol: "Optimism Bridge", address: "0xbeb5fc579115071764c7423a4f12edde41f106ed" }, // Optimism Portal
+    { protocol: "Base Bridge", address: "0x3154cf16ccdb4c6d922629664174b904d80f2c35" }, // L1 Standard Bridge
+    { protocol: "Base Bridge", address: "0x49048044d57e1c92a77f79988d21fa8faf74e97e" }, // Optimism Portal
+    { protocol: "Polygon PoS Bridge", address: "0xa0c68c638235ee32657e8f720a23cec1bfc77c77" }, // RootChainManager
+  ],
+  arbitrum: [
+    { protocol: "Arbitrum Bridge", address: "0x0000000000000000000000000000000000000064" }, // ArbSys
+    { protocol: "Arbitrum Bridge", address: "0x5288c571fd7ad117bea99bf60fe0846c4e84f933" }, // L2 Gateway Router
+  ],
+  optimism: [
+    { protocol: "Optimism Bridge", address: "0x4200000000000000000000000000000000000010" }, // L2 Standard Bridge
+    { protocol: "Optimism Bridge", address: "0x4200000000000000000000000000000000000016" }, // L2ToL1MessagePasser
+  ],
+  base: [
+    { protocol: "Base Bridge", address: "0x4200000000000000000000000000000000000010" },
+    { protocol: "Base Bridge", address: "0x4200000000000000000000000000000000000016" },
+  ],
+};
+
+export const canonicalBridgeDecoder: ProtocolDecoder = {
+  name: "canonical-bridge",
+  decode(context) {
+    const to = context.call?.to?.toLowerCase();
+    if (!to) return null;
+    const bridge = (CANONICAL_BRIDGES[context.chain] || []).find(b => b.address === to);
+    return bridge ? match(bridge.protocol, "bridge") : null;
+  },
+};
+
+export const PROTOCOL_DECODERS: ProtocolDecoder[] = [
+  wrappedNativeDecoder,
+  uniswapLiquidityDecoder,
+  aaveV3Decoder,
+  liquidStakingDecoder,
+  canonicalBridgeDecoder,
+];
+
+/**
+ * Runs the decoders in order and returns the first match. A decoder that
+ * throws on unexpected data is skipped rather than failing the sync.
+ */
+export function decodeProtocol(
+  context: ProtocolContext,
+  decoders: ProtocolDecoder[] = PROTOCOL_DECODERS
+): ProtocolMatch | null {
+  for (const decoder of decoders) {
+    try {
+      const result = decoder.decode(context);
+      if (result) return result;
+    } catch (error) {
+      console.error(`Protocol decoder ${decoder.name} failed on ${context.tx.hash}:`, error);
+    }
+  }
+  return null;
+}
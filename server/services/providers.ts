@@ -0,0 +1,77 @@
+import type { InsertTransactionWithMovements } from "../../shared/schema";
+import { alchemyProvider } from "./alchemy";
+import { createEvmRpcProvider } from "./evmRpc";
+import { createSolanaProvider } from "./solana";
+import { createBitcoinProvider } from "./bitcoin";
+
+export interface FetchStats {
+  pages: number;
+  transfers: number;
+  // Highest block number covered by the fetch, if any
+  latestBlock: number | null;
+  // True when the page cap was hit before the provider ran out of history
+  truncated: boolean;
+  // Set by providers that walk forward through blocks: the next sync can
+  // resume after this block even when older history was skipped
+  cursorBlock?: number | null;
+}
+
+export interface FetchOptions {
+  maxPages?: number;
+  // Only return activity after this block (slot on Solana)
+  fromBlock?: number | null;
+}
+
+export interface FetchResult {
+  transactions: InsertTransactionWithMovements[];
+  stats?: FetchStats;
+  error?: string;
+}
+
+/**
+ * A source of wallet history for one or more chains. Providers map
+ * whatever their backend returns into InsertTransactions, with a movement
+ * per asset leg when there can be more than one; classification
+ * rules, pricing and cost basis run on top of that in the sync service.
+ */
+export interface ChainProvider {
+  name: string;
+  chains: string[];
+  isConfigured(): boolean;
+  // Shown to the user when isConfigured() is false
+  configurationHint: string;
+  fetchTransactions(
+    walletAddress: string,
+    chain: string,
+    walletId: string,
+    options?: FetchOptions
+  ): Promise<FetchResult>;
+}
+
+let providers: ChainProvider[] | null = null;
+
+function getProviders(): ChainProvider[] {
+  if (!providers) {
+    providers = [
+      alchemyProvider,
+      createEvmRpcProvider(),
+      createSolanaProvider(),
+      createBitcoinProvider(),
+    ];
+  }
+  return providers;
+}
+
+/**
+ * Picks the provider for a chain. When several serve the same chain (for
+ * example an RPC URL configured for a chain Alchemy also covers), the first
+ * configured one wins.
+ */
+export function getChainProvider(chain: string): ChainProvider | undefined {
+  const candidates = getProviders().filter(provider => provider.chains.includes(chain));
+  return candidates.find(provider => provider.isConfigured()) ?? candidates[0];
+}
+
+export function getSyncableChains(): string[] {
+  return Array.from(new Set(getProviders().flatMap(provider => provider.chains)));
+}
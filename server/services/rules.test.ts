@@ -0,0 +1,133 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ClassificationRule } from "../../shared/schema";
+import { applyRules, findMatchingRule, matchesRule, planRuleApplication } from "./rules";
+
+const ROUTER = "0x7a250d5630b4cf539739df2c5dacb4c659f2488d";
+
+function rule(overrides: Partial<ClassificationRule>): ClassificationRule {
+  return {
+    id: "rule",
+    userId: "user-1",
+    name: "Rule",
+    description: null,
+    contractAddress: null,
+    methodSignature: null,
+    tokenPattern: null,
+    chain: null,
+    direction: null,
+    classification: "swap",
+    priority: 0,
+    isActive: true,
+    createdAt: null,
+    ...overrides,
+  };
+}
+
+function transaction(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    txHash: `0x${id}`,
+    timestamp: new Date("2024-01-15T00:00:00Z"),
+    chain: "ethereum",
+    contractAddress: ROUTER,
+    methodName: "swapExactETHForTokens",
+    methodSelector: "0x7ff36ab5",
+    tokenIn: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+    tokenInSymbol: "USDC",
+    tokenInAmount: "2500",
+    tokenOut: null,
+    tokenOutSymbol: "ETH",
+    tokenOutAmount: "1",
+    classification: "unknown" as string | null,
+    classificationRuleId: null as string | null,
+    userClassified: false,
+    ...overrides,
+  };
+}
+
+describe("matchesRule", () => {
+  const tx = transaction("a");
+
+  test("every criterion set must match", () => {
+    assert.equal(matchesRule(rule({ contractAddress: ROUTER.toUpperCase().replace("0X", "0x") }), tx), true);
+    assert.equal(matchesRule(rule({ contractAddress: ROUTER, chain: "base" }), tx), false);
+    assert.equal(matchesRule(rule({ contractAddress: ROUTER, chain: "ethereum", direction: "both" }), tx), true);
+    assert.equal(matchesRule(rule({ contractAddress: ROUTER, direction: "in" }), tx), false);
+  });
+
+  test("methods match by exact selector or by name substring", () => {
+    assert.equal(matchesRule(rule({ methodSignature: "0x7FF36AB5" }), tx), true);
+    assert.equal(matchesRule(rule({ methodSignature: "0x7ff36ab6" }), tx), false);
+    assert.equal(matchesRule(rule({ methodSignature: "swapexact" }), tx), true);
+  });
+
+  test("token patterns are comma-separated with wildcards", () => {
+    assert.equal(matchesRule(rule({ tokenPattern: "DAI, usdc" }), tx), true);
+    assert.equal(matchesRule(rule({ tokenPattern: "US*" }), tx), true);
+    assert.equal(matchesRule(rule({ tokenPattern: "0xa0b8*" }), tx), true);
+    assert.equal(matchesRule(rule({ tokenPattern: "WBTC" }), tx), false);
+  });
+
+  test("a rule without criteria never matches", () => {
+    assert.equal(matchesRule(rule({ tokenPattern: "  " }), tx), false);
+  });
+});
+
+describe("findMatchingRule and applyRules", () => {
+  const low = rule({ id: "low", contractAddress: ROUTER, classification: "contract_interaction", priority: 1 });
+  const high = rule({ id: "high", tokenPattern: "USDC", classification: "swap", priority: 10 });
+
+  test("the highest-priority active rule wins", () => {
+    assert.equal(findMatchingRule([low, high], transaction("a"))?.id, "high");
+    assert.equal(findMatchingRule([low, { ...high, isActive: false }], transaction("a"))?.id, "low");
+    assert.equal(findMatchingRule([low, high], transaction("a", { contractAddress: null, tokenInSymbol: "DAI", tokenIn: null })), undefined);
+  });
+
+  test("applying stamps the rule and settles review", () => {
+    const applied = applyRules([low, high], { ...transaction("a"), needsReview: true });
+    assert.equal(applied.classification, "swap");
+    assert.equal(applied.classificationRuleId, "high");
+    assert.equal(applied.classificationConfidence, "1.0");
+    assert.equal(applied.needsReview, false);
+    assert.ok(applied.ruleMatchedAt instanceof Date);
+  });
+
+  test("without a match the transaction is returned as is", () => {
+    const tx = transaction("a", { contractAddress: null, tokenInSymbol: "DAI", tokenIn: null });
+    assert.equal(applyRules([low, high], tx), tx);
+  });
+});
+
+describe("planRuleApplication", () => {
+  const low = rule({ id: "low", name: "Router", contractAddress: ROUTER, classification: "contract_interaction", priority: 1 });
+  const high = rule({ id: "high", name: "USDC trades", tokenPattern: "USDC", classification: "swap", priority: 10 });
+  const txs = [
+    transaction("usdc"),
+    transaction("dai", { tokenIn: null, tokenInSymbol: "DAI" }),
+    transaction("done", { classification: "swap", classificationRuleId: null }),
+    transaction("stamped", { classification: "swap", classificationRuleId: "high" }),
+    transaction("manual", { classification: "transfer", userClassified: true }),
+  ];
+
+  test("plans changes and matches for every rule in priority order", () => {
+    const plan = planRuleApplication([low, high], txs);
+    assert.deepEqual(plan.changes.map(c => [c.transactionId, c.fromClassification, c.toClassification, c.ruleId]), [
+      ["usdc", "unknown", "swap", "high"],
+      ["dai", "unknown", "contract_interaction", "low"],
+    ]);
+    assert.deepEqual(plan.matches, [{ transactionId: "done", ruleId: "high" }]);
+  });
+
+  test("one rule only claims the transactions it wins", () => {
+    const plan = planRuleApplication([low, high], txs, { ruleId: "low" });
+    assert.deepEqual(plan.changes.map(c => c.transactionId), ["dai"]);
+    assert.deepEqual(plan.matches, []);
+  });
+
+  test("manual classifications are kept unless included", () => {
+    const plan = planRuleApplication([low, high], txs, { includeUserClassified: true });
+    const manual = plan.changes.find(c => c.transactionId === "manual")!;
+    assert.deepEqual([manual.userClassified, manual.toClassification], [true, "swap"]);
+  });
+});
@@ -0,0 +1,193 @@
+import type { ClassificationRule, InsertTransaction } from "../../shared/schema";
+
+// Transaction fields the rule engine looks at. Works for both freshly
+// fetched InsertTransactions and rows already in the database.
+export type RuleSubject = Pick<
+  InsertTransaction,
+  | "chain"
+  | "contractAddress"
+  | "methodName"
+  | "methodSelector"
+  | "tokenIn"
+  | "tokenInSymbol"
+  | "tokenInAmount"
+  | "tokenOut"
+  | "tokenOutSymbol"
+  | "tokenOutAmount"
+>;
+
+function isSet(value: string | null | undefined): value is string {
+  return !!value && value.trim().length > 0;
+}
+
+function getDirection(tx: RuleSubject): "in" | "out" | "both" | null {
+  const hasIn = !!(tx.tokenIn || tx.tokenInSymbol);
+  const hasOut = !!(tx.tokenOut || tx.tokenOutSymbol);
+  if (hasIn && hasOut) return "both";
+  if (hasIn) return "in";
+  if (hasOut) return "out";
+  return null;
+}
+
+// Token patterns are comma-separated symbols or addresses; "*" is a wildcard
+function matchesTokenPattern(pattern: string, tx: RuleSubject): boolean {
+  const candidates = [tx.tokenInSymbol, tx.tokenOutSymbol, tx.tokenIn, tx.tokenOut]
+    .filter(isSet)
+    .map(v => v.toLowerCase());
+
+  return pattern.split(",").map(p => p.trim().toLowerCase()).filter(Boolean).some(p => {
+    const escaped = p.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    const regex = new RegExp(`^${escaped}$`);
+    return candidates.some(c => regex.test(c));
+  });
+}
+
+// A 4-byte selector ("0xa9059cbb") matches exactly; anything else is a
+// substring of the decoded method name
+function matchesMethod(signature: string, tx: RuleSubject): boolean {
+  const pattern = signature.trim().toLowerCase();
+  if (/^0x[0-9a-f]{8}$/.test(pattern)) {
+    return tx.methodSelector?.toLowerCase() === pattern;
+  }
+  return !!tx.methodName?.toLowerCase().includes(pattern);
+}
+
+function hasCriteria(rule: ClassificationRule): boolean {
+  return [rule.contractAddress, rule.methodSignature, rule.tokenPattern, rule.chain, rule.direction].some(isSet);
+}
+
+/**
+ * A rule matches when every criterion it defines matches. Rules with no
+ * criteria never match so an empty rule cannot reclassify everything.
+ */
+export function matchesRule(rule: ClassificationRule, tx: RuleSubject): boolean {
+  if (!hasCriteria(rule)) return false;
+
+  if (isSet(rule.chain) && rule.chain !== tx.chain) {
+    return false;
+  }
+  if (isSet(rule.contractAddress) &&
+      rule.contractAddress.toLowerCase() !== tx.contractAddress?.toLowerCase()) {
+    return false;
+  }
+  if (isSet(rule.methodSignature) && !matchesMethod(rule.methodSignature, tx)) {
+    return false;
+  }
+  if (isSet(rule.tokenPattern) && !matchesTokenPattern(rule.tokenPattern, tx)) {
+    return false;
+  }
+  if (isSet(rule.direction) && rule.direction !== getDirection(tx)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Returns the first active rule matching the transaction, evaluating
+ * rules in descending priority order.
+ */
+export function findMatchingRule(
+  rules: ClassificationRule[],
+  tx: RuleSubject
+): ClassificationRule | undefined {
+  return [...rules]
+    .filter(rule => rule.isActive !== false)
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+    .find(rule => matchesRule(rule, tx));
+}
+
+/**
+ * Classifies a transaction with the user's rules, leaving the heuristic
+ * classification in place when no rule applies.
+ */
+export function applyRules<T extends RuleSubject>(
+  rules: ClassificationRule[],
+  tx: T
+): T & Pick<InsertTransaction, "classificationRuleId" | "ruleMatchedAt"> {
+  const rule = findMatchingRule(rules, tx);
+  if (!rule) return tx;
+
+  return {
+    ...tx,
+    classification: rule.classification,
+    classificationConfidence: "1.0",
+    needsReview: false,
+    classificationRuleId: rule.id,
+    ruleMatchedAt: new Date(),
+  };
+}
+
+export interface RuleChange {
+  transactionId: string;
+  txHash: string;
+  chain: string;
+  timestamp: Date;
+  userClassified: boolean;
+  fromClassification: string | null;
+  toClassification: string;
+  ruleId: string;
+  ruleName: string;
+}
+
+// A transaction the rule matches that already has its classification; it
+// is only attributed to the rule so hit counts include it
+export interface RuleMatch {
+  transactionId: string;
+  ruleId: string;
+}
+
+export interface RulePlan {
+  changes: RuleChange[];
+  matches: RuleMatch[];
+}
+
+/**
+ * Works out which existing transactions the rules would reclassify, and
+ * which they match without changing. Manually classified rows are left
+ * alone unless includeUserClassified is set. With ruleId, every rule is
+ * still evaluated in priority order but only the transactions that rule
+ * wins are planned, so applying one rule never overrides a higher-priority
+ * one.
+ */
+export function planRuleApplication(
+  rules: ClassificationRule[],
+  txs: (RuleSubject & {
+    id: string;
+    txHash: string;
+    timestamp: Date;
+    classification: string | null;
+    classificationRuleId: string | null;
+    userClassified: boolean | null;
+  })[],
+  options: { includeUserClassified?: boolean; ruleId?: string } = {}
+): RulePlan {
+  const changes: RuleChange[] = [];
+  const matches: RuleMatch[] = [];
+
+  for (const tx of txs) {
+    if (tx.userClassified && !options.includeUserClassified) continue;
+
+    const rule = findMatchingRule(rules, tx);
+    if (!rule || (options.ruleId && rule.id !== options.ruleId)) continue;
+    if (tx.classification === rule.classification) {
+      if (tx.classificationRuleId !== rule.id) {
+        matches.push({ transactionId: tx.id, ruleId: rule.id });
+      }
+      continue;
+    }
+
+    changes.push({
+      transactionId: tx.id,
+      txHash: tx.txHash,
+      chain: tx.chain,
+      timestamp: tx.timestamp,
+      userClassified: !!tx.userClassified,
+      fromClassification: tx.classification,
+      toClassification: rule.classification,
+      ruleId: rule.id,
+      ruleName: rule.name,
+    });
+  }
+
+  return { changes, matches };
+}
@@ -0,0 +1,209 @@
+import {
+  FIAT_CURRENCIES,
+  type Transaction,
+  type TransactionMovement,
+  type Wallet,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { legsFromTransaction } from "./movements";
+
+// Classifications either side of a move between the user's own wallets may
+// carry before it is linked. Anything more specific came from a rule, a
+// protocol decoder or the user and is left alone.
+const MATCHABLE_CLASSIFICATIONS = new Set(["transfer", "unknown", "self_transfer", "bridge"]);
+
+// What the user picked themselves is only linked, never reclassified
+const USER_MATCHABLE_CLASSIFICATIONS = new Set(["self_transfer", "bridge"]);
+
+// How long after the send the receive may land. Canonical rollup bridges
+// hold withdrawals for a week-long challenge period.
+const SAME_CHAIN_WINDOW_MS = 6 * 60 * 60 * 1000;
+const BRIDGE_WINDOW_MS = 8 * 24 * 60 * 60 * 1000;
+
+// Exchanges stamp deposits and withdrawals with their own clock, which can
+// put the receive slightly before the send
+const CLOCK_SKEW_MS = 10 * 60 * 1000;
+
+// Share of the sent amount that may be lost to withdrawal or bridge fees.
+// Both sides of the same transaction hash must agree exactly.
+const AMOUNT_TOLERANCE = 0.02;
+const SAME_HASH_TOLERANCE = 1e-9;
+
+// Wrapped and bridged representations that arrive for the asset sent
+const SYMBOL_ALIASES: Record<string, string> = {
+  WETH: "ETH",
+  "USDC.E": "USDC",
+  USDBC: "USDC",
+  "USDT.E": "USDT",
+  "DAI.E": "DAI",
+};
+
+const FIAT = new Set<string>(FIAT_CURRENCIES);
+
+export type TransferLinkClassification = "self_transfer" | "bridge";
+
+export interface TransferLink {
+  sendId: string;
+  receiveId: string;
+  classification: TransferLinkClassification;
+  // Matched on a shared transaction hash rather than amount and time
+  byHash: boolean;
+}
+
+export type MatchableTransaction = Transaction & { movements?: Pick<TransactionMovement, "direction" | "tokenSymbol" | "amount">[] };
+
+interface TransferSide {
+  tx: Transaction;
+  wallet: Wallet;
+  direction: "in" | "out";
+  symbol: string;
+  amount: number;
+  time: number;
+}
+
+function normalizeSymbol(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  return SYMBOL_ALIASES[upper] ?? upper;
+}
+
+function isCandidate(tx: Transaction): boolean {
+  const classification = tx.classification || "unknown";
+  if (tx.isSpam || tx.linkedTransactionId) return false;
+  if (tx.userClassified) return USER_MATCHABLE_CLASSIFICATIONS.has(classification);
+  return MATCHABLE_CLASSIFICATIONS.has(classification);
+}
+
+// A side of a move has exactly one non-fiat leg; anything with legs going
+// both ways is a trade
+function sideOf(tx: MatchableTransaction, wallet: Wallet): TransferSide | null {
+  const movements = tx.movements && tx.movements.length > 0 ? tx.movements : legsFromTransaction(tx);
+  const legs = movements.filter(leg =>
+    leg.tokenSymbol && !FIAT.has(leg.tokenSymbol.toUpperCase()) && parseFloat(leg.amount) > 0
+  );
+  if (legs.length !== 1) return null;
+
+  const leg = legs[0];
+  return {
+    tx,
+    wallet,
+    direction: leg.direction === "in" ? "in" : "out",
+    symbol: normalizeSymbol(leg.tokenSymbol as string),
+    amount: parseFloat(leg.amount),
+    time: new Date(tx.timestamp).getTime(),
+  };
+}
+
+// Exchange accounts use the exchange name as their chain, so only two
+// on-chain wallets on different chains make a bridge
+function isBridge(send: TransferSide, receive: TransferSide): boolean {
+  return send.wallet.walletType !== "exchange" &&
+    receive.wallet.walletType !== "exchange" &&
+    send.wallet.chain !== receive.wallet.chain;
+}
+
+function amountMatches(sent: number, received: number, tolerance: number): boolean {
+  return received <= sent * (1 + SAME_HASH_TOLERANCE) && received >= sent * (1 - tolerance);
+}
+
+/**
+ * Pairs transactions that send an asset out of one of the user's wallets
+ * with the ones that receive it in another. Sides of the same transaction
+ * hash on the same chain are paired first; the rest are paired by asset,
+ * an amount net of fees and a time window, closest in time first. Each
+ * transaction ends up in at most one link.
+ */
+export function matchSelfTransfers(txs: MatchableTransaction[], wallets: Wallet[]): TransferLink[] {
+  const walletsById = new Map(wallets.map(w => [w.id, w] as const));
+
+  const sends: TransferSide[] = [];
+  const receives: TransferSide[] = [];
+  for (const tx of txs) {
+    const wallet = tx.walletId ? walletsById.get(tx.walletId) : undefined;
+    if (!wallet || !isCandidate(tx)) continue;
+    const side = sideOf(tx, wallet);
+    if (!side) continue;
+    (side.direction === "out" ? sends : receives).push(side);
+  }
+  sends.sort((a, b) => a.time - b.time);
+
+  const used = new Set<string>();
+  const links: TransferLink[] = [];
+  for (const send of sends) {
+    let best: TransferSide | null = null;
+    let bestByHash = false;
+    let bestDistance = Infinity;
+
+    for (const receive of receives) {
+      if (used.has(receive.tx.id) || receive.wallet.id === send.wallet.id) continue;
+      if (receive.symbol !== send.symbol) continue;
+
+      const byHash = receive.tx.txHash === send.tx.txHash && receive.tx.chain === send.tx.chain;
+      const elapsed = receive.time - send.time;
+      if (!byHash) {
+        const window = isBridge(send, receive) ? BRIDGE_WINDOW_MS : SAME_CHAIN_WINDOW_MS;
+        if (elapsed < -CLOCK_SKEW_MS || elapsed > window) continue;
+      }
+      if (!amountMatches(send.amount, receive.amount, byHash ? SAME_HASH_TOLERANCE : AMOUNT_TOLERANCE)) continue;
+
+      const distance = Math.abs(elapsed);
+      if ((byHash && !bestByHash) || (byHash === bestByHash && distance < bestDistance)) {
+        best = receive;
+        bestByHash = byHash;
+        bestDistance = distance;
+      }
+    }
+
+    if (!best) continue;
+    used.add(best.tx.id);
+    links.push({
+      sendId: send.tx.id,
+      receiveId: best.tx.id,
+      classification: isBridge(send, best) ? "bridge" : "self_transfer",
+      byHash: bestByHash,
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Runs the matching pass over all of a user's wallets and stores each link
+ * on both sides, classifying them as a self-transfer or bridge unless the
+ * user already classified them. Callers recalculate cost basis afterwards.
+ */
+export async function linkSelfTransfers(userId: string): Promise<TransferLink[]> {
+  const wallets = await storage.getWallets(userId);
+  const userTransactions = await storage.getTransactions({ userId });
+  const movements = await storage.getTransactionMovements(userId);
+
+  const byTransaction = new Map<string, TransactionMovement[]>();
+  for (const movement of movements) {
+    const list = byTransaction.get(movement.transactionId) ?? [];
+    list.push(movement);
+    byTransaction.set(movement.transactionId, list);
+  }
+
+  const links = matchSelfTransfers(
+    userTransactions.map(tx => ({ ...tx, movements: byTransaction.get(tx.id) })),
+    wallets
+  );
+
+  const byId = new Map(userTransactions.map(tx => [tx.id, tx] as const));
+  for (const link of links) {
+    const pair: [string, string][] = [[link.sendId, link.receiveId], [link.receiveId, link.sendId]];
+    for (const [id, otherId] of pair) {
+      const tx = byId.get(id);
+      if (!tx) continue;
+      await storage.updateTransaction(id, tx.userClassified
+        ? { linkedTransactionId: otherId }
+        : {
+            linkedTransactionId: otherId,
+            classification: link.classification,
+            classificationConfidence: link.byHash ? "0.95" : "0.8",
+            needsReview: false,
+          });
+    }
+  }
+
+  return links;
+}
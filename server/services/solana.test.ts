@@ -0,0 +1,131 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { createSolanaProvider, mapSolanaTransaction, type ParsedSolanaTransaction, type SolanaRpc } from "./solana";
+
+// Recorded getSignaturesForAddress and getTransaction (jsonParsed) responses
+// for one wallet, newest first. A null expectation means the transaction
+// must be dropped.
+interface SolanaFixture {
+  wallet: string;
+  signatures: { signature: string; slot: number; err: unknown | null; blockTime: number | null }[];
+  transactions: {
+    name: string;
+    response: ParsedSolanaTransaction;
+    expected: {
+      classification: string;
+      tokenInSymbol: string | null;
+      tokenInAmount: string | null;
+      tokenOutSymbol: string | null;
+      tokenOutAmount: string | null;
+      gasFee: string | null;
+      contractAddress: string | null;
+      methodName: string | null;
+      movements: { direction: string; token: string | null; tokenSymbol: string | null; amount: string }[];
+    } | null;
+  }[];
+}
+
+const fixture: SolanaFixture = JSON.parse(
+  readFileSync(new URL("./fixtures/solana.json", import.meta.url), "utf-8")
+);
+
+// Answers from the recorded responses and logs every call
+function recordedRpc() {
+  const calls: { method: string; params: unknown[] }[] = [];
+  const rpc = (async (method: string, params: unknown[]) => {
+    calls.push({ method, params });
+    if (method === "getSignaturesForAddress") {
+      const { before } = params[1] as { before?: string };
+      const start = before ? fixture.signatures.findIndex(s => s.signature === before) + 1 : 0;
+      return fixture.signatures.slice(start);
+    }
+    if (method === "getTransaction") {
+      const found = fixture.transactions.find(t => t.response.transaction.signatures[0] === params[0]);
+      return found ? found.response : null;
+    }
+    throw new Error(`Unexpected RPC method ${method}`);
+  }) as SolanaRpc;
+  return { rpc, calls };
+}
+
+describe("mapSolanaTransaction", () => {
+  for (const { name, response, expected } of fixture.transactions) {
+    test(name, () => {
+      const mapped = mapSolanaTransaction(response, fixture.wallet, "wallet-1");
+      if (expected === null) {
+        assert.equal(mapped, null);
+        return;
+      }
+      assert.ok(mapped);
+      assert.deepEqual(
+        {
+          classification: mapped.classification,
+          tokenInSymbol: mapped.tokenInSymbol,
+          tokenInAmount: mapped.tokenInAmount,
+          tokenOutSymbol: mapped.tokenOutSymbol,
+          tokenOutAmount: mapped.tokenOutAmount,
+          gasFee: mapped.gasFee,
+          contractAddress: mapped.contractAddress,
+          methodName: mapped.methodName,
+          movements: mapped.movements,
+        },
+        expected
+      );
+      assert.equal(mapped.txHash, response.transaction.signatures[0]);
+      assert.equal(mapped.blockNumber, response.slot);
+      assert.equal(mapped.timestamp.getTime(), response.blockTime! * 1000);
+      assert.equal(mapped.walletId, "wallet-1");
+    });
+  }
+
+  test("drops transactions that did not touch the wallet", () => {
+    const received = fixture.transactions[0].response;
+    assert.equal(mapSolanaTransaction(received, "Bystander1111111111111111111111111111111111", "wallet-1"), null);
+  });
+
+  test("drops transactions without metadata", () => {
+    assert.equal(mapSolanaTransaction({ ...fixture.transactions[0].response, meta: null }, fixture.wallet, "wallet-1"), null);
+  });
+});
+
+describe("Solana provider", () => {
+  test("maps every successful signature and skips failed ones without fetching them", async () => {
+    const { rpc, calls } = recordedRpc();
+    const result = await createSolanaProvider(rpc).fetchTransactions(fixture.wallet, "solana", "wallet-1");
+
+    assert.equal(result.error, undefined);
+    const expected = fixture.transactions.filter(t => t.expected !== null);
+    assert.deepEqual(
+      result.transactions.map(tx => tx.txHash).sort(),
+      expected.map(t => t.response.transaction.signatures[0]).sort()
+    );
+
+    const failed = fixture.signatures.find(s => s.err !== null)!;
+    assert.ok(!calls.some(c => c.method === "getTransaction" && c.params[0] === failed.signature));
+    assert.deepEqual(result.stats, {
+      pages: 1,
+      transfers: fixture.signatures.length,
+      latestBlock: Math.max(...fixture.signatures.map(s => s.slot)),
+      truncated: false,
+    });
+  });
+
+  test("an incremental fetch only reads signatures after the last synced slot", async () => {
+    const { rpc, calls } = recordedRpc();
+    const fromBlock = fixture.signatures[2].slot;
+    const result = await createSolanaProvider(rpc).fetchTransactions(fixture.wallet, "solana", "wallet-1", { fromBlock });
+
+    const newer = fixture.signatures.filter(s => s.slot > fromBlock && s.err === null);
+    assert.deepEqual(result.transactions.map(tx => tx.txHash), newer.map(s => s.signature));
+    assert.equal(calls.filter(c => c.method === "getTransaction").length, newer.length);
+  });
+
+  test("reports RPC failures as an error", async () => {
+    const rpc = (async () => {
+      throw new Error("Solana RPC error: 429 Too Many Requests");
+    }) as SolanaRpc;
+    const result = await createSolanaProvider(rpc).fetchTransactions(fixture.wallet, "solana", "wallet-1");
+    assert.deepEqual(result, { transactions: [], error: "Solana RPC error: 429 Too Many Requests" });
+  });
+});
@@ -0,0 +1,319 @@
+import type { InsertTransactionWithMovements } from "../../shared/schema";
+import type { ChainProvider, FetchOptions, FetchResult, FetchStats } from "./providers";
+
+const DEFAULT_RPC_URL = "https://api.mainnet-beta.solana.com";
+
+// getSignaturesForAddress returns at most 1000 signatures per page
+const PAGE_SIZE = 1000;
+const DEFAULT_MAX_PAGES = 10;
+
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Deltas below this are rounding noise in uiAmountString arithmetic
+const AMOUNT_EPSILON = 1e-12;
+
+// Programs that show up in almost every transaction and say nothing about
+// what the user interacted with
+const CORE_PROGRAMS = new Set([
+  "11111111111111111111111111111111", // System Program
+  "ComputeBudget111111111111111111111111111111",
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA", // SPL Token
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb", // Token-2022
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL", // Associated Token Account
+]);
+
+const KNOWN_MINTS: Record<string, string> = {
+  So11111111111111111111111111111111111111112: "WSOL",
+  EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: "USDC",
+  Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: "USDT",
+  DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263: "BONK",
+  JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: "JUP",
+  mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So: "mSOL",
+  J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn: "JitoSOL",
+};
+
+/**
+ * JSON-RPC transport. The HTTP one is used in production; tests can pass
+ * a function that answers from recorded responses instead.
+ */
+export type SolanaRpc = <T>(method: string, params: unknown[]) => Promise<T>;
+
+interface SignatureInfo {
+  signature: string;
+  slot: number;
+  err: unknown | null;
+  blockTime: number | null;
+}
+
+interface TokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+    uiAmountString?: string;
+  };
+}
+
+interface ParsedInstruction {
+  programId: string;
+  program?: string;
+  parsed?: { type?: string; info?: Record<string, unknown> };
+}
+
+export interface ParsedSolanaTransaction {
+  slot: number;
+  blockTime: number | null;
+  meta: {
+    err: unknown | null;
+    fee: number;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: TokenBalance[];
+    postTokenBalances?: TokenBalance[];
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      accountKeys: ({ pubkey: string; signer?: boolean } | string)[];
+      instructions: ParsedInstruction[];
+    };
+  };
+}
+
+interface TokenDelta {
+  address: string | null;
+  symbol: string | null;
+  amount: number;
+}
+
+export function getSolanaRpcUrl(): string {
+  return process.env.SOLANA_RPC_URL || DEFAULT_RPC_URL;
+}
+
+export function createHttpRpc(url: string): SolanaRpc {
+  let id = 0;
+  return async <T>(method: string, params: unknown[]): Promise<T> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++id, method, params }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Solana RPC error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(`Solana RPC error: ${data.error.message || JSON.stringify(data.error)}`);
+    }
+    return data.result as T;
+  };
+}
+
+function accountKey(key: { pubkey: string } | string): string {
+  return typeof key === "string" ? key : key.pubkey;
+}
+
+function uiAmount(balance: TokenBalance): number {
+  if (balance.uiTokenAmount.uiAmountString !== undefined) {
+    return parseFloat(balance.uiTokenAmount.uiAmountString);
+  }
+  return parseFloat(balance.uiTokenAmount.amount) / Math.pow(10, balance.uiTokenAmount.decimals);
+}
+
+function formatAmount(value: number): string {
+  return parseFloat(value.toFixed(9)).toString();
+}
+
+/**
+ * Net SPL token change per mint for token accounts owned by the wallet.
+ */
+function tokenDeltas(tx: ParsedSolanaTransaction, walletAddress: string): TokenDelta[] {
+  const byMint = new Map<string, number>();
+  const add = (balances: TokenBalance[] | undefined, sign: 1 | -1) => {
+    (balances || [])
+      .filter(balance => balance.owner === walletAddress)
+      .forEach(balance => {
+        byMint.set(balance.mint, (byMint.get(balance.mint) ?? 0) + sign * uiAmount(balance));
+      });
+  };
+  add(tx.meta?.postTokenBalances, 1);
+  add(tx.meta?.preTokenBalances, -1);
+
+  const deltas: TokenDelta[] = [];
+  byMint.forEach((amount, mint) => {
+    if (Math.abs(amount) > AMOUNT_EPSILON) {
+      deltas.push({ address: mint, symbol: KNOWN_MINTS[mint] ?? null, amount });
+    }
+  });
+  return deltas;
+}
+
+function classifySolanaTx(tokensIn: TokenDelta[], tokensOut: TokenDelta[]): string {
+  if (tokensIn.length > 0 && tokensOut.length > 0) {
+    const outKeys = new Set(tokensOut.map(t => t.address ?? t.symbol));
+    return tokensIn.some(t => !outKeys.has(t.address ?? t.symbol)) ? "swap" : "transfer";
+  }
+  if (tokensIn.length > 0 || tokensOut.length > 0) {
+    return "transfer";
+  }
+  return "unknown";
+}
+
+function getConfidence(classification: string): string {
+  switch (classification) {
+    case "swap": return "0.8";
+    case "transfer": return "0.9";
+    default: return "0.0";
+  }
+}
+
+/**
+ * Maps one parsed transaction to an InsertTransaction from the wallet's
+ * point of view: SPL balance deltas for tokens the wallet owns (one movement each), the SOL
+ * balance change net of the fee, and the fee itself when the wallet paid it.
+ * Returns null for failed transactions and ones that did not touch the wallet.
+ */
+export function mapSolanaTransaction(
+  tx: ParsedSolanaTransaction,
+  walletAddress: string,
+  walletId: string
+): InsertTransactionWithMovements | null {
+  if (!tx.meta || tx.meta.err) return null;
+
+  const keys = tx.transaction.message.accountKeys.map(accountKey);
+  const walletIndex = keys.indexOf(walletAddress);
+  // The first account key is always the fee payer
+  const paidFee = walletIndex === 0;
+
+  const deltas = tokenDeltas(tx, walletAddress);
+  if (walletIndex >= 0) {
+    const lamports = tx.meta.postBalances[walletIndex] - tx.meta.preBalances[walletIndex]
+      + (paidFee ? tx.meta.fee : 0);
+    const sol = lamports / LAMPORTS_PER_SOL;
+    if (Math.abs(sol) > AMOUNT_EPSILON) {
+      deltas.push({ address: null, symbol: "SOL", amount: sol });
+    }
+  }
+
+  if (deltas.length === 0 && !paidFee) return null;
+
+  const tokensIn = deltas.filter(d => d.amount > 0);
+  const tokensOut = deltas.filter(d => d.amount < 0).map(d => ({ ...d, amount: -d.amount }));
+  const primaryIn = tokensIn[0];
+  const primaryOut = tokensOut[0];
+
+  const classification = classifySolanaTx(tokensIn, tokensOut);
+  const program = tx.transaction.message.instructions.find(ix => !CORE_PROGRAMS.has(ix.programId));
+  const signature = tx.transaction.signatures[0];
+
+  return {
+    walletId,
+    txHash: signature,
+    chain: "solana",
+    timestamp: tx.blockTime ? new Date(tx.blockTime * 1000) : new Date(),
+    blockNumber: tx.slot,
+    tokenIn: primaryIn?.address || null,
+    tokenInAmount: primaryIn ? formatAmount(primaryIn.amount) : null,
+    tokenInSymbol: primaryIn?.symbol || null,
+    tokenOut: primaryOut?.address || null,
+    tokenOutAmount: primaryOut ? formatAmount(primaryOut.amount) : null,
+    tokenOutSymbol: primaryOut?.symbol || null,
+    classification,
+    classificationConfidence: getConfidence(classification),
+    needsReview: classification === "unknown",
+    userClassified: false,
+    contractAddress: program?.programId || null,
+    methodName: program?.parsed?.type || null,
+    gasFee: paidFee ? formatAmount(tx.meta.fee / LAMPORTS_PER_SOL) : null,
+    gasFeeUsd: null,
+    // Priced afterwards by the price backfill
+    priceAtTime: null,
+    valueUsd: null,
+    isSpam: false,
+    isDust: false,
+    movements: [
+      ...tokensIn.map(d => ({ direction: "in", token: d.address, tokenSymbol: d.symbol, amount: formatAmount(d.amount) })),
+      ...tokensOut.map(d => ({ direction: "out", token: d.address, tokenSymbol: d.symbol, amount: formatAmount(d.amount) })),
+    ],
+  };
+}
+
+export function createSolanaProvider(rpc?: SolanaRpc): ChainProvider {
+  const call = () => rpc ?? createHttpRpc(getSolanaRpcUrl());
+
+  return {
+    name: "solana",
+    chains: ["solana"],
+    // Falls back to the public mainnet endpoint, so always usable
+    isConfigured: () => true,
+    configurationHint: "Set SOLANA_RPC_URL to use a dedicated Solana RPC endpoint.",
+
+    async fetchTransactions(
+      walletAddress: string,
+      _chain: string,
+      walletId: string,
+      options: FetchOptions = {}
+    ): Promise<FetchResult> {
+      const request = call();
+      const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+      const stats: FetchStats = { pages: 0, transfers: 0, latestBlock: null, truncated: false };
+
+      try {
+        // Signatures come back newest first; page backwards with `before`
+        // until we run out or reach the slot the last sync stopped at
+        const signatures: SignatureInfo[] = [];
+        let before: string | undefined;
+        let exhausted = false;
+        while (stats.pages < maxPages) {
+          const page = await request<SignatureInfo[]>("getSignaturesForAddress", [
+            walletAddress,
+            { limit: PAGE_SIZE, ...(before ? { before } : {}) },
+          ]);
+          stats.pages++;
+
+          const fresh = options.fromBlock
+            ? page.filter(sig => sig.slot > options.fromBlock!)
+            : page;
+          signatures.push(...fresh);
+
+          if (page.length < PAGE_SIZE || fresh.length < page.length) {
+            exhausted = true;
+            break;
+          }
+          before = page[page.length - 1].signature;
+        }
+        stats.truncated = !exhausted;
+        stats.transfers = signatures.length;
+
+        const transactions: InsertTransactionWithMovements[] = [];
+        for (const sig of signatures) {
+          if (stats.latestBlock === null || sig.slot > stats.latestBlock) {
+            stats.latestBlock = sig.slot;
+          }
+          if (sig.err) continue;
+
+          const parsed = await request<ParsedSolanaTransaction | null>("getTransaction", [
+            sig.signature,
+            { encoding: "jsonParsed", maxSupportedTransactionVersion: 0 },
+          ]);
+          if (!parsed) continue;
+
+          const mapped = mapSolanaTransaction(parsed, walletAddress, walletId);
+          if (mapped) transactions.push(mapped);
+        }
+
+        return { transactions, stats };
+      } catch (error) {
+        console.error("Error fetching from Solana RPC:", error);
+        return {
+          transactions: [],
+          error: error instanceof Error ? error.message : "Failed to fetch transactions from Solana RPC",
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,192 @@
+import type {
+  MethodArgument,
+  MovementLeg,
+  SpamReason,
+  TokenListEntry,
+  Transaction,
+  TransactionMovement,
+  Wallet,
+} from "../../shared/schema";
+import { storage } from "../storage";
+import { legsFromTransaction } from "./movements";
+
+// Scam tokens advertise a claim site in their name or symbol
+const PHISHING_SYMBOL = /https?:\/\/|www\.|t\.me\/|\.(com|io|org|net|xyz|app|finance|site|top|vip|gift|claims?)\b|\b(claim|visit|redeem)\b/i;
+
+const EVM_ADDRESS = /^0x[0-9a-f]{40}$/;
+
+const NFT_CLASSIFICATIONS = new Set(["nft_mint", "nft_sale"]);
+
+// Characters a poisoning address copies from the one it imitates, at each
+// end, which is all most wallets show
+const LOOKALIKE_CHARS = 4;
+
+export type SpamCheckTransaction = Transaction & { movements?: MovementLeg[] };
+
+export interface SpamContext {
+  allow: TokenListEntry[];
+  deny: TokenListEntry[];
+  // The user's own addresses and everyone their wallets have called or
+  // paid; poisoning imitates these
+  knownAddresses: Set<string>;
+  // Tokens the user has sent themselves or that have a market price
+  // somewhere in their history
+  liquidTokens: Set<string>;
+}
+
+function legsOf(tx: SpamCheckTransaction): MovementLeg[] {
+  return tx.movements && tx.movements.length > 0 ? tx.movements : legsFromTransaction(tx);
+}
+
+function tokenId(token: string | null | undefined): string | null {
+  if (!token) return null;
+  return EVM_ADDRESS.test(token.toLowerCase()) ? token.toLowerCase() : token;
+}
+
+function onList(entries: TokenListEntry[], chain: string, token: string | null, symbol: string | null): boolean {
+  return entries.some(entry =>
+    (!entry.chain || entry.chain === chain) &&
+    ((token !== null && entry.token === token) ||
+      (symbol !== null && entry.token.toUpperCase() === symbol.toUpperCase()))
+  );
+}
+
+function isLookalike(address: string, known: Set<string>): boolean {
+  if (known.has(address)) return false;
+  const head = address.slice(2, 2 + LOOKALIKE_CHARS);
+  const tail = address.slice(-LOOKALIKE_CHARS);
+  return Array.from(known).some(k => k.slice(2, 2 + LOOKALIKE_CHARS) === head && k.slice(-LOOKALIKE_CHARS) === tail);
+}
+
+function addressArguments(args: MethodArgument[] | null): string[] {
+  return (args || [])
+    .filter(arg => arg.type === "address" && typeof arg.value === "string")
+    .map(arg => (arg.value as string).toLowerCase());
+}
+
+// The wallet paid for transactions it sent; anything else was done to it
+function walletInitiated(tx: Transaction): boolean {
+  return !!tx.gasFee && parseFloat(tx.gasFee) > 0;
+}
+
+/**
+ * Why a transaction is spam, or null if it is not. The deny list wins over
+ * everything and the allow list over the heuristics. Heuristics only look
+ * at transactions the wallet did not send and that took nothing out of it,
+ * on on-chain wallets. A token only counts as having no market once its
+ * price lookup has gone through; until then it is unknown, not spam.
+ */
+export function detectSpam(tx: SpamCheckTransaction, wallet: Wallet, context: SpamContext): SpamReason | null {
+  const legs = legsOf(tx);
+  const tokens = legs.map(leg => ({ token: tokenId(leg.token), symbol: leg.tokenSymbol ?? null }));
+  // Zero-value calls leave no legs; the token is the contract called
+  if (tokens.length === 0 && tx.contractAddress) {
+    tokens.push({ token: tokenId(tx.contractAddress), symbol: null });
+  }
+
+  if (tokens.some(t => onList(context.deny, tx.chain, t.token, t.symbol))) return "deny_list";
+  if (tokens.length > 0 && tokens.every(t => onList(context.allow, tx.chain, t.token, t.symbol))) return null;
+
+  if (wallet.walletType === "exchange" || tx.userClassified) return null;
+  if (walletInitiated(tx) || legs.some(leg => leg.direction === "out")) return null;
+
+  if (legs.some(leg => leg.tokenSymbol && PHISHING_SYMBOL.test(leg.tokenSymbol))) return "phishing_symbol";
+
+  if (addressArguments(tx.methodArgs).some(address => isLookalike(address, context.knownAddresses))) {
+    return "address_poisoning";
+  }
+
+  if (legs.length === 0) {
+    // NFTs carry no amount, so an unsolicited one has no legs either and
+    // has no market to price it from
+    if (NFT_CLASSIFICATIONS.has(tx.classification || "")) return "unsolicited_no_liquidity";
+    // Otherwise someone else moved nothing into or out of the wallet: a
+    // zero-value transfer or transferFrom planting a lookalike in its history
+    return "zero_value_transfer";
+  }
+
+  const unpriced = !(tx.valueUsd && parseFloat(tx.valueUsd) > 0) &&
+    legs.every(leg => !(leg.valueUsd && parseFloat(leg.valueUsd) > 0));
+  const unknownTokens = legs.every(leg => {
+    const token = tokenId(leg.token);
+    // Native assets (no contract) always have a market
+    return token !== null && !context.liquidTokens.has(token);
+  });
+  if (unpriced && unknownTokens && tx.priceCheckedAt) return "unsolicited_no_liquidity";
+
+  return null;
+}
+
+/**
+ * Builds the detection context from everything the user has: their lists,
+ * the addresses their wallets dealt with and the tokens that have a market.
+ */
+export function buildSpamContext(
+  txs: SpamCheckTransaction[],
+  wallets: Wallet[],
+  entries: TokenListEntry[]
+): SpamContext {
+  const knownAddresses = new Set<string>();
+  const liquidTokens = new Set<string>();
+
+  for (const wallet of wallets) {
+    const address = wallet.address.toLowerCase();
+    if (EVM_ADDRESS.test(address)) knownAddresses.add(address);
+  }
+
+  for (const tx of txs) {
+    const initiated = walletInitiated(tx);
+    if (initiated) {
+      for (const address of addressArguments(tx.methodArgs)) knownAddresses.add(address);
+      const called = tx.contractAddress?.toLowerCase();
+      if (called && EVM_ADDRESS.test(called)) knownAddresses.add(called);
+    }
+    for (const leg of legsOf(tx)) {
+      const token = tokenId(leg.token);
+      if (!token) continue;
+      const priced = !!leg.valueUsd && parseFloat(leg.valueUsd) > 0;
+      if (priced || (initiated && leg.direction === "out")) liquidTokens.add(token);
+    }
+  }
+
+  return {
+    allow: entries.filter(entry => entry.list === "allow"),
+    deny: entries.filter(entry => entry.list === "deny"),
+    knownAddresses,
+    liquidTokens,
+  };
+}
+
+/**
+ * Re-runs spam detection over all of a user's transactions, after a sync
+ * or a change to their token lists, and stores the flags that changed.
+ * Returns how many rows changed; callers recalculate cost basis.
+ */
+export async function refreshSpamFlags(userId: string): Promise<number> {
+  const wallets = await storage.getWallets(userId);
+  const entries = await storage.getTokenListEntries(userId);
+  const userTransactions = await storage.getTransactions({ userId });
+  const movements = await storage.getTransactionMovements(userId);
+
+  const byTransaction = new Map<string, TransactionMovement[]>();
+  for (const movement of movements) {
+    const list = byTransaction.get(movement.transactionId) ?? [];
+    list.push(movement);
+    byTransaction.set(movement.transactionId, list);
+  }
+  const txs = userTransactions.map(tx => ({ ...tx, movements: byTransaction.get(tx.id) }));
+
+  const context = buildSpamContext(txs, wallets, entries);
+  const walletsById = new Map(wallets.map(w => [w.id, w] as const));
+
+  let updated = 0;
+  for (const tx of txs) {
+    const wallet = tx.walletId ? walletsById.get(tx.walletId) : undefined;
+    if (!wallet) continue;
+    const reason = detectSpam(tx, wallet, context);
+    if (!!tx.isSpam === !!reason && (tx.spamReason ?? null) === reason) continue;
+    await storage.updateTransaction(tx.id, { isSpam: !!reason, spamReason: reason });
+    updated++;
+  }
+  return updated;
+}
@@ -0,0 +1,371 @@
+import type { Wallet, Transaction, SyncJob, SyncJobOptions, SyncResult, SyncRun } from "../../shared/schema";
+import { storage } from "../storage";
+import { getChainProvider, getSyncableChains } from "./providers";
+import { applyRules } from "./rules";
+import { createMethodDecoder, decodeTransactionMethod } from "./methods";
+import { backfillPrices } from "./pricing";
+import { linkSelfTransfers } from "./selfTransfers";
+import { refreshSpamFlags } from "./spam";
+import { isTelegramConfigured, sendTransactionReviewNotification, sendMessage } from "./telegram";
+
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+const DEFAULT_SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+type ProgressReporter = (progress: number, stage: string) => Promise<void>;
+
+/**
+ * Returns why a wallet cannot be synced right now, or null if it can.
+ * Checked before queueing so the API can reject the request up front.
+ */
+export function getSyncUnavailableReason(wallet: Wallet): { error: string; message: string } | null {
+  if (wallet.walletType === "exchange") {
+    return {
+      error: "Exchange account",
+      message: "Exchange accounts are updated by importing a CSV export, not synced.",
+    };
+  }
+
+  const provider = getChainProvider(wallet.chain);
+  if (!provider) {
+    return {
+      error: "Chain not supported",
+      message: `${wallet.chain} is not yet supported for automatic sync. Supported chains: ${getSyncableChains().join(", ")}`,
+    };
+  }
+
+  if (!provider.isConfigured()) {
+    return {
+      error: "Blockchain API not configured",
+      message: provider.configurationHint,
+    };
+  }
+
+  return null;
+}
+
+async function notifyNeedsReview(userId: string, needsReviewTxs: Transaction[]): Promise<void> {
+  if (needsReviewTxs.length === 0 || !isTelegramConfigured()) return;
+
+  try {
+    const telegramLink = await storage.getTelegramLink(userId);
+    if (telegramLink && telegramLink.isVerified && telegramLink.notifyOnReview) {
+      // Send notifications for up to 3 transactions to avoid spam
+      const toNotify = needsReviewTxs.slice(0, 3);
+      for (const tx of toNotify) {
+        await sendTransactionReviewNotification(telegramLink.telegramChatId, tx);
+      }
+      if (needsReviewTxs.length > 3) {
+        await sendMessage(
+          telegramLink.telegramChatId,
+          `...and ${needsReviewTxs.length - 3} more transactions need review. Check the app for the full list.`
+        );
+      }
+    }
+  } catch (err) {
+    console.error("Error sending Telegram notifications:", err);
+  }
+}
+
+/**
+ * Fetches, classifies, prices and imports a wallet's transfers, then
+ * rebuilds cost basis. Throws if the wallet cannot be synced.
+ */
+export async function runWalletSync(
+  wallet: Wallet,
+  options: SyncJobOptions = {},
+  reportProgress: ProgressReporter = async () => {}
+): Promise<SyncResult> {
+  const unavailable = getSyncUnavailableReason(wallet);
+  const provider = getChainProvider(wallet.chain);
+  if (unavailable || !provider) {
+    throw new Error(unavailable?.message ?? `${wallet.chain} is not supported`);
+  }
+
+  const userId = wallet.userId;
+  const walletId = wallet.id;
+
+  await reportProgress(5, "fetching");
+  // Incremental by default: only ask for transfers from the last synced block on
+  const fromBlock = options.full ? null : wallet.lastSyncedBlock;
+  const result = await provider.fetchTransactions(wallet.address, wallet.chain, walletId, {
+    maxPages: options.maxPages,
+    fromBlock,
+  });
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  await reportProgress(40, "importing");
+  const rules = await storage.getRules(userId);
+  const decoder = createMethodDecoder(await storage.getContractAbis(userId));
+
+  let imported = 0;
+  let skipped = 0;
+  let ruleMatched = 0;
+  let needsReviewTxs: Transaction[] = [];
+
+  // Per wallet: a transfer from another of the user's wallets is already
+  // stored from the sending side, and this wallet needs its own
+  const existingHashes = await storage.getExistingTransactionHashes(
+    result.transactions.map(tx => tx.txHash),
+    userId,
+    walletId
+  );
+
+  for (let index = 0; index < result.transactions.length; index++) {
+    const tx = result.transactions[index];
+    if (!existingHashes.has(tx.txHash)) {
+      // User rules take precedence; heuristics from the fetch are the fallback.
+      // Decode first so rules can match on the method name.
+      const classified = applyRules(rules, decodeTransactionMethod(decoder, tx));
+      if (classified.classificationRuleId) ruleMatched++;
+      const created = await storage.createTransaction(classified);
+      imported++;
+      if (created.needsReview) {
+        needsReviewTxs.push(created);
+      }
+    } else {
+      skipped++;
+    }
+
+    if (index % 50 === 49) {
+      await reportProgress(40 + Math.round((index / result.transactions.length) * 40), "importing");
+    }
+  }
+
+  // A truncated fetch has gaps below the pages it reached, so keep the
+  // previous block and let the next sync fill them in, unless the provider
+  // walked forward and says where to resume
+  const syncedBlock = result.stats?.cursorBlock != null
+    ? result.stats.cursorBlock
+    : result.stats?.truncated
+      ? wallet.lastSyncedBlock
+      : Math.max(wallet.lastSyncedBlock ?? 0, result.stats?.latestBlock ?? 0) || null;
+  await storage.updateWalletSyncState(walletId, {
+    lastSyncedBlock: syncedBlock,
+    lastSyncedAt: new Date(),
+  });
+
+  let selfTransfers = 0;
+  let spam = 0;
+  if (imported > 0) {
+    await reportProgress(85, "pricing");
+    try {
+      await backfillPrices(userId, { walletId });
+    } catch (err) {
+      console.error("Error pricing synced transactions:", err);
+    }
+
+    // Spam is judged once prices are known, and is never linked. New
+    // transfers may be the other side of one in another of the user's
+    // wallets.
+    spam = await refreshSpamFlags(userId);
+    selfTransfers = (await linkSelfTransfers(userId)).length;
+
+    // Spam and linked transfers no longer need review
+    const stillNeedsReview = new Set(
+      (await storage.getTransactions({ userId, needsReview: true, includeSpam: false })).map(tx => tx.id)
+    );
+    needsReviewTxs = needsReviewTxs.filter(tx => stillNeedsReview.has(tx.id));
+  }
+
+  await notifyNeedsReview(userId, needsReviewTxs);
+
+  if (imported > 0) {
+    await reportProgress(95, "cost_basis");
+    await storage.recalculateCostBasis(userId);
+  }
+
+  return {
+    walletId,
+    imported,
+    skipped,
+    ruleMatched,
+    selfTransfers,
+    spam,
+    total: result.transactions.length,
+    pages: result.stats?.pages ?? 0,
+    transfers: result.stats?.transfers ?? 0,
+    truncated: result.stats?.truncated ?? false,
+    fromBlock,
+    lastSyncedBlock: syncedBlock,
+    needsReview: needsReviewTxs.length,
+  };
+}
+
+// A full resync and an explicit page cap are kept from either request
+function mergeSyncOptions(a: SyncJobOptions, b: SyncJobOptions): SyncJobOptions {
+  const maxPages = a.maxPages && b.maxPages ? Math.max(a.maxPages, b.maxPages) : a.maxPages ?? b.maxPages;
+  return {
+    ...(a.full || b.full ? { full: true } : {}),
+    ...(maxPages ? { maxPages } : {}),
+  };
+}
+
+// Whether a job already running with these options does what was asked
+function coversSyncOptions(running: SyncJobOptions, requested: SyncJobOptions): boolean {
+  return (!requested.full || !!running.full) &&
+    (requested.maxPages === undefined || requested.maxPages === running.maxPages);
+}
+
+/**
+ * Queues a sync for the wallet without piling up duplicate work. A job
+ * still waiting in the queue takes on the new options and run; a running
+ * one is reused only if it already does what was asked and can count
+ * toward the run. Otherwise a follow-up job is queued behind it.
+ */
+export async function enqueueWalletSync(
+  wallet: Wallet,
+  options: SyncJobOptions = {},
+  runId: string | null = null
+): Promise<SyncJob> {
+  const active = await storage.getActiveSyncJob(wallet.id);
+  const runFits = !!active && (!runId || !active.runId || active.runId === runId);
+
+  if (active && runFits && active.status === "queued") {
+    const merged = await storage.updateQueuedSyncJob(active.id, {
+      options: mergeSyncOptions(active.options ?? {}, options),
+      runId: active.runId ?? runId,
+    });
+    // Claimed by the worker in the meantime; queue behind it instead
+    if (merged) return merged;
+  } else if (active && runFits && coversSyncOptions(active.options ?? {}, options)) {
+    if (runId && !active.runId) {
+      return (await storage.updateSyncJob(active.id, { runId })) ?? active;
+    }
+    return active;
+  }
+
+  return storage.createSyncJob({
+    userId: wallet.userId,
+    walletId: wallet.id,
+    runId,
+    status: "queued",
+    options,
+  });
+}
+
+async function processJob(job: SyncJob): Promise<void> {
+  const wallet = await storage.getWallet(job.walletId, job.userId);
+  if (!wallet) {
+    await storage.updateSyncJob(job.id, {
+      status: "failed",
+      error: "Wallet not found",
+      finishedAt: new Date(),
+    });
+    return;
+  }
+
+  try {
+    const result = await runWalletSync(wallet, job.options ?? {}, async (progress, stage) => {
+      await storage.updateSyncJob(job.id, { progress, stage });
+    });
+    await storage.updateSyncJob(job.id, {
+      status: "completed",
+      progress: 100,
+      stage: "done",
+      result,
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    console.error(`Sync job ${job.id} failed:`, error);
+    await storage.updateSyncJob(job.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Failed to sync wallet",
+      finishedAt: new Date(),
+    });
+  }
+}
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the in-process worker that drains the sync_jobs table. Jobs left
+ * running by a previous process are put back in the queue first.
+ */
+export async function startSyncWorker(log: (message: string) => void = console.log): Promise<void> {
+  if (workerTimer) return;
+
+  const requeued = await storage.requeueRunningSyncJobs();
+  if (requeued > 0) {
+    log(`requeued ${requeued} interrupted sync job(s)`);
+  }
+
+  const interval = parseInt(process.env.SYNC_WORKER_INTERVAL_MS || "", 10) || DEFAULT_POLL_INTERVAL_MS;
+
+  const tick = async () => {
+    try {
+      let job = await storage.claimNextSyncJob();
+      while (job) {
+        await processJob(job);
+        job = await storage.claimNextSyncJob();
+      }
+    } catch (error) {
+      console.error("Sync worker error:", error);
+    } finally {
+      workerTimer = setTimeout(tick, interval);
+    }
+  };
+
+  workerTimer = setTimeout(tick, 0);
+}
+
+/**
+ * Queues a sync of every active wallet for users whose auto-sync interval
+ * has elapsed, recording one run per user. Wallets on chains that cannot
+ * be synced are left out of the run.
+ */
+export async function runScheduledSyncs(now: Date = new Date()): Promise<SyncRun[]> {
+  const due = await storage.getDueAutoSyncSettings(now);
+  const runs: SyncRun[] = [];
+
+  for (const userSettings of due) {
+    const userId = userSettings.userId;
+    // Mark first so a slow enqueue is not picked up again by the next tick
+    await storage.markAutoSync(userId, now);
+
+    const wallets = (await storage.getActiveWallets(userId))
+      .filter(wallet => !getSyncUnavailableReason(wallet));
+    if (wallets.length === 0) continue;
+
+    const run = await storage.createSyncRun({
+      userId,
+      trigger: "scheduled",
+      walletCount: wallets.length,
+    });
+    for (const wallet of wallets) {
+      await enqueueWalletSync(wallet, {}, run.id);
+    }
+    runs.push(run);
+  }
+
+  return runs;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the auto-sync scheduler. It only queues jobs; the sync worker
+ * does the actual work, including Telegram review notifications.
+ */
+export function startSyncScheduler(log: (message: string) => void = console.log): void {
+  if (schedulerTimer) return;
+
+  const interval = parseInt(process.env.SYNC_SCHEDULER_INTERVAL_MS || "", 10) || DEFAULT_SCHEDULER_INTERVAL_MS;
+
+  const tick = async () => {
+    try {
+      const runs = await runScheduledSyncs();
+      if (runs.length > 0) {
+        log(`queued scheduled sync for ${runs.length} user(s)`);
+      }
+    } catch (error) {
+      console.error("Sync scheduler error:", error);
+    } finally {
+      schedulerTimer = setTimeout(tick, interval);
+    }
+  };
+
+  schedulerTimer = setTimeout(tick, interval);
+}
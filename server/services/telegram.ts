@@ -1,4 +1,4 @@
-import type { Transaction, TelegramLink } from "../../shared/schema";
+import { normalizeClassification, type Transaction, type TelegramLink } from "../../shared/schema";
 
 const TELEGRAM_API_BASE = "https://api.telegram.org/bot";
 
@@ -217,18 +217,14 @@ export function parseUpdate(update: TelegramUpdate): ProcessedUpdate | null {
       }
     }
     
-    const validClassifications = [
-      "swap", "income", "airdrop", "stake", "unstake", 
-      "nft_mint", "expense", "self_transfer", "reward", "interest"
-    ];
-    
-    if (validClassifications.includes(text.toLowerCase())) {
+    const classification = normalizeClassification(text);
+    if (classification) {
       return {
         type: "classification",
         chatId,
         userId,
         username,
-        classification: text.toLowerCase(),
+        classification,
       };
     }
     
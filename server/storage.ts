@@ -1,4 +1,4 @@
-import { eq, desc, and, sql, inArray } from "drizzle-orm";
+import { eq, ne, desc, and, or, sql, inArray, notInArray, isNull, isNotNull } from "drizzle-orm";
 import { db } from "./db";
 import {
   wallets,
@@ -8,12 +8,29 @@ import {
   disposals,
   settings,
   telegramLinks,
+  lotDesignations,
+  tokenPrices,
+  syncJobs,
+  syncRuns,
+  transactionMovements,
+  contractAbis,
+  tokenListEntries,
+  appMeta,
   type InsertWallet,
   type Wallet,
   type InsertTransaction,
+  type InsertTransactionWithMovements,
+  type InsertContractAbi,
+  type ClassificationType,
+  type ContractAbi,
+  type InsertTokenListEntry,
+  type TokenListEntry,
   type Transaction,
+  type InsertTransactionMovement,
+  type TransactionMovement,
   type InsertRule,
   type ClassificationRule,
+  type ClassificationRuleWithStats,
   type InsertTaxLot,
   type TaxLot,
   type InsertDisposal,
@@ -23,14 +40,41 @@ import {
   type DashboardStats,
   type InsertTelegramLink,
   type TelegramLink,
+  type InsertLotDesignation,
+  type LotDesignation,
+  type LotMethod,
+  type LotMethodComparison,
+  type InsertTokenPrice,
+  type TokenPrice,
+  type InsertSyncJob,
+  type SyncJob,
+  type InsertSyncRun,
+  type SyncRun,
+  type SyncRunSummary,
+  LOT_METHODS,
+  DEFAULT_DUST_THRESHOLD,
+  CLASSIFICATION_TYPES,
+  CLASSIFICATION_ALIASES,
+  CLASSIFICATION_TAXONOMY_VERSION,
+  isConfirmedSpam,
 } from "../shared/schema";
+import {
+  computeCostBasis,
+  feeTreatment,
+  summarizeDisposals,
+  type CostBasisTransaction,
+  type LotDesignation as EngineLotDesignation,
+} from "./services/costBasis";
+import { allocateValue, legsFromTransaction } from "./services/movements";
 
 export interface IStorage {
   // Wallets
   getWallets(userId: string): Promise<Wallet[]>;
+  getActiveWallets(userId: string): Promise<Wallet[]>;
   getWallet(id: string, userId: string): Promise<Wallet | undefined>;
   createWallet(wallet: InsertWallet): Promise<Wallet>;
   deleteWallet(id: string, userId: string): Promise<void>;
+  updateWalletSyncState(id: string, state: { lastSyncedBlock?: number | null; lastSyncedAt: Date }): Promise<Wallet | undefined>;
 
   // Transactions
   getTransactions(filters: { 
@@ -39,28 +83,82 @@ export interface IStorage {
     classification?: string;
     needsReview?: boolean;
     walletId?: string;
+    ruleId?: string;
+    // Left out means every row; the API passes the user's showSpam and
+    // showDust settings
+    includeSpam?: boolean;
+    includeDust?: boolean;
   }): Promise<Transaction[]>;
   getTransaction(id: string, userId: string): Promise<Transaction | undefined>;
   getTransactionByHash(txHash: string, userId: string): Promise<Transaction | undefined>;
-  createTransaction(tx: InsertTransaction): Promise<Transaction>;
+  getExistingTransactionHashes(txHashes: string[], userId: string, walletId?: string): Promise<Set<string>>;
+  createTransaction(tx: InsertTransactionWithMovements): Promise<Transaction>;
   updateTransaction(id: string, data: Partial<InsertTransaction>): Promise<Transaction | undefined>;
-  classifyTransaction(id: string, classification: string, userId: string): Promise<Transaction | undefined>;
+  classifyTransaction(id: string, classification: ClassificationType, userId: string): Promise<Transaction | undefined>;
+  migrateClassifications(): Promise<ClassificationMigration>;
+  getAppMeta(key: string): Promise<string | undefined>;
+  refreshDustFlags(userId: string): Promise<number>;
+  getTransactionMovements(userId: string, transactionIds?: string[]): Promise<TransactionMovement[]>;
+  updateTransactionMovement(id: string, data: Partial<InsertTransactionMovement>): Promise<TransactionMovement | undefined>;
 
   // Rules
   getRules(userId: string): Promise<ClassificationRule[]>;
+  getRulesWithStats(userId: string): Promise<ClassificationRuleWithStats[]>;
   getRule(id: string, userId: string): Promise<ClassificationRule | undefined>;
   createRule(rule: InsertRule): Promise<ClassificationRule>;
   updateRule(id: string, data: Partial<InsertRule>, userId: string): Promise<ClassificationRule | undefined>;
   deleteRule(id: string, userId: string): Promise<void>;
 
+  // Contract ABIs
+  getContractAbis(userId: string): Promise<ContractAbi[]>;
+  createContractAbi(abi: InsertContractAbi): Promise<ContractAbi>;
+  deleteContractAbi(id: string, userId: string): Promise<boolean>;
+
+  // Token allow/deny lists
+  getTokenListEntries(userId: string): Promise<TokenListEntry[]>;
+  createTokenListEntry(entry: InsertTokenListEntry): Promise<TokenListEntry>;
+  deleteTokenListEntry(id: string, userId: string): Promise<boolean>;
+
   // Tax Lots
   getTaxLots(walletId?: string): Promise<TaxLot[]>;
+  getUserTaxLots(userId: string, token?: string): Promise<TaxLot[]>;
+  getTaxLot(id: string, userId: string): Promise<TaxLot | undefined>;
   createTaxLot(lot: InsertTaxLot): Promise<TaxLot>;
 
   // Disposals
   getDisposals(year?: number, userId?: string): Promise<Disposal[]>;
   createDisposal(disposal: InsertDisposal): Promise<Disposal>;
 
+  // Cost Basis
+  recalculateCostBasis(userId: string): Promise<{ lots: number; disposals: number }>;
+  compareLotMethods(year: number, userId: string): Promise<LotMethodComparison>;
+  getLotDesignations(disposalTransactionId: string, userId: string): Promise<LotDesignation[]>;
+  replaceLotDesignations(
+    disposalTransactionId: string,
+    userId: string,
+    designations: Omit<InsertLotDesignation, "userId" | "disposalTransactionId">[]
+  ): Promise<LotDesignation[]>;
+
+  // Prices
+  getTokenPrice(chain: string, contractAddress: string, day: string): Promise<TokenPrice | undefined>;
+  upsertTokenPrice(price: InsertTokenPrice): Promise<TokenPrice>;
+
+  // Sync Jobs
+  createSyncJob(job: InsertSyncJob): Promise<SyncJob>;
+  getSyncJob(id: string, userId: string): Promise<SyncJob | undefined>;
+  getActiveSyncJob(walletId: string): Promise<SyncJob | undefined>;
+  getSyncJobs(userId: string, walletId?: string): Promise<SyncJob[]>;
+  updateSyncJob(id: string, data: Partial<InsertSyncJob>): Promise<SyncJob | undefined>;
+  updateQueuedSyncJob(id: string, data: Partial<InsertSyncJob>): Promise<SyncJob | undefined>;
+  claimNextSyncJob(): Promise<SyncJob | undefined>;
+  requeueRunningSyncJobs(): Promise<number>;
+
+  // Scheduled sync runs
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  getSyncRuns(userId: string): Promise<SyncRunSummary[]>;
+  getDueAutoSyncSettings(now: Date): Promise<Settings[]>;
+  markAutoSync(userId: string, at: Date): Promise<void>;
+
   // Settings
   getSettings(userId: string): Promise<Settings | undefined>;
   updateSettings(userId: string, data: Partial<InsertSettings>): Promise<Settings>;
@@ -75,7 +173,7 @@ export interface IStorage {
   getVerifiedTelegramLinksForNotification(): Promise<TelegramLink[]>;
 
   // Dashboard
-  getDashboardStats(userId: string): Promise<DashboardStats>;
+  getDashboardStats(userId: string, visibility?: TransactionVisibility): Promise<DashboardStats>;
 
   // Reports
   getReportSummary(year: number, userId: string): Promise<{
@@ -86,11 +184,50 @@ export interface IStorage {
     longTermLosses: string;
     netGainLoss: string;
     totalIncome: string;
+    incomeByToken: { classification: string; tokenSymbol: string; amount: string; valueUsd: string }[];
+    totalFeesUsd: string;
+    deductibleFeesUsd: string;
     needsReviewCount: number;
     disposals: Disposal[];
   }>;
 }
 
+// Which flagged rows the user wants to see, from showSpam and showDust
+export interface TransactionVisibility {
+  includeSpam?: boolean;
+  includeDust?: boolean;
+}
+
+// What a classification taxonomy migration changed
+export interface ClassificationMigration {
+  transactions: number;
+  rules: number;
+  userIds: string[];
+}
+
+// app_meta key holding the last CLASSIFICATION_TAXONOMY_VERSION applied
+const TAXONOMY_VERSION_KEY = "classification_taxonomy_version";
+
+// Spam rows are hidden unless the user asked to see them
+function notSpam() {
+  return or(eq(transactions.isSpam, false), isNull(transactions.isSpam));
+}
+
+// Report totals keep everything that still counts toward cost basis: only
+// spam the user confirmed with their deny list is left out (isConfirmedSpam)
+function notConfirmedSpam() {
+  return or(
+    eq(transactions.isSpam, false),
+    isNull(transactions.isSpam),
+    isNull(transactions.spamReason),
+    ne(transactions.spamReason, "deny_list")
+  );
+}
+
+function notDust() {
+  return or(eq(transactions.isDust, false), isNull(transactions.isDust));
+}
+
 export class DatabaseStorage implements IStorage {
   // Wallets
   async getWallets(userId: string): Promise<Wallet[]> {
@@ -99,6 +236,12 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(wallets.createdAt));
   }
 
+  async getActiveWallets(userId: string): Promise<Wallet[]> {
+    return await db.select().from(wallets)
+      .where(and(eq(wallets.userId, userId), eq(wallets.isActive, true)))
+      .orderBy(desc(wallets.createdAt));
+  }
+
   async getWallet(id: string, userId: string): Promise<Wallet | undefined> {
     const result = await db.select().from(wallets)
       .where(and(eq(wallets.id, id), eq(wallets.userId, userId)));
@@ -114,6 +257,17 @@ export class DatabaseStorage implements IStorage {
     await db.delete(wallets).where(and(eq(wallets.id, id), eq(wallets.userId, userId)));
   }
 
+  async updateWalletSyncState(
+    id: string,
+    state: { lastSyncedBlock?: number | null; lastSyncedAt: Date }
+  ): Promise<Wallet | undefined> {
+    const result = await db.update(wallets)
+      .set(state)
+      .where(eq(wallets.id, id))
+      .returning();
+    return result[0];
+  }
+
   // Transactions - Get user's wallet IDs first, then filter transactions by those wallets
   async getTransactions(filters: { 
     userId: string;
@@ -121,6 +275,9 @@ export class DatabaseStorage implements IStorage {
     classification?: string;
     needsReview?: boolean;
     walletId?: string;
+    ruleId?: string;
+    includeSpam?: boolean;
+    includeDust?: boolean;
   }): Promise<Transaction[]> {
     // Get user's wallet IDs
     const userWallets = await db.select({ id: wallets.id })
@@ -146,6 +303,15 @@ export class DatabaseStorage implements IStorage {
     if (filters?.walletId) {
       conditions.push(eq(transactions.walletId, filters.walletId));
     }
+    if (filters?.ruleId) {
+      conditions.push(eq(transactions.classificationRuleId, filters.ruleId));
+    }
+    if (filters?.includeSpam === false) {
+      conditions.push(notSpam()!);
+    }
+    if (filters?.includeDust === false) {
+      conditions.push(notDust()!);
+    }
 
     return await db.select()
       .from(transactions)
@@ -186,9 +352,38 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async createTransaction(tx: InsertTransaction): Promise<Transaction> {
-    const result = await db.insert(transactions).values(tx).returning();
-    return result[0];
+  // With a walletId, only that wallet's rows count: a transfer between two
+  // of the user's wallets is stored once from each side
+  async getExistingTransactionHashes(txHashes: string[], userId: string, walletId?: string): Promise<Set<string>> {
+    if (txHashes.length === 0) return new Set();
+
+    const userWallets = await db.select({ id: wallets.id })
+      .from(wallets)
+      .where(eq(wallets.userId, userId));
+    
+    const walletIds = userWallets.map(w => w.id).filter(id => !walletId || id === walletId);
+    if (walletIds.length === 0) return new Set();
+
+    const result = await db.select({ txHash: transactions.txHash })
+      .from(transactions)
+      .where(and(
+        inArray(transactions.txHash, txHashes),
+        inArray(transactions.walletId, walletIds)
+      ));
+    return new Set(result.map(r => r.txHash));
+  }
+
+  async createTransaction({ movements, ...tx }: InsertTransactionWithMovements): Promise<Transaction> {
+    const legs = movements ?? legsFromTransaction(tx);
+    return await db.transaction(async (trx) => {
+      const [created] = await trx.insert(transactions).values(tx).returning();
+      if (legs.length > 0) {
+        await trx.insert(transactionMovements).values(
+          legs.map((leg, position) => ({ ...leg, transactionId: created.id, position }))
+        );
+      }
+      return created;
+    });
   }
 
   async updateTransaction(id: string, data: Partial<InsertTransaction>): Promise<Transaction | undefined> {
@@ -199,23 +394,184 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async classifyTransaction(id: string, classification: string, userId: string): Promise<Transaction | undefined> {
+  async classifyTransaction(id: string, classification: ClassificationType, userId: string): Promise<Transaction | undefined> {
     // Verify transaction belongs to user first
     const tx = await this.getTransaction(id, userId);
     if (!tx) return undefined;
+
+    // Anything but a self-transfer or bridge breaks the link on both sides
+    const keepsLink = classification === "self_transfer" || classification === "bridge";
+    if (tx.linkedTransactionId && !keepsLink) {
+      await db.update(transactions)
+        .set({ linkedTransactionId: null })
+        .where(eq(transactions.id, tx.linkedTransactionId));
+    }
     
     const result = await db.update(transactions)
       .set({ 
         classification, 
         needsReview: false, 
         userClassified: true,
-        classificationConfidence: "1.0"
+        classificationConfidence: "1.0",
+        classificationRuleId: null,
+        ruleMatchedAt: null,
+        previousClassification: null,
+        ...(keepsLink ? {} : { linkedTransactionId: null }),
       })
       .where(eq(transactions.id, id))
       .returning();
     return result[0];
   }
 
+  // Brings stored classifications onto the current taxonomy: aliases are
+  // renamed, anything else unrecognized goes back to review as unknown with
+  // the old name kept in previousClassification, and rules that would
+  // produce it are switched off. Does nothing once app_meta records the
+  // current version. Returns the users whose transactions changed so their
+  // cost basis can be recalculated.
+  async migrateClassifications(): Promise<ClassificationMigration> {
+    const migration: ClassificationMigration = { transactions: 0, rules: 0, userIds: [] };
+    const applied = await this.getAppMeta(TAXONOMY_VERSION_KEY);
+    if (applied !== undefined && Number(applied) >= CLASSIFICATION_TAXONOMY_VERSION) return migration;
+
+    const walletIds = new Set<string>();
+    await db.transaction(async (trx) => {
+      for (const [alias, canonical] of Object.entries(CLASSIFICATION_ALIASES)) {
+        const renamed = await trx.update(transactions)
+          .set({ classification: canonical })
+          .where(eq(transactions.classification, alias))
+          .returning({ walletId: transactions.walletId });
+        renamed.forEach(row => { if (row.walletId) walletIds.add(row.walletId); });
+        migration.transactions += renamed.length;
+
+        const renamedRules = await trx.update(classificationRules)
+          .set({ classification: canonical })
+          .where(eq(classificationRules.classification, alias))
+          .returning({ id: classificationRules.id });
+        migration.rules += renamedRules.length;
+      }
+
+      const unrecognized = await trx.update(transactions)
+        .set({
+          classification: "unknown",
+          previousClassification: sql`${transactions.classification}`,
+          needsReview: true,
+        })
+        .where(or(
+          isNull(transactions.classification),
+          notInArray(transactions.classification, [...CLASSIFICATION_TYPES])
+        ))
+        .returning({ walletId: transactions.walletId });
+      unrecognized.forEach(row => { if (row.walletId) walletIds.add(row.walletId); });
+      migration.transactions += unrecognized.length;
+
+      const disabled = await trx.update(classificationRules)
+        .set({ isActive: false })
+        .where(and(
+          notInArray(classificationRules.classification, [...CLASSIFICATION_TYPES]),
+          eq(classificationRules.isActive, true)
+        ))
+        .returning({ id: classificationRules.id });
+      migration.rules += disabled.length;
+
+      await trx.insert(appMeta)
+        .values({ key: TAXONOMY_VERSION_KEY, value: String(CLASSIFICATION_TAXONOMY_VERSION) })
+        .onConflictDoUpdate({
+          target: appMeta.key,
+          set: { value: String(CLASSIFICATION_TAXONOMY_VERSION), updatedAt: new Date() },
+        });
+    });
+
+    const ids = Array.from(walletIds);
+    if (ids.length > 0) {
+      const owners = await db.selectDistinct({ userId: wallets.userId })
+        .from(wallets)
+        .where(inArray(wallets.id, ids));
+      migration.userIds = owners.map(o => o.userId);
+    }
+    return migration;
+  }
+
+  async getAppMeta(key: string): Promise<string | undefined> {
+    const result = await db.select({ value: appMeta.value })
+      .from(appMeta)
+      .where(eq(appMeta.key, key));
+    return result[0]?.value;
+  }
+
+  // Flags priced transactions worth less than the user's dust threshold and
+  // clears the flag on the rest; unpriced rows are never dust. Returns how
+  // many rows changed.
+  async refreshDustFlags(userId: string): Promise<number> {
+    const userWallets = await db.select({ id: wallets.id })
+      .from(wallets)
+      .where(eq(wallets.userId, userId));
+
+    const walletIds = userWallets.map(w => w.id);
+    if (walletIds.length === 0) return 0;
+
+    const userSettings = await this.getSettings(userId);
+    const threshold = userSettings?.dustThreshold ?? DEFAULT_DUST_THRESHOLD;
+    const dust = sql<boolean>`(${transactions.valueUsd} IS NOT NULL AND ${transactions.valueUsd} < ${threshold})`;
+
+    const result = await db.update(transactions)
+      .set({ isDust: dust })
+      .where(and(
+        inArray(transactions.walletId, walletIds),
+        sql`${transactions.isDust} IS DISTINCT FROM ${dust}`
+      ))
+      .returning({ id: transactions.id });
+    return result.length;
+  }
+
+  async getTransactionMovements(userId: string, transactionIds?: string[]): Promise<TransactionMovement[]> {
+    if (transactionIds && transactionIds.length === 0) return [];
+
+    const userWallets = await db.select({ id: wallets.id })
+      .from(wallets)
+      .where(eq(wallets.userId, userId));
+
+    const walletIds = userWallets.map(w => w.id);
+    if (walletIds.length === 0) return [];
+
+    const conditions = [inArray(transactions.walletId, walletIds)];
+    if (transactionIds) {
+      conditions.push(inArray(transactions.id, transactionIds));
+    }
+    const userTransactionIds = db.select({ id: transactions.id })
+      .from(transactions)
+      .where(and(...conditions));
+
+    return await db.select().from(transactionMovements)
+      .where(inArray(transactionMovements.transactionId, userTransactionIds))
+      .orderBy(transactionMovements.transactionId, transactionMovements.position);
+  }
+
+  async updateTransactionMovement(
+    id: string,
+    data: Partial<InsertTransactionMovement>
+  ): Promise<TransactionMovement | undefined> {
+    const result = await db.update(transactionMovements)
+      .set(data)
+      .where(eq(transactionMovements.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Transactions with their movements attached, as the cost basis engine takes them
+  private async getCostBasisTransactions(userId: string): Promise<CostBasisTransaction[]> {
+    const userTransactions = await this.getTransactions({ userId });
+    const movements = await this.getTransactionMovements(userId);
+
+    const byTransaction = new Map<string, TransactionMovement[]>();
+    for (const movement of movements) {
+      const list = byTransaction.get(movement.transactionId) ?? [];
+      list.push(movement);
+      byTransaction.set(movement.transactionId, list);
+    }
+    return userTransactions.map(tx => ({ ...tx, movements: byTransaction.get(tx.id) }));
+  }
+
   // Rules
   async getRules(userId: string): Promise<ClassificationRule[]> {
     return await db.select().from(classificationRules)
@@ -223,6 +579,30 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(classificationRules.priority));
   }
 
+  async getRulesWithStats(userId: string): Promise<ClassificationRuleWithStats[]> {
+    const rules = await this.getRules(userId);
+    if (rules.length === 0) return [];
+
+    const stats = await db.select({
+      ruleId: transactions.classificationRuleId,
+      count: sql<number>`count(*)`,
+      lastMatchedAt: sql<Date | null>`max(${transactions.ruleMatchedAt})`.mapWith(transactions.ruleMatchedAt),
+    })
+      .from(transactions)
+      .where(inArray(transactions.classificationRuleId, rules.map(r => r.id)))
+      .groupBy(transactions.classificationRuleId);
+
+    const statsByRule = new Map(stats.map(s => [s.ruleId, s]));
+    return rules.map(rule => {
+      const ruleStats = statsByRule.get(rule.id);
+      return {
+        ...rule,
+        hitCount: Number(ruleStats?.count ?? 0),
+        lastMatchedAt: ruleStats?.lastMatchedAt ?? null,
+      };
+    });
+  }
+
   async getRule(id: string, userId: string): Promise<ClassificationRule | undefined> {
     const result = await db.select().from(classificationRules)
       .where(and(eq(classificationRules.id, id), eq(classificationRules.userId, userId)));
@@ -248,6 +628,54 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
+  // Contract ABIs
+  async getContractAbis(userId: string): Promise<ContractAbi[]> {
+    return await db.select().from(contractAbis)
+      .where(eq(contractAbis.userId, userId))
+      .orderBy(desc(contractAbis.createdAt));
+  }
+
+  async createContractAbi(abi: InsertContractAbi): Promise<ContractAbi> {
+    const result = await db.insert(contractAbis).values({
+      ...abi,
+      chain: abi.chain || null,
+      contractAddress: abi.contractAddress?.toLowerCase() || null,
+    }).returning();
+    return result[0];
+  }
+
+  async deleteContractAbi(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(contractAbis)
+      .where(and(eq(contractAbis.id, id), eq(contractAbis.userId, userId)))
+      .returning({ id: contractAbis.id });
+    return result.length > 0;
+  }
+
+  // Token allow/deny lists
+  async getTokenListEntries(userId: string): Promise<TokenListEntry[]> {
+    return await db.select().from(tokenListEntries)
+      .where(eq(tokenListEntries.userId, userId))
+      .orderBy(desc(tokenListEntries.createdAt));
+  }
+
+  async createTokenListEntry(entry: InsertTokenListEntry): Promise<TokenListEntry> {
+    // Addresses compare lowercase; Solana mints are case-sensitive
+    const token = /^0x[0-9a-fA-F]{40}$/.test(entry.token) ? entry.token.toLowerCase() : entry.token;
+    const result = await db.insert(tokenListEntries).values({
+      ...entry,
+      chain: entry.chain || null,
+      token,
+    }).returning();
+    return result[0];
+  }
+
+  async deleteTokenListEntry(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(tokenListEntries)
+      .where(and(eq(tokenListEntries.id, id), eq(tokenListEntries.userId, userId)))
+      .returning({ id: tokenListEntries.id });
+    return result.length > 0;
+  }
+
   // Tax Lots
   async getTaxLots(walletId?: string): Promise<TaxLot[]> {
     if (walletId) {
@@ -256,6 +684,37 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(taxLots);
   }
 
+  async getUserTaxLots(userId: string, token?: string): Promise<TaxLot[]> {
+    const userWallets = await db.select({ id: wallets.id })
+      .from(wallets)
+      .where(eq(wallets.userId, userId));
+    
+    const walletIds = userWallets.map(w => w.id);
+    if (walletIds.length === 0) return [];
+
+    const conditions = [inArray(taxLots.walletId, walletIds)];
+    if (token) {
+      conditions.push(eq(taxLots.token, token.toLowerCase()));
+    }
+
+    return await db.select().from(taxLots)
+      .where(and(...conditions))
+      .orderBy(taxLots.acquiredAt);
+  }
+
+  async getTaxLot(id: string, userId: string): Promise<TaxLot | undefined> {
+    const userWallets = await db.select({ id: wallets.id })
+      .from(wallets)
+      .where(eq(wallets.userId, userId));
+    
+    const walletIds = userWallets.map(w => w.id);
+    if (walletIds.length === 0) return undefined;
+
+    const result = await db.select().from(taxLots)
+      .where(and(eq(taxLots.id, id), inArray(taxLots.walletId, walletIds)));
+    return result[0];
+  }
+
   async createTaxLot(lot: InsertTaxLot): Promise<TaxLot> {
     const result = await db.insert(taxLots).values(lot).returning();
     return result[0];
@@ -266,8 +725,8 @@ export class DatabaseStorage implements IStorage {
     const conditions = [];
     
     if (year) {
-      const startDate = new Date(year, 0, 1);
-      const endDate = new Date(year + 1, 0, 1);
+      const startDate = new Date(Date.UTC(year, 0, 1));
+      const endDate = new Date(Date.UTC(year + 1, 0, 1));
       conditions.push(sql`${disposals.disposedAt} >= ${startDate}`);
       conditions.push(sql`${disposals.disposedAt} < ${endDate}`);
     }
@@ -281,14 +740,12 @@ export class DatabaseStorage implements IStorage {
       const walletIds = userWallets.map(w => w.id);
       if (walletIds.length === 0) return [];
       
-      const userTaxLots = await db.select({ id: taxLots.id })
-        .from(taxLots)
-        .where(inArray(taxLots.walletId, walletIds));
-      
-      const taxLotIds = userTaxLots.map(t => t.id);
-      if (taxLotIds.length === 0) return [];
+      // Disposals without a matching lot (zero basis) only link to the transaction
+      const userTransactionIds = db.select({ id: transactions.id })
+        .from(transactions)
+        .where(inArray(transactions.walletId, walletIds));
       
-      conditions.push(inArray(disposals.taxLotId, taxLotIds));
+      conditions.push(inArray(disposals.transactionId, userTransactionIds));
     }
     
     if (conditions.length > 0) {
@@ -306,6 +763,300 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Cost Basis - rebuilds all lots and disposals for the user from their transactions
+  async recalculateCostBasis(userId: string): Promise<{ lots: number; disposals: number }> {
+    const userTransactions = await this.getCostBasisTransactions(userId);
+    const userSettings = await this.getSettings(userId);
+    const designations = await this.getDesignationMap(userId);
+
+    const result = computeCostBasis(userTransactions, {
+      lotMethod: (userSettings?.lotMethod as LotMethod) || "fifo",
+      designations,
+    });
+
+    await db.transaction(async (trx) => {
+      const userWallets = await trx.select({ id: wallets.id })
+        .from(wallets)
+        .where(eq(wallets.userId, userId));
+      const userWalletIds = userWallets.map(w => w.id);
+
+      if (userWalletIds.length > 0) {
+        const userTransactionIds = trx.select({ id: transactions.id })
+          .from(transactions)
+          .where(inArray(transactions.walletId, userWalletIds));
+        await trx.delete(disposals).where(inArray(disposals.transactionId, userTransactionIds));
+        await trx.delete(taxLots).where(inArray(taxLots.walletId, userWalletIds));
+      }
+
+      const lotIds = new Map<string, string>();
+      if (result.lots.length > 0) {
+        const inserted = await trx.insert(taxLots)
+          .values(result.lots.map(({ key, ...lot }) => lot))
+          .returning({ id: taxLots.id });
+        result.lots.forEach((lot, i) => lotIds.set(lot.key, inserted[i].id));
+      }
+
+      if (result.disposals.length > 0) {
+        await trx.insert(disposals).values(
+          result.disposals.map(({ lotKey, ...disposal }) => ({
+            ...disposal,
+            taxLotId: lotKey ? lotIds.get(lotKey) ?? null : null,
+          }))
+        );
+      }
+    });
+
+    return { lots: result.lots.length, disposals: result.disposals.length };
+  }
+
+  // What-if: recompute the year's disposals under every lot method without persisting
+  async compareLotMethods(year: number, userId: string): Promise<LotMethodComparison> {
+    const userTransactions = await this.getCostBasisTransactions(userId);
+    const userSettings = await this.getSettings(userId);
+    const designations = await this.getDesignationMap(userId);
+    const currentMethod = (userSettings?.lotMethod as LotMethod) || "fifo";
+
+    const start = new Date(Date.UTC(year, 0, 1));
+    const end = new Date(Date.UTC(year + 1, 0, 1));
+
+    const methods = [];
+    const byTransaction = new Map<string, LotMethodComparison["disposals"][number]>();
+
+    for (const lotMethod of LOT_METHODS) {
+      const result = computeCostBasis(userTransactions, { lotMethod, designations });
+      methods.push({ lotMethod, ...summarizeDisposals(result.disposals, year) });
+
+      for (const d of result.disposals) {
+        if (d.disposedAt < start || d.disposedAt >= end || !d.transactionId) continue;
+
+        let row = byTransaction.get(d.transactionId);
+        if (!row) {
+          row = {
+            transactionId: d.transactionId,
+            tokenSymbol: d.tokenSymbol,
+            amount: "0",
+            disposedAt: d.disposedAt.toISOString(),
+            proceedsUsd: "0.00",
+            gainLossByMethod: Object.fromEntries(LOT_METHODS.map(m => [m, "0.00"])) as Record<LotMethod, string>,
+            deltaByMethod: Object.fromEntries(LOT_METHODS.map(m => [m, "0.00"])) as Record<LotMethod, string>,
+          };
+          byTransaction.set(d.transactionId, row);
+        }
+
+        // Amount and proceeds do not depend on the method, so take them from the first pass
+        if (lotMethod === LOT_METHODS[0]) {
+          row.amount = (parseFloat(row.amount) + parseFloat(d.amount)).toString();
+          row.proceedsUsd = (parseFloat(row.proceedsUsd) + parseFloat(d.proceedsUsd)).toFixed(2);
+        }
+        row.gainLossByMethod[lotMethod] = (parseFloat(row.gainLossByMethod[lotMethod]) + parseFloat(d.gainLossUsd)).toFixed(2);
+      }
+    }
+
+    const comparisonDisposals = Array.from(byTransaction.values())
+      .sort((a, b) => new Date(b.disposedAt).getTime() - new Date(a.disposedAt).getTime());
+    for (const row of comparisonDisposals) {
+      const baseline = parseFloat(row.gainLossByMethod[currentMethod]);
+      for (const m of LOT_METHODS) {
+        row.deltaByMethod[m] = (parseFloat(row.gainLossByMethod[m]) - baseline).toFixed(2);
+      }
+    }
+
+    return { year, currentMethod, methods, disposals: comparisonDisposals };
+  }
+
+  private async getDesignationMap(userId: string): Promise<Map<string, EngineLotDesignation[]>> {
+    const userDesignations = await db.select().from(lotDesignations)
+      .where(eq(lotDesignations.userId, userId));
+
+    const designations = new Map<string, EngineLotDesignation[]>();
+    for (const d of userDesignations) {
+      const list = designations.get(d.disposalTransactionId) ?? [];
+      list.push({ lotTransactionId: d.lotTransactionId, amount: parseFloat(d.amount) });
+      designations.set(d.disposalTransactionId, list);
+    }
+    return designations;
+  }
+
+  async getLotDesignations(disposalTransactionId: string, userId: string): Promise<LotDesignation[]> {
+    return await db.select().from(lotDesignations)
+      .where(and(
+        eq(lotDesignations.disposalTransactionId, disposalTransactionId),
+        eq(lotDesignations.userId, userId)
+      ))
+      .orderBy(lotDesignations.createdAt);
+  }
+
+  async replaceLotDesignations(
+    disposalTransactionId: string,
+    userId: string,
+    designations: Omit<InsertLotDesignation, "userId" | "disposalTransactionId">[]
+  ): Promise<LotDesignation[]> {
+    return await db.transaction(async (trx) => {
+      await trx.delete(lotDesignations).where(and(
+        eq(lotDesignations.disposalTransactionId, disposalTransactionId),
+        eq(lotDesignations.userId, userId)
+      ));
+      if (designations.length === 0) return [];
+      return await trx.insert(lotDesignations)
+        .values(designations.map(d => ({ ...d, userId, disposalTransactionId })))
+        .returning();
+    });
+  }
+
+  // Prices
+  async getTokenPrice(chain: string, contractAddress: string, day: string): Promise<TokenPrice | undefined> {
+    const result = await db.select().from(tokenPrices)
+      .where(and(
+        eq(tokenPrices.chain, chain),
+        eq(tokenPrices.contractAddress, contractAddress),
+        eq(tokenPrices.day, day)
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async upsertTokenPrice(price: InsertTokenPrice): Promise<TokenPrice> {
+    const result = await db.insert(tokenPrices)
+      .values(price)
+      .onConflictDoUpdate({
+        target: [tokenPrices.chain, tokenPrices.contractAddress, tokenPrices.day],
+        set: { priceUsd: price.priceUsd, source: price.source },
+      })
+      .returning();
+    return result[0];
+  }
+
+  // Sync Jobs
+  async createSyncJob(job: InsertSyncJob): Promise<SyncJob> {
+    const result = await db.insert(syncJobs).values(job).returning();
+    return result[0];
+  }
+
+  async getSyncJob(id: string, userId: string): Promise<SyncJob | undefined> {
+    const result = await db.select().from(syncJobs)
+      .where(and(eq(syncJobs.id, id), eq(syncJobs.userId, userId)));
+    return result[0];
+  }
+
+  async getActiveSyncJob(walletId: string): Promise<SyncJob | undefined> {
+    const result = await db.select().from(syncJobs)
+      .where(and(
+        eq(syncJobs.walletId, walletId),
+        inArray(syncJobs.status, ["queued", "running"])
+      ))
+      .orderBy(desc(syncJobs.createdAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getSyncJobs(userId: string, walletId?: string): Promise<SyncJob[]> {
+    const conditions = [eq(syncJobs.userId, userId)];
+    if (walletId) {
+      conditions.push(eq(syncJobs.walletId, walletId));
+    }
+    return await db.select().from(syncJobs)
+      .where(and(...conditions))
+      .orderBy(desc(syncJobs.createdAt))
+      .limit(50);
+  }
+
+  async updateSyncJob(id: string, data: Partial<InsertSyncJob>): Promise<SyncJob | undefined> {
+    const result = await db.update(syncJobs)
+      .set(data)
+      .where(eq(syncJobs.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Only touches the job while no worker has claimed it, so a change can't
+  // be lost to a run that already read the old options
+  async updateQueuedSyncJob(id: string, data: Partial<InsertSyncJob>): Promise<SyncJob | undefined> {
+    const result = await db.update(syncJobs)
+      .set(data)
+      .where(and(eq(syncJobs.id, id), eq(syncJobs.status, "queued")))
+      .returning();
+    return result[0];
+  }
+
+  // Atomically moves the oldest queued job to running; SKIP LOCKED lets
+  // several workers poll the same table without claiming the same job
+  async claimNextSyncJob(): Promise<SyncJob | undefined> {
+    const result = await db.update(syncJobs)
+      .set({ status: "running", startedAt: new Date(), stage: "starting" })
+      .where(sql`${syncJobs.id} = (
+        SELECT ${syncJobs.id} FROM ${syncJobs}
+        WHERE ${syncJobs.status} = 'queued'
+        ORDER BY ${syncJobs.createdAt}
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )`)
+      .returning();
+    return result[0];
+  }
+
+  async requeueRunningSyncJobs(): Promise<number> {
+    const result = await db.update(syncJobs)
+      .set({ status: "queued", progress: 0, stage: null, startedAt: null })
+      .where(eq(syncJobs.status, "running"))
+      .returning({ id: syncJobs.id });
+    return result.length;
+  }
+
+  // Scheduled sync runs
+  async createSyncRun(run: InsertSyncRun): Promise<SyncRun> {
+    const result = await db.insert(syncRuns).values(run).returning();
+    return result[0];
+  }
+
+  async getSyncRuns(userId: string): Promise<SyncRunSummary[]> {
+    const runs = await db.select().from(syncRuns)
+      .where(eq(syncRuns.userId, userId))
+      .orderBy(desc(syncRuns.createdAt))
+      .limit(20);
+    if (runs.length === 0) return [];
+
+    const jobs = await db.select().from(syncJobs)
+      .where(inArray(syncJobs.runId, runs.map(r => r.id)));
+
+    return runs.map(run => {
+      const runJobs = jobs.filter(job => job.runId === run.id);
+      const pending = runJobs.some(job => job.status === "queued" || job.status === "running");
+      const failed = runJobs.filter(job => job.status === "failed").length;
+      const finishedTimes = runJobs
+        .map(job => job.finishedAt)
+        .filter((d): d is Date => !!d)
+        .map(d => new Date(d).getTime());
+
+      return {
+        ...run,
+        status: pending ? "running" : failed > 0 ? "failed" : "completed",
+        imported: runJobs.reduce((sum, job) => sum + (job.result?.imported ?? 0), 0),
+        needsReview: runJobs.reduce((sum, job) => sum + (job.result?.needsReview ?? 0), 0),
+        failed,
+        finishedAt: !pending && finishedTimes.length > 0 ? new Date(Math.max(...finishedTimes)) : null,
+      };
+    });
+  }
+
+  // Settings rows whose auto-sync interval has elapsed since the last run
+  async getDueAutoSyncSettings(now: Date): Promise<Settings[]> {
+    return await db.select().from(settings)
+      .where(and(
+        isNotNull(settings.autoSyncIntervalMinutes),
+        sql`${settings.autoSyncIntervalMinutes} > 0`,
+        or(
+          isNull(settings.lastAutoSyncAt),
+          sql`${settings.lastAutoSyncAt} + ${settings.autoSyncIntervalMinutes} * interval '1 minute' <= ${now}`
+        )
+      ));
+  }
+
+  async markAutoSync(userId: string, at: Date): Promise<void> {
+    await db.update(settings)
+      .set({ lastAutoSyncAt: at })
+      .where(eq(settings.userId, userId));
+  }
+
   // Settings
   async getSettings(userId: string): Promise<Settings | undefined> {
     const result = await db.select().from(settings).where(eq(settings.userId, userId)).limit(1);
@@ -372,7 +1123,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Dashboard
-  async getDashboardStats(userId: string): Promise<DashboardStats> {
+  async getDashboardStats(userId: string, visibility: TransactionVisibility = {}): Promise<DashboardStats> {
     const [walletCount] = await db.select({ count: sql<number>`count(*)` })
       .from(wallets)
       .where(eq(wallets.userId, userId));
@@ -399,20 +1150,23 @@ export class DatabaseStorage implements IStorage {
       };
     }
     
+    const visible = and(
+      inArray(transactions.walletId, walletIds),
+      visibility.includeSpam ? undefined : notSpam(),
+      visibility.includeDust === false ? notDust() : undefined
+    );
+
     const [txCount] = await db.select({ count: sql<number>`count(*)` })
       .from(transactions)
-      .where(inArray(transactions.walletId, walletIds));
+      .where(visible);
     
     const [reviewCount] = await db.select({ count: sql<number>`count(*)` })
       .from(transactions)
-      .where(and(
-        inArray(transactions.walletId, walletIds),
-        eq(transactions.needsReview, true)
-      ));
+      .where(and(visible, eq(transactions.needsReview, true)));
 
     const recentTxs = await db.select()
       .from(transactions)
-      .where(inArray(transactions.walletId, walletIds))
+      .where(visible)
       .orderBy(desc(transactions.timestamp))
       .limit(5);
 
@@ -436,7 +1190,7 @@ export class DatabaseStorage implements IStorage {
       value: sql<string>`COALESCE(sum(${transactions.valueUsd}), 0)`,
     })
       .from(transactions)
-      .where(inArray(transactions.walletId, walletIds))
+      .where(visible)
       .groupBy(transactions.chain);
 
     // Calculate classification breakdown
@@ -445,7 +1199,7 @@ export class DatabaseStorage implements IStorage {
       count: sql<number>`count(*)`,
     })
       .from(transactions)
-      .where(inArray(transactions.walletId, walletIds))
+      .where(visible)
       .groupBy(transactions.classification);
 
     return {
@@ -478,6 +1232,9 @@ export class DatabaseStorage implements IStorage {
     longTermLosses: string;
     netGainLoss: string;
     totalIncome: string;
+    incomeByToken: { classification: string; tokenSymbol: string; amount: string; valueUsd: string }[];
+    totalFeesUsd: string;
+    deductibleFeesUsd: string;
     needsReviewCount: number;
     disposals: Disposal[];
   }> {
@@ -496,7 +1253,8 @@ export class DatabaseStorage implements IStorage {
         .from(transactions)
         .where(and(
           inArray(transactions.walletId, walletIds),
-          eq(transactions.needsReview, true)
+          eq(transactions.needsReview, true),
+          notConfirmedSpam()
         ));
     }
 
@@ -524,25 +1282,57 @@ export class DatabaseStorage implements IStorage {
 
     // Calculate income from reward/airdrop transactions
     let totalIncome = 0;
+    const incomeByToken = new Map<string, { classification: string; tokenSymbol: string; amount: number; valueUsd: number }>();
     if (walletIds.length > 0) {
       const incomeTransactions = await db.select()
         .from(transactions)
         .where(
           and(
             inArray(transactions.walletId, walletIds),
+            notConfirmedSpam(),
             sql`${transactions.classification} IN ('reward', 'airdrop', 'interest', 'income')`,
-            sql`${transactions.timestamp} >= ${new Date(year, 0, 1)}`,
-            sql`${transactions.timestamp} < ${new Date(year + 1, 0, 1)}`
+            sql`${transactions.timestamp} >= ${new Date(Date.UTC(year, 0, 1))}`,
+            sql`${transactions.timestamp} < ${new Date(Date.UTC(year + 1, 0, 1))}`
           )
         );
 
+      // Batched claims receive several tokens; report each received leg
+      const movements = await this.getTransactionMovements(userId, incomeTransactions.map(tx => tx.id));
       for (const tx of incomeTransactions) {
-        if (tx.valueUsd) {
-          totalIncome += parseFloat(tx.valueUsd);
-        }
+        const value = tx.valueUsd ? parseFloat(tx.valueUsd) : 0;
+        totalIncome += value;
+
+        const stored = movements.filter(m => m.transactionId === tx.id);
+        const received = (stored.length > 0 ? stored : legsFromTransaction(tx))
+          .filter(leg => leg.direction === "in");
+        const legValues = allocateValue(value, received.map(leg => leg.valueUsd ? parseFloat(leg.valueUsd) : null));
+        received.forEach((leg, i) => {
+          const classification = tx.classification || "income";
+          const tokenSymbol = leg.tokenSymbol || leg.token || "unknown";
+          const key = `${classification}:${tokenSymbol}`;
+          const row = incomeByToken.get(key) ?? { classification, tokenSymbol, amount: 0, valueUsd: 0 };
+          row.amount += parseFloat(leg.amount);
+          row.valueUsd += legValues[i];
+          incomeByToken.set(key, row);
+        });
       }
     }
 
+    // Fees folded into basis or proceeds already show up in the gains above;
+    // the rest (transfers, approvals, failed calls) are reported on their own.
+    // Confirmed spam is left out of the tax math entirely, as in computeCostBasis.
+    let totalFeesUsd = 0;
+    let deductibleFeesUsd = 0;
+    const yearStart = new Date(Date.UTC(year, 0, 1));
+    const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
+    for (const tx of await this.getCostBasisTransactions(userId)) {
+      const fee = tx.gasFeeUsd ? parseFloat(tx.gasFeeUsd) : 0;
+      const timestamp = new Date(tx.timestamp);
+      if (isConfirmedSpam(tx) || !(fee > 0) || timestamp < yearStart || timestamp >= yearEnd) continue;
+      totalFeesUsd += fee;
+      if (feeTreatment(tx) === "deductible") deductibleFeesUsd += fee;
+    }
+
     const netGainLoss = (shortTermGains - shortTermLosses) + (longTermGains - longTermLosses);
 
     return {
@@ -553,6 +1343,14 @@ export class DatabaseStorage implements IStorage {
       longTermLosses: longTermLosses.toFixed(2),
       netGainLoss: netGainLoss.toFixed(2),
       totalIncome: totalIncome.toFixed(2),
+      incomeByToken: Array.from(incomeByToken.values()).map(row => ({
+        classification: row.classification,
+        tokenSymbol: row.tokenSymbol,
+        amount: row.amount.toString(),
+        valueUsd: row.valueUsd.toFixed(2),
+      })),
+      totalFeesUsd: totalFeesUsd.toFixed(2),
+      deductibleFeesUsd: deductibleFeesUsd.toFixed(2),
       needsReviewCount: Number(reviewCount.count),
       disposals: yearDisposals,
     };
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, decimal, boolean, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, decimal, boolean, integer, jsonb, date, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -21,6 +21,19 @@ export const SUPPORTED_CHAINS = [
 
 export type Chain = typeof SUPPORTED_CHAINS[number];
 
+// Symbols of each chain's native asset (the one fees are paid in), primary first
+export const NATIVE_SYMBOLS: Record<string, string[]> = {
+  ethereum: ["ETH"],
+  arbitrum: ["ETH"],
+  optimism: ["ETH"],
+  base: ["ETH"],
+  polygon: ["MATIC", "POL"],
+  avalanche: ["AVAX"],
+  bsc: ["BNB"],
+  solana: ["SOL"],
+  bitcoin: ["BTC"],
+};
+
 // Transaction classification types
 export const CLASSIFICATION_TYPES = [
   "swap",
@@ -42,6 +55,8 @@ export const CLASSIFICATION_TYPES = [
   "unwrap",
   "migration",
   "self_transfer",
+  "transfer",
+  "contract_interaction",
   "income",
   "expense",
   "unknown"
@@ -49,10 +64,104 @@ export const CLASSIFICATION_TYPES = [
 
 export type ClassificationType = typeof CLASSIFICATION_TYPES[number];
 
+// Bump when a classification is renamed or removed, and map the old name
+// in CLASSIFICATION_ALIASES so stored rows are migrated on the next startup;
+// the version last applied is kept in app_meta
+export const CLASSIFICATION_TAXONOMY_VERSION = 2;
+
+// Other names for canonical classifications: earlier spellings, exchange
+// wording and what people type into the Telegram bot
+export const CLASSIFICATION_ALIASES: Record<string, ClassificationType> = {
+  buy: "swap",
+  sell: "swap",
+  trade: "swap",
+  exchange: "swap",
+  transfer_in: "transfer",
+  transfer_out: "transfer",
+  send: "transfer",
+  receive: "transfer",
+  deposit: "transfer",
+  withdrawal: "transfer",
+  approval: "contract_interaction",
+  approve: "contract_interaction",
+  staking: "stake",
+  unstaking: "unstake",
+  add_liquidity: "lp_deposit",
+  remove_liquidity: "lp_withdraw",
+  mint: "nft_mint",
+  staking_reward: "reward",
+  rewards: "reward",
+  fee: "expense",
+  spend: "expense",
+  internal: "self_transfer",
+};
+
+/**
+ * Canonical classification for a user- or source-supplied name, or null
+ * when it does not name one. Case, spaces and hyphens are ignored.
+ */
+export function normalizeClassification(value: string): ClassificationType | null {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((CLASSIFICATION_TYPES as readonly string[]).includes(key)) return key as ClassificationType;
+  return CLASSIFICATION_ALIASES[key] ?? null;
+}
+
+export const classificationSchema = z.preprocess(
+  value => typeof value === "string" ? normalizeClassification(value) ?? value : value,
+  z.enum(CLASSIFICATION_TYPES)
+);
+
 // Cost basis methods
 export const LOT_METHODS = ["fifo", "lifo", "hifo", "specific_id"] as const;
 export type LotMethod = typeof LOT_METHODS[number];
 
+// Directions a classification rule can match on
+export const RULE_DIRECTIONS = ["in", "out", "both"] as const;
+export type RuleDirection = typeof RULE_DIRECTIONS[number];
+
+// Centralized exchanges whose CSV exports can be imported
+export const SUPPORTED_EXCHANGES = ["coinbase", "kraken", "binance"] as const;
+export type Exchange = typeof SUPPORTED_EXCHANGES[number];
+
+// On-chain wallets are synced from a provider; exchange accounts are filled
+// from CSV exports and use the exchange name as their chain
+export const WALLET_TYPES = ["onchain", "exchange"] as const;
+export type WalletType = typeof WALLET_TYPES[number];
+
+// Why a transaction was flagged as spam
+export const SPAM_REASONS = [
+  "deny_list",
+  "phishing_symbol",
+  "address_poisoning",
+  "zero_value_transfer",
+  "unsolicited_no_liquidity",
+] as const;
+export type SpamReason = typeof SPAM_REASONS[number];
+
+/**
+ * Whether the user has settled that a transaction is spam, by putting its
+ * token on their deny list. Heuristic flags hide a row but it still counts
+ * toward cost basis until then.
+ */
+export function isConfirmedSpam(tx: { isSpam: boolean | null; spamReason: SpamReason | null }): boolean {
+  return !!tx.isSpam && tx.spamReason === "deny_list";
+}
+
+// Tokens the user always trusts or always treats as spam
+export const TOKEN_LIST_TYPES = ["allow", "deny"] as const;
+export type TokenListType = typeof TOKEN_LIST_TYPES[number];
+
+// Fiat currencies are never tracked as lots
+export const FIAT_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "AUD", "JPY", "CHF"] as const;
+
+// Dollar stablecoins are held as lots like any token, but a trade quoted in
+// one is valued at face value the way a USD trade is
+export const USD_STABLECOINS = ["USDT", "USDC", "DAI", "BUSD", "TUSD", "USDP", "PYUSD", "FDUSD", "GUSD"] as const;
+
+// Priced transactions worth less than this many USD are dust unless the
+// user picks another threshold
+export const DEFAULT_DUST_THRESHOLD = "1.00";
+
 // Wallets table
 export const wallets = pgTable("wallets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -60,14 +169,20 @@ export const wallets = pgTable("wallets", {
   address: text("address").notNull(),
   chain: text("chain").notNull(),
   label: text("label"),
+  walletType: text("wallet_type").notNull().default("onchain"),
   entityType: text("entity_type").default("personal"),
   isActive: boolean("is_active").default(true),
+  // Highest block seen by the last complete sync; incremental syncs start here
+  lastSyncedBlock: integer("last_synced_block"),
+  lastSyncedAt: timestamp("last_synced_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertWalletSchema = createInsertSchema(wallets).omit({ 
   id: true, 
-  createdAt: true 
+  createdAt: true,
+  lastSyncedBlock: true,
+  lastSyncedAt: true,
 });
 
 export type InsertWallet = z.infer<typeof insertWalletSchema>;
@@ -95,27 +210,58 @@ export const transactions = pgTable("transactions", {
   classificationConfidence: decimal("classification_confidence", { precision: 5, scale: 4 }),
   needsReview: boolean("needs_review").default(false),
   userClassified: boolean("user_classified").default(false),
+  // Name the row was classified under before a taxonomy migration dropped
+  // it, shown in review until the user picks a current classification
+  previousClassification: text("previous_classification"),
+  classificationRuleId: varchar("classification_rule_id")
+    .references((): AnyPgColumn => classificationRules.id, { onDelete: "set null" }),
+  ruleMatchedAt: timestamp("rule_matched_at"),
+  // The other side of a self-transfer or bridge between two of the user's
+  // wallets; cost basis follows the tokens across the link
+  linkedTransactionId: varchar("linked_transaction_id")
+    .references((): AnyPgColumn => transactions.id, { onDelete: "set null" }),
   
   // Contract interaction
   contractAddress: text("contract_address"),
   methodName: text("method_name"),
+  // First four bytes of the call data, kept even when no signature is known
+  methodSelector: text("method_selector"),
+  methodArgs: jsonb("method_args").$type<MethodArgument[]>(),
+  // Raw call data so methods can be decoded again when ABIs are added
+  inputData: text("input_data"),
   
   // Fees
   gasFee: decimal("gas_fee", { precision: 38, scale: 18 }),
   gasFeeUsd: decimal("gas_fee_usd", { precision: 20, scale: 2 }),
+  // Asset gasFee was paid in when it is not the chain's native asset, such
+  // as a trading fee an exchange took in BNB or in the coin bought
+  feeSymbol: text("fee_symbol"),
   
   // Pricing
   priceAtTime: decimal("price_at_time", { precision: 20, scale: 8 }),
   valueUsd: decimal("value_usd", { precision: 20, scale: 2 }),
+  // When every price lookup for the row last went through, whether or not
+  // a price was found; null while the provider has only failed
+  priceCheckedAt: timestamp("price_checked_at"),
   
   // Flags
   isSpam: boolean("is_spam").default(false),
+  spamReason: text("spam_reason").$type<SpamReason>(),
   isDust: boolean("is_dust").default(false),
   
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({ 
+const methodArgumentSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  value: z.union([z.string(), z.array(z.string())]),
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  methodArgs: z.array(methodArgumentSchema).nullish(),
+  spamReason: z.enum(SPAM_REASONS).nullish(),
+}).omit({ 
   id: true, 
   createdAt: true 
 });
@@ -123,6 +269,98 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+// One row per asset leg of a transaction. tokenIn/tokenOut on the
+// transaction hold the primary legs for display; multi-hop swaps, LP
+// deposits and batched claims keep every leg here.
+export const MOVEMENT_DIRECTIONS = ["in", "out"] as const;
+export type MovementDirection = typeof MOVEMENT_DIRECTIONS[number];
+
+export const transactionMovements = pgTable("transaction_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id")
+    .references(() => transactions.id, { onDelete: "cascade" })
+    .notNull(),
+  direction: text("direction").notNull(),
+  token: text("token"),
+  tokenSymbol: text("token_symbol"),
+  amount: decimal("amount", { precision: 38, scale: 18 }).notNull(),
+  valueUsd: decimal("value_usd", { precision: 20, scale: 2 }),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertTransactionMovementSchema = createInsertSchema(transactionMovements).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertTransactionMovement = z.infer<typeof insertTransactionMovementSchema>;
+export type TransactionMovement = typeof transactionMovements.$inferSelect;
+
+// A leg before its transaction is stored
+export type MovementLeg = Omit<InsertTransactionMovement, "transactionId" | "position">;
+
+// What providers hand to storage: the transaction plus all of its legs.
+// Without movements, the legs are taken from tokenIn/tokenOut.
+export type InsertTransactionWithMovements = InsertTransaction & { movements?: MovementLeg[] };
+
+// Manual entry and bulk import. Field names follow insertTransactionSchema so
+// exported rows can be imported again; chain always comes from the wallet and
+// txHash is derived from the row when left out. Values arrive as strings from
+// CSV, so blanks are treated as missing and numbers and dates are coerced.
+const blankToUndefined = (value: unknown) => (value === "" || value === null ? undefined : value);
+const manualText = z.preprocess(blankToUndefined, z.string().trim().max(200).optional());
+const manualAmount = z.preprocess(
+  value => (typeof value === "number" ? String(value) : blankToUndefined(value)),
+  z.string().trim().regex(/^\d+(\.\d+)?$/, "Must be a positive decimal number").optional()
+);
+
+const manualTransactionFields = z.object({
+  walletId: z.string().min(1, "Wallet is required"),
+  txHash: manualText,
+  timestamp: z.coerce.date({ errorMap: () => ({ message: "Invalid timestamp" }) }),
+  blockNumber: z.preprocess(blankToUndefined, z.coerce.number().int().nonnegative().optional()),
+  tokenIn: manualText,
+  tokenInAmount: manualAmount,
+  tokenInSymbol: manualText,
+  tokenOut: manualText,
+  tokenOutAmount: manualAmount,
+  tokenOutSymbol: manualText,
+  classification: z.preprocess(blankToUndefined, classificationSchema.optional()),
+  contractAddress: manualText,
+  methodName: manualText,
+  gasFee: manualAmount,
+  gasFeeUsd: manualAmount,
+  priceAtTime: manualAmount,
+  valueUsd: manualAmount,
+});
+
+// Column order of the import template
+export const MANUAL_IMPORT_COLUMNS = Object.keys(manualTransactionFields.shape) as
+  (keyof typeof manualTransactionFields.shape)[];
+
+export const manualTransactionSchema = manualTransactionFields
+  .refine(tx => !!tx.tokenInAmount || !!tx.tokenOutAmount, {
+    message: "Enter an amount received or sent",
+    path: ["tokenInAmount"],
+  })
+  .refine(tx => !tx.tokenInAmount || !!tx.tokenInSymbol, {
+    message: "Symbol is required for the amount received",
+    path: ["tokenInSymbol"],
+  })
+  .refine(tx => !tx.tokenOutAmount || !!tx.tokenOutSymbol, {
+    message: "Symbol is required for the amount sent",
+    path: ["tokenOutSymbol"],
+  });
+
+export type ManualTransaction = z.infer<typeof manualTransactionSchema>;
+
+export type ManualImportResult = {
+  imported: number;
+  skipped: number;
+  errors: ImportRowError[];
+};
+
 // Classification rules table
 export const classificationRules = pgTable("classification_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -145,7 +383,9 @@ export const classificationRules = pgTable("classification_rules", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertRuleSchema = createInsertSchema(classificationRules).omit({ 
+export const insertRuleSchema = createInsertSchema(classificationRules, {
+  classification: classificationSchema,
+}).omit({ 
   id: true, 
   createdAt: true 
 });
@@ -153,6 +393,91 @@ export const insertRuleSchema = createInsertSchema(classificationRules).omit({
 export type InsertRule = z.infer<typeof insertRuleSchema>;
 export type ClassificationRule = typeof classificationRules.$inferSelect;
 
+// Rule with how often it has classified transactions
+export type ClassificationRuleWithStats = ClassificationRule & {
+  hitCount: number;
+  lastMatchedAt: Date | null;
+};
+
+// Contract ABIs a user has supplied for decoding calls to custom contracts.
+// Without a contract address the ABI applies to calls on any contract.
+export const contractAbis = pgTable("contract_abis", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  chain: text("chain"),
+  contractAddress: text("contract_address"),
+  abi: jsonb("abi").$type<AbiFragment[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+const abiParameterSchema: z.ZodType<AbiParameter> = z.lazy(() => z.object({
+  name: z.string().optional(),
+  type: z.string().min(1),
+  components: z.array(abiParameterSchema).optional(),
+}));
+
+export const insertContractAbiSchema = z.object({
+  userId: z.string(),
+  name: z.string().trim().min(1, "Name is required"),
+  chain: z.string().nullish(),
+  contractAddress: z.string().trim().regex(/^0x[0-9a-fA-F]{40}$/, "Must be a 0x address").nullish()
+    .or(z.literal("").transform(() => null)),
+  abi: z.array(z.object({
+    type: z.string().optional(),
+    name: z.string().optional(),
+    inputs: z.array(abiParameterSchema).optional(),
+  }).passthrough()).min(1, "ABI must list at least one entry"),
+});
+
+export type InsertContractAbi = z.infer<typeof insertContractAbiSchema>;
+export type ContractAbi = typeof contractAbis.$inferSelect;
+
+// Tokens on a user's allow or deny list for spam detection, by contract
+// address (or mint) or by symbol. Without a chain the entry applies on
+// every chain.
+export const tokenListEntries = pgTable("token_list_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  list: text("list").notNull().$type<TokenListType>(),
+  chain: text("chain"),
+  token: text("token").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertTokenListEntrySchema = z.object({
+  userId: z.string(),
+  list: z.enum(TOKEN_LIST_TYPES),
+  chain: z.string().nullish().or(z.literal("").transform(() => null)),
+  token: z.string().trim().min(1, "Token address or symbol is required").max(100),
+});
+
+export type InsertTokenListEntry = z.infer<typeof insertTokenListEntrySchema>;
+export type TokenListEntry = typeof tokenListEntries.$inferSelect;
+
+export type AbiParameter = {
+  name?: string;
+  type: string;
+  components?: AbiParameter[];
+};
+
+// The parts of an ABI JSON entry used for decoding; events, errors and
+// constructors are stored but ignored
+export type AbiFragment = {
+  type?: string;
+  name?: string;
+  inputs?: AbiParameter[];
+};
+
+// A decoded call argument. Integers are decimal strings, addresses and
+// bytes lowercase hex; a top-level array keeps one string per element, and
+// anything nested deeper is written out as "(a, b)" or "[a, b]".
+export type MethodArgument = {
+  name: string;
+  type: string;
+  value: string | string[];
+};
+
 // Tax lots for cost basis tracking
 export const taxLots = pgTable("tax_lots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -190,6 +515,8 @@ export const disposals = pgTable("disposals", {
   costBasisUsd: decimal("cost_basis_usd", { precision: 20, scale: 2 }).notNull(),
   gainLossUsd: decimal("gain_loss_usd", { precision: 20, scale: 2 }).notNull(),
   isShortTerm: boolean("is_short_term").default(true),
+  // Native asset spent on a network fee rather than traded away
+  isFee: boolean("is_fee").default(false),
   disposedAt: timestamp("disposed_at").notNull(),
   
   createdAt: timestamp("created_at").defaultNow(),
@@ -203,6 +530,116 @@ export const insertDisposalSchema = createInsertSchema(disposals).omit({
 export type InsertDisposal = z.infer<typeof insertDisposalSchema>;
 export type Disposal = typeof disposals.$inferSelect;
 
+// Specific ID lot selections - which acquisition lots a disposal should relieve.
+// Lots are rebuilt on every recalculation, so selections point at the
+// transaction that opened the lot rather than the tax_lots row.
+export const lotDesignations = pgTable("lot_designations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  disposalTransactionId: varchar("disposal_transaction_id").references(() => transactions.id).notNull(),
+  lotTransactionId: varchar("lot_transaction_id").references(() => transactions.id).notNull(),
+  amount: decimal("amount", { precision: 38, scale: 18 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertLotDesignationSchema = createInsertSchema(lotDesignations).omit({ 
+  id: true, 
+  createdAt: true 
+});
+
+export type InsertLotDesignation = z.infer<typeof insertLotDesignationSchema>;
+export type LotDesignation = typeof lotDesignations.$inferSelect;
+
+// Daily historical USD prices cached from price providers.
+// Native assets use "native" as the contract address.
+export const tokenPrices = pgTable("token_prices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chain: text("chain").notNull(),
+  contractAddress: text("contract_address").notNull(),
+  day: date("day", { mode: "string" }).notNull(),
+  priceUsd: decimal("price_usd", { precision: 20, scale: 8 }).notNull(),
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("token_prices_chain_contract_day").on(table.chain, table.contractAddress, table.day)]);
+
+export const insertTokenPriceSchema = createInsertSchema(tokenPrices).omit({ 
+  id: true, 
+  createdAt: true 
+});
+
+export type InsertTokenPrice = z.infer<typeof insertTokenPriceSchema>;
+export type TokenPrice = typeof tokenPrices.$inferSelect;
+
+// Background wallet sync jobs, claimed and run by the server's sync worker
+export const SYNC_JOB_STATUSES = ["queued", "running", "completed", "failed"] as const;
+export type SyncJobStatus = typeof SYNC_JOB_STATUSES[number];
+
+export const syncJobs = pgTable("sync_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  walletId: varchar("wallet_id").references(() => wallets.id, { onDelete: "cascade" }).notNull(),
+  // Set when the job was queued by a scheduled auto-sync run
+  runId: varchar("run_id").references(() => syncRuns.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("queued"),
+  progress: integer("progress").notNull().default(0),
+  stage: text("stage"),
+  options: jsonb("options").$type<SyncJobOptions>(),
+  result: jsonb("result").$type<SyncResult>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Jobs are only created server-side, so the insert type comes straight from
+// the table to keep the jsonb column types intact
+export type InsertSyncJob = Omit<typeof syncJobs.$inferInsert, "id" | "createdAt">;
+export type SyncJob = typeof syncJobs.$inferSelect;
+
+export type SyncJobOptions = {
+  maxPages?: number;
+  full?: boolean;
+};
+
+export type SyncResult = {
+  walletId: string;
+  imported: number;
+  skipped: number;
+  ruleMatched: number;
+  // Transfers to or from the user's other wallets linked by this sync
+  selfTransfers: number;
+  // Transactions whose spam flag changed, across all of the user's wallets
+  spam: number;
+  total: number;
+  pages: number;
+  transfers: number;
+  truncated: boolean;
+  fromBlock: number | null;
+  lastSyncedBlock: number | null;
+  needsReview: number;
+};
+
+// One row per scheduled auto-sync pass over a user's active wallets; the
+// outcome is read from the sync jobs it queued
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  trigger: text("trigger").notNull().default("scheduled"),
+  walletCount: integer("wallet_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type InsertSyncRun = Omit<typeof syncRuns.$inferInsert, "id" | "createdAt">;
+export type SyncRun = typeof syncRuns.$inferSelect;
+
+export type SyncRunSummary = SyncRun & {
+  status: SyncJobStatus;
+  imported: number;
+  needsReview: number;
+  failed: number;
+  finishedAt: Date | null;
+};
+
 // Settings table
 export const settings = pgTable("settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -213,16 +650,48 @@ export const settings = pgTable("settings", {
   country: text("country").default("US"),
   showSpam: boolean("show_spam").default(false),
   showDust: boolean("show_dust").default(true),
-  dustThreshold: decimal("dust_threshold", { precision: 20, scale: 2 }).default("1.00"),
+  dustThreshold: decimal("dust_threshold", { precision: 20, scale: 2 }).default(DEFAULT_DUST_THRESHOLD),
+  // Minutes between scheduled syncs of active wallets; null disables auto-sync
+  autoSyncIntervalMinutes: integer("auto_sync_interval_minutes"),
+  lastAutoSyncAt: timestamp("last_auto_sync_at"),
 });
 
 export const insertSettingsSchema = createInsertSchema(settings).omit({ 
-  id: true 
+  id: true,
+  lastAutoSyncAt: true,
 });
 
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type Settings = typeof settings.$inferSelect;
 
+// What PATCH /api/settings accepts. Every field is optional so each part
+// of the settings page can save just its own; anything else is rejected.
+// baseCurrency and country are left out while every report is in USD under
+// US rules.
+export const updateSettingsSchema = z.object({
+  // Bitcoin's first block is the earliest anything could have happened; the
+  // current year is read on every parse so a long-running server keeps up
+  taxYear: z.number().int().min(2009)
+    .refine(year => year <= new Date().getFullYear(), "Tax year cannot be in the future"),
+  lotMethod: z.enum(LOT_METHODS),
+  showSpam: z.boolean(),
+  showDust: z.boolean(),
+  dustThreshold: z.union([z.string(), z.number()])
+    .transform(String)
+    .pipe(z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a USD amount with at most two decimals")),
+  autoSyncIntervalMinutes: z.number().int().positive().nullable(),
+}).partial().strict();
+
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;
+
+// PATCH /api/settings responds with the saved settings and what the change
+// set off, so the page can say what actually happened
+export type UpdateSettingsResult = Settings & {
+  recalculated: boolean;
+  // Transactions whose dust flag changed; null when the threshold did not
+  dustFlagsChanged: number | null;
+};
+
 // Telegram links for notifications
 export const telegramLinks = pgTable("telegram_links", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -246,6 +715,39 @@ export const insertTelegramLinkSchema = createInsertSchema(telegramLinks).omit({
 export type InsertTelegramLink = z.infer<typeof insertTelegramLinkSchema>;
 export type TelegramLink = typeof telegramLinks.$inferSelect;
 
+// Server-wide key/value state, such as the classification taxonomy version
+// stored rows were last migrated to
+export const appMeta = pgTable("app_meta", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Exchange CSV import preview
+export type ExchangeColumnMapping = {
+  field: string;
+  column: string | null;
+  required: boolean;
+};
+
+export type ImportRowError = {
+  row: number;
+  message: string;
+};
+
+export type ExchangeImportPreview = {
+  exchange: Exchange;
+  columns: ExchangeColumnMapping[];
+  rows: (Pick<
+    InsertTransaction,
+    "txHash" | "classification" | "tokenInSymbol" | "tokenInAmount" | "tokenOutSymbol" | "tokenOutAmount" | "valueUsd"
+  > & { row: number; timestamp: string })[];
+  totalRows: number;
+  validRows: number;
+  skippedRows: number;
+  errors: ImportRowError[];
+};
+
 // Dashboard stats type
 export type DashboardStats = {
   totalWallets: number;
@@ -259,3 +761,29 @@ export type DashboardStats = {
   classificationBreakdown: { classification: string; count: number }[];
   recentTransactions: Transaction[];
 };
+
+// Side-by-side realized gains for each lot method in a tax year
+export type LotMethodTotals = {
+  lotMethod: LotMethod;
+  totalDisposals: number;
+  shortTermGains: string;
+  shortTermLosses: string;
+  longTermGains: string;
+  longTermLosses: string;
+  netGainLoss: string;
+};
+
+export type LotMethodComparison = {
+  year: number;
+  currentMethod: LotMethod;
+  methods: LotMethodTotals[];
+  disposals: {
+    transactionId: string;
+    tokenSymbol: string;
+    amount: string;
+    disposedAt: string;
+    proceedsUsd: string;
+    gainLossByMethod: Record<LotMethod, string>;
+    deltaByMethod: Record<LotMethod, string>;
+  }[];
+};